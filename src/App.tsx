@@ -9,12 +9,25 @@ import FilterModal from "./components/FilterModal";
 import PropertyForm from "./components/PropertyForm";
 import PersonForm from "./components/PersonForm";
 import LoginScreen from "./components/LoginScreen";
+import UndoToast from "./components/UndoToast";
+import LockScreen from "./components/LockScreen";
 import { useStore } from "./store/store";
-import { APP_VERSION } from "./constants";
+import {
+  APP_VERSION,
+  AREA_UNIT_CONFIG,
+  AUTH_CONFIG,
+  BACKEND_CONFIG,
+  TRASH_CONFIG,
+} from "./constants";
+import { isOutboxStorageKey } from "./utils/outbox";
+import { cacheDB } from "./utils/cacheDB";
+import { isBackendOnline } from "./utils/backend";
+import { describeError } from "./utils/errors";
 
 function App() {
   const {
     isAuthenticated,
+    isSessionExpired,
     checkAuth,
     isSidebarOpen,
     isMobileView,
@@ -33,6 +46,10 @@ function App() {
     error,
     activeTab,
     lastSyncTime,
+    setOnlineStatus,
+    undo,
+    redo,
+    loadUserNames,
   } = useStore();
 
   // Use ref to prevent duplicate initial loads
@@ -51,6 +68,11 @@ function App() {
     
     return () => clearInterval(authCheckInterval);
   }, [checkAuth]);
+  // Names for the "added by" labels, fetched again for each sign-in
+  useEffect(() => {
+    if (isAuthenticated) loadUserNames();
+  }, [isAuthenticated, loadUserNames]);
+
   // Version management for cache clearing
   useEffect(() => {
     const storedVersion = localStorage.getItem("app_version");
@@ -61,7 +83,18 @@ function App() {
       );
 
       // Clear localStorage except for essential settings
-      const essentialKeys = ["mapSatelliteView"];
+      const essentialKeys = [
+        "mapSatelliteView",
+        // Every user's queued offline edits
+        ...Object.keys(localStorage).filter(isOutboxStorageKey),
+        BACKEND_CONFIG.storageKey,
+        AREA_UNIT_CONFIG.storageKey,
+        TRASH_CONFIG.retentionStorageKey,
+        AUTH_CONFIG.autoLockStorageKey,
+        // Lockout and the sign-in audit must outlast a deploy
+        AUTH_CONFIG.attemptsStorageKey,
+        AUTH_CONFIG.auditStorageKey,
+      ];
       const keysToKeep: Record<string, string> = {};
 
       essentialKeys.forEach((key) => {
@@ -82,12 +115,13 @@ function App() {
       // Set new version
       localStorage.setItem("app_version", APP_VERSION);
 
-      // Clear any cached data in memory by forcing a page reload
-      if (storedVersion) {
-        // Only reload if there was a previous version
-        window.location.reload();
-        return;
-      }
+      // Clear the offline data cache, then any cached data in memory by forcing a page reload
+      cacheDB.clear().finally(() => {
+        if (storedVersion) {
+          // Only reload if there was a previous version
+          window.location.reload();
+        }
+      });
     }
   }, []);
 
@@ -109,6 +143,52 @@ function App() {
     };
   }, [setMobileView]);
 
+  // Track connectivity so queued offline edits are replayed on reconnect
+  useEffect(() => {
+    // The local backend stays available without a connection
+    const handleConnectivity = () => setOnlineStatus(isBackendOnline());
+
+    window.addEventListener("online", handleConnectivity);
+    window.addEventListener("offline", handleConnectivity);
+
+    return () => {
+      window.removeEventListener("online", handleConnectivity);
+      window.removeEventListener("offline", handleConnectivity);
+    };
+  }, [setOnlineStatus]);
+
+  // Undo / redo shortcuts - text fields keep their own native undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+
+      const target = event.target;
+      if (
+        target instanceof HTMLElement &&
+        target.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+
+      event.preventDefault();
+      const isRedo = key === "y" || event.shiftKey;
+      (isRedo ? redo() : undo()).catch((error) => {
+        alert(
+          describeError(
+            error,
+            isRedo ? "Failed to redo change" : "Failed to undo change"
+          )
+        );
+      });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
   // Initialize app with cache-first approach - FIXED: Single initialization
   useEffect(() => {
     if (!hasInitialized.current && !isInitializing.current) {
@@ -122,8 +202,8 @@ function App() {
           // Load from cache immediately
           await loadFromCache();
 
-          // Then load fresh data from API
-          await loadAllData();
+          // Then load fresh data from API (only changes when the cache is recent)
+          await refreshData();
         } catch (error) {
           console.error("Failed to initialize app:", error);
         } finally {
@@ -133,12 +213,12 @@ function App() {
 
       initializeApp();
     }
-  }, [loadFromCache, loadAllData]);
+  }, [loadFromCache, refreshData]);
 
   // Auto-refresh data every 5 minutes if the app is active
   useEffect(() => {
     const refreshInterval = setInterval(() => {
-      if (!document.hidden && lastSyncTime) {
+      if (!document.hidden && isBackendOnline() && lastSyncTime) {
         const timeSinceLastSync = Date.now() - lastSyncTime;
         const fiveMinutes = 5 * 60 * 1000;
 
@@ -152,8 +232,9 @@ function App() {
     return () => clearInterval(refreshInterval);
   }, [lastSyncTime, refreshData]);
 
-  // Show login screen if not authenticated
-  if (!isAuthenticated) {
+  // Show login screen if not authenticated. An expired session is handled
+  // below as an overlay so open forms keep their state.
+  if (!isAuthenticated && !isSessionExpired) {
     return <LoginScreen />;
   }
   // Show loading state only for initial load when no cache is available
@@ -242,6 +323,10 @@ function App() {
             onClose={() => togglePersonForm()}
           />
         )}
+
+        <UndoToast />
+        <LockScreen />
+        {isSessionExpired && <LoginScreen />}
       </div>
     </div>
   );
@@ -0,0 +1,51 @@
+import React from "react";
+import { AlertTriangle, Check } from "lucide-react";
+import { AreaUnit, Property } from "../types";
+import { compareBoundaryToSize } from "../utils/boundary";
+import { formatArea } from "../utils/areaUnits";
+
+interface BoundarySizeCheckProps {
+  property: Pick<Property, "boundary" | "size_min">;
+  unit: AreaUnit;
+  className?: string;
+}
+
+// Area of the drawn boundary against the stated size, flagged when they
+// are too far apart
+const BoundarySizeCheck: React.FC<BoundarySizeCheckProps> = ({
+  property,
+  unit,
+  className = "",
+}) => {
+  const comparison = compareBoundaryToSize(property);
+  if (!comparison) return null;
+
+  const { drawn, stated, difference, matches } = comparison;
+  const percent = Math.round(Math.abs(difference) * 100);
+
+  return (
+    <div
+      className={`flex items-center text-xs ${
+        matches ? "text-gray-500" : "text-amber-700"
+      } ${className}`}
+    >
+      {matches ? (
+        <Check size={12} className="mr-1 flex-shrink-0" />
+      ) : (
+        <AlertTriangle size={12} className="mr-1 flex-shrink-0" />
+      )}
+      <span>
+        Boundary {formatArea(drawn, unit)}
+        {stated > 0 &&
+          (percent === 0
+            ? ", same as stated"
+            : `, ${percent}% ${difference > 0 ? "more" : "less"} than stated ${formatArea(
+                stated,
+                unit
+              )}`)}
+      </span>
+    </div>
+  );
+};
+
+export default BoundarySizeCheck;
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { useStore } from "../store/store";
+import {
+  BoundaryPolygon,
+  ChangeLogEntity,
+  ChangeLogEntry,
+  FieldChange,
+  PlotDimensions,
+  Property,
+} from "../types";
+import {
+  getFieldLabel,
+  getRecordChanges,
+  isCurrentValue,
+  onChangeLogged,
+  PHONE_FIELDS,
+} from "../utils/changeLog";
+import { describeUser } from "../utils/attribution";
+import { describeError } from "../utils/errors";
+import { formatCurrency } from "../utils/formatters";
+import { formatDimensions } from "../utils/plot";
+import { getBoundaryArea } from "../utils/boundary";
+
+interface ChangeTimelineProps {
+  entity: ChangeLogEntity;
+  recordId: number;
+}
+
+// Entries shown before "Show all"
+const COLLAPSED_ENTRIES = 5;
+
+const formatValue = (field: string, value: unknown): string => {
+  if (field === "status") return String(value || "Available");
+  if (value === undefined || value === null || value === "") return "—";
+
+  switch (field) {
+    case "price_min":
+    case "price_max":
+      return `₹${formatCurrency(Number(value))}`;
+    case "size_min":
+    case "size_max":
+      return `${value} sq yd`;
+    case "dimensions":
+      return formatDimensions(value as PlotDimensions);
+    case "road_width":
+      return `${value} ft`;
+    case "corner":
+      return value ? "Yes" : "No";
+    case "radius":
+      return `${value} m`;
+    case "boundary":
+      return `${Math.round(getBoundaryArea(value as BoundaryPolygon))} sq yd drawn`;
+    case "rating":
+      return `${value}★`;
+    case "tags":
+      return (value as string[]).join(", ") || "—";
+    case "location": {
+      const { latitude, longitude } = value as Property["location"];
+      return `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+    }
+    default:
+      return String(value);
+  }
+};
+
+// Field-level edits to a property or person, newest first, each of which can
+// be put back on its own
+const ChangeTimeline: React.FC<ChangeTimelineProps> = ({
+  entity,
+  recordId,
+}) => {
+  const { userNames, currentUser, revertField, can, properties, persons } =
+    useStore();
+  const [entries, setEntries] = useState<ChangeLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [revertingKey, setRevertingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setShowAll(false);
+
+    getRecordChanges(entity, recordId)
+      .then((loaded) => {
+        if (isCurrent) setEntries(loaded);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    const unsubscribe = onChangeLogged((entry) => {
+      if (entry.entity === entity && entry.recordId === recordId) {
+        setEntries((current) => [entry, ...current]);
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+      unsubscribe();
+    };
+  }, [entity, recordId]);
+
+  const canEdit = can("edit");
+  const canViewPhones = can("viewPhones");
+
+  const handleRevert = async (entry: ChangeLogEntry, change: FieldChange) => {
+    const label = getFieldLabel(entity, change.field).toLowerCase();
+    const record =
+      entity === "property"
+        ? properties.find((p) => p.id === recordId)
+        : persons.find((p) => p.id === recordId);
+    if (record && !isCurrentValue(record, change)) {
+      alert(
+        `The ${label} has been changed again since, so this change can't be reverted`
+      );
+      return;
+    }
+
+    if (
+      !confirm(
+        `Change ${label} back to ${formatValue(change.field, change.before)}?`
+      )
+    ) {
+      return;
+    }
+
+    setRevertingKey(`${entry.id}:${change.field}`);
+    try {
+      await revertField(entity, recordId, change);
+    } catch (error) {
+      alert(describeError(error, `Failed to revert ${label}`));
+    } finally {
+      setRevertingKey(null);
+    }
+  };
+
+  const visibleEntries = showAll
+    ? entries
+    : entries.slice(0, COLLAPSED_ENTRIES);
+
+  return (
+    <div className="bg-white border rounded-xl p-4">
+      <h4 className="text-sm font-medium mb-3 flex items-center text-gray-900">
+        <History size={14} className="mr-2 text-gray-600" />
+        Change History
+      </h4>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2 text-gray-400">
+          <Loader2 size={18} className="animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No edits recorded on this device yet
+        </p>
+      ) : (
+        <ol className="space-y-3 border-l border-gray-200 ml-1">
+          {visibleEntries.map((entry) => (
+            <li key={entry.id} className="pl-4 relative">
+              <span className="absolute -left-1 top-1.5 w-2 h-2 rounded-full bg-blue-400" />
+              <p className="text-xs text-gray-500 mb-1">
+                {new Date(entry.at).toLocaleString("en-IN", {
+                  day: "numeric",
+                  month: "short",
+                  year: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+                {entry.userId !== undefined &&
+                  ` · ${describeUser(entry.userId, userNames, currentUser)}`}
+              </p>
+              <ul className="space-y-1">
+                {entry.changes.map((change) => {
+                  const isHidden =
+                    PHONE_FIELDS.includes(change.field) && !canViewPhones;
+                  const key = `${entry.id}:${change.field}`;
+
+                  return (
+                    <li
+                      key={change.field}
+                      className="flex items-start justify-between text-sm"
+                    >
+                      <span className="min-w-0 break-words">
+                        <span className="font-medium text-gray-700">
+                          {getFieldLabel(entity, change.field)}
+                        </span>
+                        {isHidden ? (
+                          <span className="text-gray-500"> changed</span>
+                        ) : (
+                          <>
+                            {": "}
+                            <span className="text-gray-500 line-through">
+                              {formatValue(change.field, change.before)}
+                            </span>
+                            {" → "}
+                            <span className="text-gray-900">
+                              {formatValue(change.field, change.after)}
+                            </span>
+                          </>
+                        )}
+                      </span>
+                      {canEdit && !isHidden && (
+                        <button
+                          onClick={() => handleRevert(entry, change)}
+                          disabled={revertingKey !== null}
+                          className="ml-2 p-1 text-gray-400 hover:text-blue-600 disabled:opacity-50 flex-shrink-0"
+                          title="Revert this change"
+                        >
+                          {revertingKey === key ? (
+                            <Loader2 size={14} className="animate-spin" />
+                          ) : (
+                            <RotateCcw size={14} />
+                          )}
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {entries.length > COLLAPSED_ENTRIES && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showAll ? "Show less" : `Show all ${entries.length} edits`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChangeTimeline;
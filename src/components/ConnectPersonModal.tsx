@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { X, Loader2 } from 'lucide-react';
 import { Person, Connection } from '../types';
 import { useStore } from '../store/store';
+import { describeError } from '../utils/errors';
 import { CONNECTION_ROLES, UI_TEXT } from '../constants';
 
 interface ConnectPersonModalProps {
@@ -34,6 +35,7 @@ const ConnectPersonModal: React.FC<ConnectPersonModalProps> = ({ propertyId, per
       onClose();
     } catch (error) {
       console.error('Failed to create connection:', error);
+      alert(describeError(error, 'Failed to connect person'));
     }
   };
 
@@ -0,0 +1,27 @@
+import React, { useEffect } from "react";
+import { useStore } from "../store/store";
+
+interface CoverThumbnailProps {
+  mediaId?: number;
+  className?: string;
+}
+
+// A property's cover photo, fetched from its media row the first time it shows
+const CoverThumbnail: React.FC<CoverThumbnailProps> = ({
+  mediaId,
+  className = "",
+}) => {
+  const { coverThumbnails, loadCoverThumbnail } = useStore();
+  const thumbnail =
+    mediaId === undefined ? undefined : coverThumbnails[mediaId];
+
+  useEffect(() => {
+    if (mediaId !== undefined) loadCoverThumbnail(mediaId);
+  }, [mediaId, loadCoverThumbnail]);
+
+  if (!thumbnail) return null;
+
+  return <img src={thumbnail} alt="" className={className} />;
+};
+
+export default CoverThumbnail;
@@ -0,0 +1,55 @@
+import React from "react";
+import { useStore } from "../store/store";
+import { CreatorFilter } from "../types";
+import { UI_TEXT } from "../constants";
+
+interface CreatorFilterSelectProps {
+  value: CreatorFilter | undefined;
+  onChange: (value: CreatorFilter | undefined) => void;
+}
+
+// "Added by" filter shared by the property and person filter panels
+const CreatorFilterSelect: React.FC<CreatorFilterSelectProps> = ({
+  value,
+  onChange,
+}) => {
+  const { userNames, currentUser } = useStore();
+
+  const otherUsers = Object.entries(userNames)
+    .map(([id, name]) => ({ id: Number(id), name }))
+    .filter((user) => user.id !== currentUser?.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleChange = (selected: string) => {
+    if (selected === "") {
+      onChange(undefined);
+    } else {
+      onChange(selected === "me" ? "me" : Number(selected));
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{UI_TEXT.labels.addedBy}</h4>
+      <select
+        value={value === undefined ? "" : String(value)}
+        onChange={(e) => handleChange(e.target.value)}
+        className="w-full border rounded-md p-2 text-sm"
+      >
+        <option value="">Anyone</option>
+        <option value="me">Me</option>
+        {otherUsers.map((user) => (
+          <option key={user.id} value={user.id}>
+            {user.name}
+          </option>
+        ))}
+        {/* A saved filter may name someone who's no longer listed */}
+        {typeof value === "number" && !(value in userNames) && (
+          <option value={value}>User #{value}</option>
+        )}
+      </select>
+    </div>
+  );
+};
+
+export default CreatorFilterSelect;
@@ -0,0 +1,56 @@
+import React, { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, X } from "lucide-react";
+import { useStore } from "../store/store";
+import { formatValidationIssue } from "../utils/validation";
+
+// Shows how many records were skipped because the server sent malformed data
+const DataQualityBanner: React.FC = () => {
+  const { dataIssues, clearDataIssues } = useStore();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (dataIssues.length === 0) return null;
+
+  const skippedCount = new Set(
+    dataIssues.map((issue) => `${issue.table}:${issue.recordId}`)
+  ).size;
+
+  return (
+    <div className="mx-4 mt-3 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className="flex items-center space-x-2 font-medium"
+        >
+          <AlertTriangle size={16} />
+          <span>
+            {skippedCount} record{skippedCount === 1 ? "" : "s"} skipped due to
+            bad data
+          </span>
+          {showDetails ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+        <button
+          onClick={clearDataIssues}
+          className="p-1 rounded hover:bg-amber-100"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {showDetails && (
+        <ul className="mt-2 space-y-1 text-xs max-h-40 overflow-y-auto">
+          {dataIssues.map((issue) => (
+            <li
+              key={`${issue.table}:${issue.recordId}:${issue.field}`}
+              className="break-words"
+            >
+              {formatValidationIssue(issue)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityBanner;
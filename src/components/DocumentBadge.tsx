@@ -0,0 +1,35 @@
+import React from "react";
+import { FileCheck } from "lucide-react";
+import { Property } from "../types";
+import { getDocumentCompleteness } from "../utils/documents";
+
+interface DocumentBadgeProps {
+  property: Pick<Property, "documents">;
+  className?: string;
+}
+
+// Available papers out of those that apply, e.g. "Docs 4/6"
+const DocumentBadge: React.FC<DocumentBadgeProps> = ({
+  property,
+  className = "",
+}) => {
+  const { available, total } = getDocumentCompleteness(property);
+  const style =
+    available === total
+      ? "bg-green-100 text-green-800"
+      : available > 0
+        ? "bg-amber-100 text-amber-800"
+        : "bg-gray-100 text-gray-700";
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${style} ${className}`}
+      title={`${available} of ${total} documents available`}
+    >
+      <FileCheck size={12} className="mr-1" />
+      Docs {available}/{total}
+    </span>
+  );
+};
+
+export default DocumentBadge;
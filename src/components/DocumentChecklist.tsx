@@ -0,0 +1,320 @@
+import React, { useRef, useState } from "react";
+import {
+  Camera,
+  ExternalLink,
+  FileText,
+  Loader2,
+  ShieldCheck,
+  X,
+} from "lucide-react";
+import { useStore } from "../store/store";
+import {
+  DocumentStatus,
+  DocumentType,
+  Property,
+  PropertyDocument,
+} from "../types";
+import { DOCUMENT_STATUSES, DOCUMENT_TYPES, MEDIA_CONFIG } from "../constants";
+import { describeUser } from "../utils/attribution";
+import { getDocument, withDocument } from "../utils/documents";
+import { describeError } from "../utils/errors";
+import DocumentBadge from "./DocumentBadge";
+
+interface DocumentChecklistProps {
+  property: Property;
+}
+
+const STATUS_STYLES: Record<DocumentStatus, string> = {
+  Available: "text-green-700",
+  Pending: "text-amber-700",
+  "Not Applicable": "text-gray-500",
+};
+
+const formatVerifiedDate = (at: string) =>
+  new Date(at).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+// Legal papers of a property: whether each is in hand, where a copy is and
+// who checked it
+const DocumentChecklist: React.FC<DocumentChecklistProps> = ({ property }) => {
+  const {
+    updateProperty,
+    addPropertyMedia,
+    getPropertyLinks,
+    propertyMedia,
+    userNames,
+    currentUser,
+    can,
+  } = useStore();
+  const [savingType, setSavingType] = useState<DocumentType | null>(null);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const scanTypeRef = useRef<DocumentType | null>(null);
+
+  const canEdit = can("edit");
+  const links = getPropertyLinks(property.id);
+  const media = propertyMedia[property.id] ?? [];
+
+  const save = async (document: PropertyDocument) => {
+    setSavingType(document.type);
+    try {
+      await updateProperty(withDocument(property, document));
+    } catch (error) {
+      alert(describeError(error, `Failed to update ${document.type}`));
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  const handleVerify = (document: PropertyDocument) => {
+    if (document.verified_on) {
+      save({ ...document, verified_on: undefined, verified_by: undefined });
+    } else {
+      save({
+        ...document,
+        verified_on: new Date().toISOString(),
+        verified_by: currentUser?.id,
+      });
+    }
+  };
+
+  const handleAttachLink = (document: PropertyDocument, value: string) => {
+    save({
+      ...document,
+      link_id: value ? Number(value) : undefined,
+      media_id: undefined,
+    });
+  };
+
+  const handleScan = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(e.target.files ?? []);
+    const type = scanTypeRef.current;
+    e.target.value = "";
+    if (!file || !type) return;
+
+    setSavingType(type);
+    try {
+      const [scan] = await addPropertyMedia(property.id, [file], type);
+      await updateProperty(
+        withDocument(property, {
+          ...getDocument(property, type),
+          media_id: scan.id,
+          link_id: undefined,
+        })
+      );
+    } catch (error) {
+      alert(describeError(error, `Failed to attach ${type}`));
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  const renderAttachment = (document: PropertyDocument) => {
+    const link = links.find((l) => l.id === document.link_id);
+    if (link) {
+      return (
+        <a
+          href={link.link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800 truncate max-w-[160px]"
+        >
+          <ExternalLink size={12} className="mr-1 flex-shrink-0" />
+          <span className="truncate">{link.anchor || link.link}</span>
+        </a>
+      );
+    }
+
+    const scan = media.find((m) => m.id === document.media_id);
+    if (scan) {
+      return (
+        <button onClick={() => setPreviewImage(scan.image)} title="View copy">
+          <img
+            src={scan.thumbnail}
+            alt={`${document.type} copy`}
+            className="w-8 h-8 rounded object-cover border"
+          />
+        </button>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div className="bg-white border rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium flex items-center text-gray-900">
+          <FileText size={14} className="mr-2 text-gray-600" />
+          Documents
+        </h4>
+        <DocumentBadge property={property} />
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {DOCUMENT_TYPES.map((type) => {
+          const document = getDocument(property, type);
+          const isSaving = savingType === type;
+          const hasAttachment =
+            document.link_id !== undefined || document.media_id !== undefined;
+
+          return (
+            <li key={type} className="py-2 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-800">
+                  {type}
+                </span>
+                <div className="flex items-center space-x-2">
+                  {isSaving && (
+                    <Loader2 size={14} className="animate-spin text-gray-400" />
+                  )}
+                  {canEdit ? (
+                    <select
+                      value={document.status}
+                      onChange={(e) =>
+                        save({
+                          ...document,
+                          status: e.target.value as DocumentStatus,
+                        })
+                      }
+                      disabled={savingType !== null}
+                      className={`border rounded-md px-2 py-1 text-xs ${STATUS_STYLES[document.status]}`}
+                    >
+                      {DOCUMENT_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {status}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span
+                      className={`text-xs ${STATUS_STYLES[document.status]}`}
+                    >
+                      {document.status}
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {document.status !== "Not Applicable" && (
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    {renderAttachment(document)}
+                    {canEdit && hasAttachment && (
+                      <button
+                        onClick={() =>
+                          save({
+                            ...document,
+                            link_id: undefined,
+                            media_id: undefined,
+                          })
+                        }
+                        disabled={savingType !== null}
+                        className="p-0.5 text-gray-400 hover:text-red-600"
+                        title="Remove copy"
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
+                    {canEdit && !hasAttachment && (
+                      <>
+                        {links.length > 0 && (
+                          <select
+                            value=""
+                            onChange={(e) =>
+                              handleAttachLink(document, e.target.value)
+                            }
+                            disabled={savingType !== null}
+                            className="border rounded px-1 py-0.5 text-xs max-w-[120px]"
+                          >
+                            <option value="">Attach link…</option>
+                            {links.map((link) => (
+                              <option key={link.id} value={link.id}>
+                                {link.anchor || link.link}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          onClick={() => {
+                            scanTypeRef.current = type;
+                            scanInputRef.current?.click();
+                          }}
+                          disabled={savingType !== null}
+                          className="inline-flex items-center px-1.5 py-0.5 rounded border hover:bg-gray-50"
+                          title="Photograph or upload a copy"
+                        >
+                          <Camera size={12} className="mr-1" />
+                          Scan
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {document.verified_on ? (
+                    <button
+                      onClick={() => canEdit && handleVerify(document)}
+                      disabled={!canEdit || savingType !== null}
+                      className="inline-flex items-center text-green-700 flex-shrink-0 ml-2"
+                      title={canEdit ? "Clear verification" : undefined}
+                    >
+                      <ShieldCheck size={12} className="mr-1" />
+                      {formatVerifiedDate(document.verified_on)}
+                      {document.verified_by !== undefined &&
+                        ` · ${describeUser(document.verified_by, userNames, currentUser)}`}
+                    </button>
+                  ) : (
+                    canEdit && (
+                      <button
+                        onClick={() => handleVerify(document)}
+                        disabled={savingType !== null}
+                        className="inline-flex items-center text-blue-600 hover:text-blue-800 flex-shrink-0 ml-2"
+                      >
+                        <ShieldCheck size={12} className="mr-1" />
+                        Mark verified
+                      </button>
+                    )
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <input
+        ref={scanInputRef}
+        type="file"
+        accept={MEDIA_CONFIG.accept}
+        capture="environment"
+        onChange={handleScan}
+        className="hidden"
+      />
+
+      {previewImage && (
+        <div
+          className="fixed inset-0 z-[1000] bg-black/90 flex items-center justify-center p-4"
+          onClick={() => setPreviewImage(null)}
+        >
+          <button
+            onClick={() => setPreviewImage(null)}
+            className="absolute top-3 right-3 p-1 text-white rounded hover:bg-white/10"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+          <img
+            src={previewImage}
+            alt="Document copy"
+            className="max-w-full max-h-full object-contain"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentChecklist;
@@ -10,28 +10,68 @@ import {
   Minus,
   MapPin,
   Target,
+  TrendingDown,
 } from "lucide-react";
-import { formatCurrency, formatSquareYards } from "../utils/formatters";
+import { formatCurrency } from "../utils/formatters";
+import {
+  formatSizeRange,
+  getAreaUnit,
+  getSizeRanges,
+} from "../utils/areaUnits";
 import {
   PROPERTY_TYPES,
+  PROPERTY_STATUSES,
+  ACTIVE_STATUSES,
+  DOCUMENT_TYPES,
+  KEY_DOCUMENTS,
+  FACING_DIRECTIONS,
+  ROAD_WIDTH_OPTIONS,
   PROPERTY_ZONES,
   PRICE_RANGES,
-  SIZE_RANGES,
+  PRICE_HISTORY_CONFIG,
+  AREA_UNITS,
   RADIUS_RANGES,
   UI_TEXT,
   RATING_OPTIONS,
   SORT_OPTIONS,
   DEFAULT_COORDINATES,
 } from "../constants";
+import CreatorFilterSelect from "./CreatorFilterSelect";
+import { getCustomFields } from "../utils/customFields";
+import {
+  AreaUnit,
+  CustomFieldValue,
+  DocumentType,
+  FacingDirection,
+  PropertyStatus,
+} from "../types";
 
 const FilterPanel: React.FC = () => {
-  const { filters, updateFilters, resetFilters, getAllTags, properties } =
-    useStore();
+  const {
+    filters,
+    updateFilters,
+    resetFilters,
+    getAllTags,
+    properties,
+    areaUnits,
+  } = useStore();
   const [tagSearchQuery, setTagSearchQuery] = useState("");
   const [excludeTagSearchQuery, setExcludeTagSearchQuery] = useState("");
   const [showIncludeTags, setShowIncludeTags] = useState(false);
   const [showExcludeTags, setShowExcludeTags] = useState(false);
   const [showSizeRange, setShowSizeRange] = useState(false);
+  // Ranges are listed in the display unit of the one selected property type,
+  // or gaj, unless another unit is picked here
+  const [pickedSizeUnit, setPickedSizeUnit] = useState<AreaUnit | null>(null);
+  const sizeUnit =
+    pickedSizeUnit ??
+    (filters.propertyTypes.length === 1
+      ? getAreaUnit(filters.propertyTypes[0], areaUnits)
+      : "gaj");
+  const customFieldDefinitions =
+    filters.propertyTypes.length === 1
+      ? getCustomFields(filters.propertyTypes[0])
+      : [];
   const [showRating, setShowRating] = useState(false);
   const [showRadiusRange, setShowRadiusRange] = useState(false);
 
@@ -81,7 +121,45 @@ const FilterPanel: React.FC = () => {
       currentTypes.splice(index, 1);
     }
 
-    updateFilters({ propertyTypes: currentTypes });
+    // Detail filters only make sense for the type they were set for
+    updateFilters({ propertyTypes: currentTypes, customFields: {} });
+  };
+
+  const handleStatusToggle = (status: PropertyStatus) => {
+    updateFilters({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((s) => s !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  const handleDocumentToggle = (type: DocumentType) => {
+    updateFilters({
+      requiredDocuments: filters.requiredDocuments.includes(type)
+        ? filters.requiredDocuments.filter((t) => t !== type)
+        : [...filters.requiredDocuments, type],
+    });
+  };
+
+  const handleFacingToggle = (facing: FacingDirection) => {
+    updateFilters({
+      facings: filters.facings.includes(facing)
+        ? filters.facings.filter((f) => f !== facing)
+        : [...filters.facings, facing],
+    });
+  };
+
+  // A blank value drops the field from the filter
+  const handleCustomFieldChange = (
+    key: string,
+    value: CustomFieldValue | ""
+  ) => {
+    const rest = Object.fromEntries(
+      Object.entries(filters.customFields).filter(([k]) => k !== key)
+    );
+    updateFilters({
+      customFields: value === "" ? rest : { ...rest, [key]: value },
+    });
   };
 
   // Handle zone selection
@@ -449,6 +527,196 @@ const FilterPanel: React.FC = () => {
         </div>
       </div>
 
+      {/* 3a. Listing Status */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium">{UI_TEXT.labels.status}</h4>
+          <button
+            onClick={() => updateFilters({ statuses: [...ACTIVE_STATUSES] })}
+            className="text-blue-600 text-xs hover:text-blue-800"
+          >
+            Active only
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {PROPERTY_STATUSES.map((status) => (
+            <button
+              key={status}
+              className={`flex items-center px-3 py-1.5 text-sm rounded-md border ${
+                filters.statuses.includes(status)
+                  ? "bg-blue-50 border-blue-300 text-blue-700"
+                  : "border-gray-300 hover:bg-gray-50"
+              }`}
+              onClick={() => handleStatusToggle(status)}
+            >
+              <span className="flex-1 text-left">{status}</span>
+              {filters.statuses.includes(status) && <Check size={16} />}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 3b. Documents */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium">Documents Available</h4>
+          <button
+            onClick={() =>
+              updateFilters({ requiredDocuments: [...KEY_DOCUMENTS] })
+            }
+            className="text-blue-600 text-xs hover:text-blue-800"
+          >
+            {KEY_DOCUMENTS.join(" + ")}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {DOCUMENT_TYPES.map((type) => (
+            <button
+              key={type}
+              className={`flex items-center px-3 py-1.5 text-sm rounded-md border ${
+                filters.requiredDocuments.includes(type)
+                  ? "bg-blue-50 border-blue-300 text-blue-700"
+                  : "border-gray-300 hover:bg-gray-50"
+              }`}
+              onClick={() => handleDocumentToggle(type)}
+            >
+              <span className="flex-1 text-left">{type}</span>
+              {filters.requiredDocuments.includes(type) && <Check size={16} />}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 3c. Type-Specific Details */}
+      <div>
+        <h4 className="text-sm font-medium mb-2">
+          {filters.propertyTypes.length === 1
+            ? `${filters.propertyTypes[0]} Details`
+            : "Details"}
+        </h4>
+        {filters.propertyTypes.length !== 1 ? (
+          <p className="text-xs text-gray-500">
+            Select one property type to filter by its details
+          </p>
+        ) : customFieldDefinitions.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No extra details for this type
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {customFieldDefinitions.map((field) => {
+              const value = filters.customFields[field.key];
+
+              if (field.kind === "boolean") {
+                return (
+                  <button
+                    key={field.key}
+                    className={`flex items-center px-3 py-1.5 text-sm rounded-md border ${
+                      value === true
+                        ? "bg-blue-50 border-blue-300 text-blue-700"
+                        : "border-gray-300 hover:bg-gray-50"
+                    }`}
+                    onClick={() =>
+                      handleCustomFieldChange(
+                        field.key,
+                        value === true ? "" : true
+                      )
+                    }
+                  >
+                    <span className="flex-1 text-left">{field.label}</span>
+                    {value === true && <Check size={16} />}
+                  </button>
+                );
+              }
+
+              return (
+                <label key={field.key} className="block">
+                  <span className="block text-xs text-gray-600 mb-1">
+                    {field.kind === "number"
+                      ? `Min. ${field.label}${field.unit ? ` (${field.unit})` : ""}`
+                      : field.label}
+                  </span>
+                  {field.kind === "select" ? (
+                    <select
+                      value={value === undefined ? "" : String(value)}
+                      onChange={(e) =>
+                        handleCustomFieldChange(field.key, e.target.value)
+                      }
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                    >
+                      <option value="">Any</option>
+                      {field.options?.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={field.kind === "number" ? "number" : "text"}
+                      min={field.kind === "number" ? 0 : undefined}
+                      value={value === undefined ? "" : String(value)}
+                      onChange={(e) =>
+                        handleCustomFieldChange(
+                          field.key,
+                          field.kind === "number" && e.target.value !== ""
+                            ? Number(e.target.value)
+                            : e.target.value
+                        )
+                      }
+                      placeholder="Any"
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                    />
+                  )}
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* 3d. Plot Facing and Road Width */}
+      <div>
+        <h4 className="text-sm font-medium mb-2">Facing</h4>
+        <div className="grid grid-cols-2 gap-2">
+          {FACING_DIRECTIONS.map((facing) => (
+            <button
+              key={facing}
+              className={`flex items-center px-3 py-1.5 text-sm rounded-md border ${
+                filters.facings.includes(facing)
+                  ? "bg-blue-50 border-blue-300 text-blue-700"
+                  : "border-gray-300 hover:bg-gray-50"
+              }`}
+              onClick={() => handleFacingToggle(facing)}
+            >
+              <span className="flex-1 text-left">{facing}</span>
+              {filters.facings.includes(facing) && <Check size={16} />}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center justify-between mt-2 text-sm">
+          <span>Gali/road width</span>
+          <select
+            value={filters.minRoadWidth ?? ""}
+            onChange={(e) =>
+              updateFilters({
+                minRoadWidth: e.target.value
+                  ? Number(e.target.value)
+                  : undefined,
+              })
+            }
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">Any</option>
+            {ROAD_WIDTH_OPTIONS.map((width) => (
+              <option key={width} value={width}>
+                {width} ft or more
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
       {/* 4. Price Range - Multiple Selection */}
       <div>
         <h4 className="text-sm font-medium mb-2">
@@ -474,6 +742,22 @@ const FilterPanel: React.FC = () => {
             </button>
           ))}
         </div>
+        <button
+          className={`flex items-center w-full mt-2 px-3 py-1.5 text-sm rounded-md border ${
+            filters.recentlyReduced
+              ? "bg-blue-50 border-blue-300 text-blue-700"
+              : "border-gray-300 hover:bg-gray-50"
+          }`}
+          onClick={() =>
+            updateFilters({ recentlyReduced: !filters.recentlyReduced })
+          }
+        >
+          <TrendingDown size={16} className="mr-2" />
+          <span className="flex-1 text-left">
+            Reduced in last {PRICE_HISTORY_CONFIG.recentReductionDays} days
+          </span>
+          {filters.recentlyReduced && <Check size={16} />}
+        </button>
       </div>
 
       {/* 5. Size Range - Multiple Selection (Expanded by default) */}
@@ -487,21 +771,35 @@ const FilterPanel: React.FC = () => {
               </span>
             )}
           </h4>
-          <button
-            onClick={() => setShowSizeRange(!showSizeRange)}
-            className="text-blue-600 text-sm flex items-center"
-          >
-            {showSizeRange ? (
-              <ChevronUp size={16} />
-            ) : (
-              <ChevronDown size={16} />
-            )}
-          </button>
+          <div className="flex items-center space-x-2">
+            <select
+              value={sizeUnit}
+              onChange={(e) => setPickedSizeUnit(e.target.value as AreaUnit)}
+              className="border rounded px-1 py-0.5 text-xs"
+              title="Unit for size ranges"
+            >
+              {Object.entries(AREA_UNITS).map(([unit, { short }]) => (
+                <option key={unit} value={unit}>
+                  {short}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowSizeRange(!showSizeRange)}
+              className="text-blue-600 text-sm flex items-center"
+            >
+              {showSizeRange ? (
+                <ChevronUp size={16} />
+              ) : (
+                <ChevronDown size={16} />
+              )}
+            </button>
+          </div>
         </div>
 
         {showSizeRange && (
           <div className="grid grid-cols-2 gap-2">
-            {SIZE_RANGES.map((range, index) => (
+            {getSizeRanges(sizeUnit).map((range, index) => (
               <button
                 key={index}
                 className={`px-3 py-1.5 text-sm rounded-md border ${
@@ -511,8 +809,7 @@ const FilterPanel: React.FC = () => {
                 }`}
                 onClick={() => handleSizeRangeToggle(range)}
               >
-                {formatSquareYards(range[0])} - {formatSquareYards(range[1])}{" "}
-                sq.yd
+                {formatSizeRange(range, sizeUnit)}
               </button>
             ))}
           </div>
@@ -851,6 +1148,12 @@ const FilterPanel: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* 12. Added By */}
+      <CreatorFilterSelect
+        value={filters.createdBy}
+        onChange={(createdBy) => updateFilters({ createdBy })}
+      />
     </div>
   );
 };
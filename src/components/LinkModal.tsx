@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { X, Link as LinkIcon, ExternalLink, Loader2 } from 'lucide-react';
 import { Link } from '../types';
 import { useStore } from '../store/store';
+import { describeError } from '../utils/errors';
 import { LINK_TYPES, UI_TEXT } from '../constants';
 
 interface LinkModalProps {
@@ -90,6 +91,7 @@ const LinkModal: React.FC<LinkModalProps> = ({ propertyId, link, onClose }) => {
       onClose();
     } catch (error) {
       console.error('Failed to save link:', error);
+      alert(describeError(error, 'Failed to save link'));
     }
   };
 
@@ -9,6 +9,9 @@ import {
   Search,
   Loader2,
   Navigation,
+  PenLine,
+  Undo2,
+  Trash2,
 } from "lucide-react";
 import { Property } from "../types";
 import { useStore } from "../store/store";
@@ -22,6 +25,13 @@ import {
   ERROR_MESSAGES,
   DEFAULT_COORDINATES,
 } from "../constants";
+import {
+  BoundaryPoint,
+  getBoundaryPoints,
+  toBoundary,
+} from "../utils/boundary";
+import { getAreaUnit } from "../utils/areaUnits";
+import BoundarySizeCheck from "./BoundarySizeCheck";
 
 // Cache key for location search
 const LOCATION_SEARCH_KEY = "cached_location_search";
@@ -58,7 +68,7 @@ const LocationUpdateModal: React.FC<LocationUpdateModalProps> = ({
   property,
   onClose,
 }) => {
-  const { updateProperty, isMobileView } = useStore();
+  const { updateProperty, isMobileView, areaUnits } = useStore();
 
   // Backup coordinates for Karnal, Haryana
   const BACKUP_COORDINATES = {
@@ -89,6 +99,13 @@ const LocationUpdateModal: React.FC<LocationUpdateModalProps> = ({
     ensureValidLocation(property.location)
   );
   const [radius, setRadius] = useState(property.radius || 0);
+  // Boundary corners in drawing order. While drawing, map taps add corners
+  // instead of moving the location pin.
+  const [boundaryPoints, setBoundaryPoints] = useState<BoundaryPoint[]>(() =>
+    property.boundary ? getBoundaryPoints(property.boundary) : []
+  );
+  const [isDrawingBoundary, setIsDrawingBoundary] = useState(false);
+  const boundary = toBoundary(boundaryPoints);
 
   // Remember satellite view preference from localStorage
   const [isSatelliteView, setIsSatelliteView] = useState(() => {
@@ -665,31 +682,61 @@ const LocationUpdateModal: React.FC<LocationUpdateModalProps> = ({
     return () => clearTimeout(timer);
   }, [property.area, hasAutoSearched]);
 
-  const handleMapClick = useCallback((event: any) => {
-    // First check if event exists and has lngLat property
-    if (!event || !event.lngLat) {
-      console.warn("Invalid map click event - missing event or lngLat:", event);
-      return;
-    }
+  const handleMapClick = useCallback(
+    (event: any) => {
+      // First check if event exists and has lngLat property
+      if (!event || !event.lngLat) {
+        console.warn(
+          "Invalid map click event - missing event or lngLat:",
+          event
+        );
+        return;
+      }
 
-    // Then destructure and validate the coordinates
-    const { lat, lng } = event.lngLat;
+      // Then destructure and validate the coordinates
+      const { lat, lng } = event.lngLat;
 
-    if (
-      typeof lat !== "number" ||
-      typeof lng !== "number" ||
-      isNaN(lat) ||
-      isNaN(lng)
-    ) {
-      console.warn("Invalid map click coordinates:", { lat, lng });
-      return;
-    }
+      if (
+        typeof lat !== "number" ||
+        typeof lng !== "number" ||
+        isNaN(lat) ||
+        isNaN(lng)
+      ) {
+        console.warn("Invalid map click coordinates:", { lat, lng });
+        return;
+      }
 
-    setLocation({
-      latitude: lat,
-      longitude: lng,
-    });
-  }, []);
+      if (isDrawingBoundary) {
+        setBoundaryPoints((points) => [...points, [lng, lat]]);
+        return;
+      }
+
+      setLocation({
+        latitude: lat,
+        longitude: lng,
+      });
+    },
+    [isDrawingBoundary]
+  );
+
+  const moveBoundaryPoint = (index: number, lng: number, lat: number) => {
+    setBoundaryPoints((points) =>
+      points.map((point, i) => (i === index ? [lng, lat] : point))
+    );
+  };
+
+  const handleClearBoundary = () => {
+    if (!confirm("Remove the drawn boundary?")) return;
+    setBoundaryPoints([]);
+    setIsDrawingBoundary(false);
+  };
+
+  // Drawn outline: the closed polygon, or the path so far while drawing
+  const getBoundaryGeoJSON = () =>
+    boundary ?? {
+      type: "LineString" as const,
+      coordinates: boundaryPoints,
+    };
 
   const handleGPSLocation = () => {
     if ("geolocation" in navigator) {
@@ -783,6 +830,7 @@ const LocationUpdateModal: React.FC<LocationUpdateModalProps> = ({
         ...property,
         location: location,
         radius: radius,
+        boundary,
       };
 
       await updateProperty(updatedProperty);
@@ -1013,6 +1061,47 @@ const LocationUpdateModal: React.FC<LocationUpdateModalProps> = ({
                     </Source>
                   )}
 
+                  {/* Boundary */}
+                  {boundaryPoints.length > 1 && (
+                    <Source type="geojson" data={getBoundaryGeoJSON()}>
+                      {boundary && (
+                        <Layer
+                          id="boundary-fill"
+                          type="fill"
+                          paint={{
+                            "fill-color": "#f59e0b",
+                            "fill-opacity": 0.2,
+                          }}
+                        />
+                      )}
+                      <Layer
+                        id="boundary-line"
+                        type="line"
+                        paint={{
+                          "line-color": "#f59e0b",
+                          "line-width": 2,
+                        }}
+                      />
+                    </Source>
+                  )}
+
+                  {/* Boundary corners, draggable while drawing */}
+                  {isDrawingBoundary &&
+                    boundaryPoints.map(([lng, lat], index) => (
+                      <Marker
+                        key={index}
+                        longitude={lng}
+                        latitude={lat}
+                        anchor="center"
+                        draggable
+                        onDragEnd={(e) =>
+                          moveBoundaryPoint(index, e.lngLat.lng, e.lngLat.lat)
+                        }
+                      >
+                        <div className="w-3.5 h-3.5 bg-white border-2 border-amber-500 rounded-full shadow cursor-grab" />
+                      </Marker>
+                    ))}
+
                   {/* Property Marker */}
                   <Marker
                     longitude={location.longitude}
@@ -1101,6 +1190,77 @@ const LocationUpdateModal: React.FC<LocationUpdateModalProps> = ({
                 </div>
               </div>
 
+              {/* Boundary Control */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium">Boundary</label>
+                  <div className="flex items-center space-x-1">
+                    {isDrawingBoundary && boundaryPoints.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setBoundaryPoints((points) => points.slice(0, -1))
+                        }
+                        className="p-1.5 text-gray-600 hover:bg-gray-100 rounded"
+                        title="Remove last corner"
+                      >
+                        <Undo2 size={16} />
+                      </button>
+                    )}
+                    {boundaryPoints.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={handleClearBoundary}
+                        className="p-1.5 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded"
+                        title="Remove boundary"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setIsDrawingBoundary(!isDrawingBoundary)}
+                      className={`flex items-center px-2 py-1 text-sm rounded-md border ${
+                        isDrawingBoundary
+                          ? "bg-amber-50 border-amber-300 text-amber-800"
+                          : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                    >
+                      <PenLine size={14} className="mr-1" />
+                      {isDrawingBoundary
+                        ? "Done"
+                        : boundaryPoints.length > 0
+                          ? "Edit boundary"
+                          : "Draw boundary"}
+                    </button>
+                  </div>
+                </div>
+                {isDrawingBoundary ? (
+                  <p className="text-xs text-gray-500">
+                    Tap the map to add corners in order around the property.
+                    Drag a corner to move it.
+                  </p>
+                ) : (
+                  boundaryPoints.length === 0 && (
+                    <p className="text-xs text-gray-500">
+                      For colonies, farmland and other irregular extents. A
+                      drawn boundary is shown on the map instead of the radius.
+                    </p>
+                  )
+                )}
+                {isDrawingBoundary &&
+                  boundaryPoints.length > 0 &&
+                  !boundary && (
+                    <p className="text-xs text-amber-700">
+                      Add at least 3 corners to close the boundary
+                    </p>
+                  )}
+                <BoundarySizeCheck
+                  property={{ boundary, size_min: property.size_min }}
+                  unit={getAreaUnit(property.type, areaUnits)}
+                />
+              </div>
+
               {/* Location Info */}
               <div className="bg-gray-50 p-3 rounded-lg">
                 <div className="text-sm text-gray-600 mb-2">
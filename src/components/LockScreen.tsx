@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from "react";
+import { Check, Delete, Loader2, Lock } from "lucide-react";
+import { useStore } from "../store/store";
+import { AUTH_CONFIG } from "../constants";
+import { describeError, LoginLockedError } from "../utils/errors";
+import { formatLockoutWait, getLockedUntil } from "../utils/loginAttempts";
+
+// Anything that counts as the user still being around
+const ACTIVITY_EVENTS = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "wheel",
+  "touchstart",
+] as const;
+
+const LOCK_CHECK_INTERVAL_MS = 15 * 1000;
+
+const PAD_DIGITS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+// Locks the app after a period of inactivity. The app stays mounted behind a
+// blurred PIN pad, so the map, open panels and unsaved forms are kept.
+const LockScreen: React.FC = () => {
+  const {
+    isAuthenticated,
+    isLocked,
+    autoLockMinutes,
+    currentUser,
+    lock,
+    unlock,
+    logout,
+  } = useStore();
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(getLockedUntil);
+  const [, setTick] = useState(0);
+
+  // Count down a wrong-PIN lockout, re-rendering once a second until it ends
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const timer = setInterval(() => {
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+      } else {
+        setTick((tick) => tick + 1);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  // Watch for inactivity while the app is unlocked
+  useEffect(() => {
+    if (!isAuthenticated || isLocked || autoLockMinutes === 0) return;
+
+    const timeoutMs = autoLockMinutes * 60 * 1000;
+    let lastActivity = Date.now();
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+    const checkInactivity = () => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        lock();
+      }
+    };
+    // Timers are paused while a phone sleeps, so check as soon as it wakes
+    const handleVisibilityChange = () => {
+      if (!document.hidden) checkInactivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    const timer = setInterval(checkInactivity, LOCK_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      clearInterval(timer);
+    };
+  }, [isAuthenticated, isLocked, autoLockMinutes, lock]);
+
+  const addDigit = (digit: string) => {
+    setError("");
+    setPin((current) =>
+      current.length < AUTH_CONFIG.maxPinLength ? current + digit : current
+    );
+  };
+
+  const removeDigit = () => {
+    setError("");
+    setPin((current) => current.slice(0, -1));
+  };
+
+  const handleUnlock = async () => {
+    if (pin.length < AUTH_CONFIG.minPinLength || isChecking || lockedUntil) {
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      if (await unlock(pin)) {
+        setError("");
+      } else {
+        setError("Wrong PIN. Please try again.");
+      }
+    } catch (error) {
+      if (error instanceof LoginLockedError) {
+        setLockedUntil(error.retryAt);
+        setError("");
+      } else {
+        setError(describeError(error, "Could not check PIN"));
+      }
+    } finally {
+      setPin("");
+      setIsChecking(false);
+    }
+  };
+
+  // Typing on a keyboard works as well as the pad. Every key stops here so
+  // nothing reaches the inputs and shortcuts behind the lock.
+  useEffect(() => {
+    if (!isLocked) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopPropagation();
+      if (/^\d$/.test(event.key)) {
+        addDigit(event.key);
+      } else if (event.key === "Backspace") {
+        removeDigit();
+      } else if (event.key === "Enter") {
+        handleUnlock();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  });
+
+  if (!isAuthenticated || !isLocked) return null;
+
+  const handleSignOut = () => {
+    if (confirm("Sign out? Any unsaved changes will be lost.")) {
+      logout();
+    }
+  };
+
+  const padButtonBase =
+    "h-14 rounded-full text-xl font-medium disabled:opacity-50 flex items-center justify-center transition-colors";
+  const padButtonClassName = `${padButtonBase} text-gray-900 bg-gray-100 hover:bg-gray-200 active:bg-gray-300`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[250] bg-gray-900/60 backdrop-blur-xl flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="App locked"
+    >
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-xs p-6">
+        <div className="text-center mb-6">
+          <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-3">
+            <Lock size={24} className="text-blue-600" />
+          </div>
+          <p className="font-medium text-gray-900">
+            {currentUser?.name || currentUser?.username}
+          </p>
+          <p className="text-sm text-gray-500">Enter your PIN to unlock</p>
+        </div>
+
+        <div className="flex justify-center space-x-2 h-4 mb-2">
+          {Array.from(
+            { length: Math.max(pin.length, AUTH_CONFIG.minPinLength) },
+            (_, index) => (
+              <span
+                key={index}
+                className={`w-3 h-3 rounded-full ${
+                  index < pin.length ? "bg-blue-600" : "bg-gray-200"
+                }`}
+              />
+            )
+          )}
+        </div>
+
+        <p className="text-sm text-red-600 text-center h-5 mb-4">
+          {lockedUntil
+            ? `Too many attempts. ${formatLockoutWait(lockedUntil)}`
+            : error}
+        </p>
+
+        <div className="grid grid-cols-3 gap-3">
+          {PAD_DIGITS.map((digit) => (
+            <button
+              key={digit}
+              onClick={() => addDigit(digit)}
+              disabled={isChecking}
+              className={padButtonClassName}
+            >
+              {digit}
+            </button>
+          ))}
+          <button
+            onClick={removeDigit}
+            disabled={isChecking || pin.length === 0}
+            className={padButtonClassName}
+            aria-label="Delete digit"
+          >
+            <Delete size={20} />
+          </button>
+          <button
+            onClick={() => addDigit("0")}
+            disabled={isChecking}
+            className={padButtonClassName}
+          >
+            0
+          </button>
+          <button
+            onClick={handleUnlock}
+            disabled={
+              isChecking ||
+              !!lockedUntil ||
+              pin.length < AUTH_CONFIG.minPinLength
+            }
+            className={`${padButtonBase} text-white bg-blue-600 hover:bg-blue-700`}
+            aria-label="Unlock"
+          >
+            {isChecking ? (
+              <Loader2 size={20} className="animate-spin" />
+            ) : (
+              <Check size={20} />
+            )}
+          </button>
+        </div>
+
+        <button
+          onClick={handleSignOut}
+          disabled={isChecking}
+          className="w-full mt-6 text-sm text-gray-500 hover:text-gray-700"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
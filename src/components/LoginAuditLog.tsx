@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import { ArrowLeft, CheckCircle2, XCircle } from "lucide-react";
+import { useStore } from "../store/store";
+import { LoginAuditEntry } from "../types";
+
+interface LoginAuditLogProps {
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<NonNullable<LoginAuditEntry["reason"]>, string> = {
+  wrong_pin: "Wrong PIN",
+  locked_out: "Blocked - too many attempts",
+};
+
+// Admin view of the sign-in and unlock attempts made on this device
+const LoginAuditLog: React.FC<LoginAuditLogProps> = ({ onClose }) => {
+  const { getLoginAudit, clearLoginAudit } = useStore();
+  const [entries, setEntries] = useState(getLoginAudit);
+
+  const handleClear = () => {
+    if (!confirm("Clear the sign-in log on this device?")) return;
+    clearLoginAudit();
+    setEntries([]);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b flex items-center justify-between">
+        <button
+          onClick={onClose}
+          className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft size={16} />
+          <span className="font-medium">Sign-in log</span>
+        </button>
+        {entries.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-md"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto divide-y">
+        {entries.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">
+            No sign-in attempts recorded on this device
+          </p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="p-4 flex items-start space-x-3">
+              {entry.success ? (
+                <CheckCircle2
+                  size={16}
+                  className="text-green-500 mt-0.5 flex-shrink-0"
+                />
+              ) : (
+                <XCircle
+                  size={16}
+                  className="text-red-500 mt-0.5 flex-shrink-0"
+                />
+              )}
+              <div className="min-w-0">
+                <p className="text-sm">
+                  <span className="font-medium">@{entry.username}</span>{" "}
+                  <span className="text-gray-600">
+                    {entry.kind === "unlock" ? "unlock" : "sign-in"}
+                    {entry.reason && ` · ${REASON_LABELS[entry.reason]}`}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(entry.at).toLocaleString()}
+                </p>
+                <p className="text-xs text-gray-400 truncate">{entry.device}</p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginAuditLog;
@@ -1,19 +1,76 @@
 import React, { useState, useEffect } from 'react';
-import { Lock, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { Lock, Eye, EyeOff, Loader2, UserPlus } from 'lucide-react';
 import { useStore } from '../store/store';
+import { AUTH_CONFIG } from '../constants';
+import { describeError, LoginLockedError } from '../utils/errors';
+import { formatLockoutWait, getLockedUntil } from '../utils/loginAttempts';
 
 const LoginScreen: React.FC = () => {
-  const { login, isLoading } = useStore();
+  const {
+    login,
+    logout,
+    needsAccountSetup,
+    createFirstAdmin,
+    isSessionExpired,
+    currentUser,
+  } = useStore();
+  // After the server ends a session, only the same user can pick it back up
+  const [username, setUsername] = useState(
+    isSessionExpired ? currentUser?.username ?? '' : ''
+  );
+  const [name, setName] = useState('');
   const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
   const [showPin, setShowPin] = useState(false);
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // A fresh local backend has no accounts yet - the first one becomes admin
+  const [isSetup, setIsSetup] = useState(false);
+  // Too many wrong PINs on this device; survives reloads
+  const [lockedUntil, setLockedUntil] = useState<number | null>(getLockedUntil);
+  const [, setTick] = useState(0);
+
+  // Count down the lockout, re-rendering once a second until it ends
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const timer = setInterval(() => {
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+      } else {
+        setTick(tick => tick + 1);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  useEffect(() => {
+    if (isSessionExpired) return;
+    needsAccountSetup()
+      .then(setIsSetup)
+      .catch((error) => console.error('Failed to check account setup:', error));
+  }, [needsAccountSetup, isSessionExpired]);
+
+  const validateSetup = () => {
+    if (!name.trim()) return 'Please enter your name';
+    if (pin.length < AUTH_CONFIG.minPinLength) {
+      return `PIN must be at least ${AUTH_CONFIG.minPinLength} digits`;
+    }
+    if (pin !== confirmPin) return 'PINs do not match';
+    return '';
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!pin.trim()) {
-      setError('Please enter a PIN');
+
+    if (!username.trim() || !pin.trim()) {
+      setError('Please enter your username and PIN');
+      return;
+    }
+
+    const setupError = isSetup ? validateSetup() : '';
+    if (setupError) {
+      setError(setupError);
       return;
     }
 
@@ -21,53 +78,118 @@ const LoginScreen: React.FC = () => {
     setError('');
 
     try {
-      const success = await login(pin);
+      if (isSetup) {
+        await createFirstAdmin({ username: username.trim(), name: name.trim(), pin });
+        return;
+      }
+
+      const success = await login(username.trim(), pin);
       if (!success) {
-        setError('Invalid PIN. Please try again.');
+        setError('Invalid username or PIN. Please try again.');
         setPin(''); // Clear PIN on error
       }
     } catch (error) {
-      console.error('Login error:', error);
-      setError('Login failed. Please try again.');
+      if (error instanceof LoginLockedError) {
+        setLockedUntil(error.retryAt);
+        setError('');
+      } else {
+        console.error('Login error:', error);
+        setError(describeError(error, 'Login failed'));
+      }
       setPin('');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handlePinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Only allow numbers and limit to the configured PIN length
+  const handlePinChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    // Only allow numbers and limit to reasonable PIN length
-    if (/^\d*$/.test(value) && value.length <= 10) {
-      setPin(value);
+    if (/^\d*$/.test(value) && value.length <= AUTH_CONFIG.maxPinLength) {
+      setter(value);
       if (error) setError(''); // Clear error when user starts typing
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleSubmit(e as any);
+  const handleSwitchUser = () => {
+    if (confirm('Sign out? Any unsaved changes will be lost.')) {
+      logout();
     }
   };
 
+  const inputClassName = `w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-300 bg-red-50' : 'border-gray-300'
+  }`;
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+    <div
+      className={`min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4 ${
+        isSessionExpired ? 'fixed inset-0 z-[300] overflow-y-auto' : ''
+      }`}
+    >
       <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-8">
         {/* Header */}
         <div className="text-center mb-8">
           <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
-            <Lock size={32} className="text-blue-600" />
+            {isSetup ? (
+              <UserPlus size={32} className="text-blue-600" />
+            ) : (
+              <Lock size={32} className="text-blue-600" />
+            )}
           </div>
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
             My Properties
           </h1>
           <p className="text-gray-600">
-            Enter your PIN to access the system
+            {isSetup
+              ? 'Create the admin account for this device'
+              : isSessionExpired
+                ? 'Your session has ended. Enter your PIN to continue - unsaved changes are kept.'
+                : 'Sign in with your username and PIN'}
           </p>
         </div>
 
         {/* Login Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
+          {isSetup && (
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                Name
+              </label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClassName}
+                placeholder="Your name"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+              Username
+            </label>
+            <input
+              id="username"
+              type="text"
+              value={username}
+              onChange={(e) => {
+                setUsername(e.target.value);
+                if (error) setError('');
+              }}
+              className={inputClassName}
+              placeholder="Username"
+              disabled={isSubmitting}
+              readOnly={isSessionExpired}
+              autoComplete="username"
+              autoCapitalize="none"
+              autoFocus={!isSessionExpired}
+            />
+          </div>
+
           <div>
             <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-2">
               PIN
@@ -76,16 +198,14 @@ const LoginScreen: React.FC = () => {
               <input
                 id="pin"
                 type={showPin ? 'text' : 'password'}
+                inputMode="numeric"
                 value={pin}
-                onChange={handlePinChange}
-                onKeyPress={handleKeyPress}
-                className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-lg font-mono tracking-widest ${
-                  error ? 'border-red-300 bg-red-50' : 'border-gray-300'
-                }`}
+                onChange={handlePinChange(setPin)}
+                className={`${inputClassName} text-center text-lg font-mono tracking-widest`}
                 placeholder="Enter PIN"
                 disabled={isSubmitting}
-                autoComplete="off"
-                autoFocus
+                autoFocus={isSessionExpired}
+                autoComplete={isSetup ? 'new-password' : 'current-password'}
               />
               <button
                 type="button"
@@ -96,30 +216,67 @@ const LoginScreen: React.FC = () => {
                 {showPin ? <EyeOff size={20} /> : <Eye size={20} />}
               </button>
             </div>
-            {error && (
-              <p className="mt-2 text-sm text-red-600 flex items-center">
-                <span className="w-4 h-4 rounded-full bg-red-100 flex items-center justify-center mr-2">
-                  !
-                </span>
-                {error}
-              </p>
-            )}
           </div>
 
+          {isSetup && (
+            <div>
+              <label htmlFor="confirm-pin" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm PIN
+              </label>
+              <input
+                id="confirm-pin"
+                type={showPin ? 'text' : 'password'}
+                inputMode="numeric"
+                value={confirmPin}
+                onChange={handlePinChange(setConfirmPin)}
+                className={`${inputClassName} text-center text-lg font-mono tracking-widest`}
+                placeholder="Repeat PIN"
+                disabled={isSubmitting}
+                autoComplete="new-password"
+              />
+            </div>
+          )}
+
+          {lockedUntil && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              Too many failed attempts. {formatLockoutWait(lockedUntil)}.
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center">
+              <span className="w-4 h-4 rounded-full bg-red-100 flex items-center justify-center mr-2">
+                !
+              </span>
+              {error}
+            </p>
+          )}
+
           <button
             type="submit"
-            disabled={isSubmitting || !pin.trim()}
+            disabled={isSubmitting || !!lockedUntil || !username.trim() || !pin.trim()}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
           >
             {isSubmitting ? (
               <>
                 <Loader2 size={20} className="animate-spin" />
-                <span>Logging in...</span>
+                <span>{isSetup ? 'Creating account...' : 'Logging in...'}</span>
               </>
             ) : (
-              <span>Login</span>
+              <span>{isSetup ? 'Create Admin Account' : 'Login'}</span>
             )}
           </button>
+
+          {isSessionExpired && (
+            <button
+              type="button"
+              onClick={handleSwitchUser}
+              className="w-full text-sm text-gray-500 hover:text-gray-700"
+              disabled={isSubmitting}
+            >
+              Sign in as someone else
+            </button>
+          )}
         </form>
 
         {/* Footer */}
@@ -133,4 +290,4 @@ const LoginScreen: React.FC = () => {
   );
 };
 
-export default LoginScreen;
\ No newline at end of file
+export default LoginScreen;
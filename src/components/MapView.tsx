@@ -17,6 +17,10 @@ import {
   MAP_CONFIG,
 } from '../constants';
 import { formatCurrency, formatRatePerGaj } from '../utils/formatters';
+import { formatAreaRange, getAreaUnit } from '../utils/areaUnits';
+import { getPropertyStatus, isAvailable } from '../utils/propertyStatus';
+import StatusBadge from './StatusBadge';
+import CoverThumbnail from './CoverThumbnail';
 import circle from '@turf/circle';
 import { point } from '@turf/helpers';
 
@@ -65,6 +69,7 @@ const MapView: React.FC = () => {
     setIsLiveView,
     isPropertyDetailOpen,
     isPersonDetailOpen,
+    areaUnits,
   } = useStore();
 
   const [popupInfo, setPopupInfo] = useState<Property | null>(null);
@@ -453,8 +458,9 @@ const MapView: React.FC = () => {
     );
   };
 
-  // Get circle GeoJSON for radius visualization with enhanced visibility
-  const getCircleGeoJSON = (property: Property) => {
+  // Get the drawn boundary, or a circle for the radius, with enhanced visibility
+  const getExtentGeoJSON = (property: Property) => {
+    if (property.boundary) return property.boundary;
     if (!property.radius || property.radius === 0) return null;
 
     const center = point([
@@ -511,10 +517,10 @@ const MapView: React.FC = () => {
         minZoom={MAP_CONFIG.minZoom}
         maxZoom={MAP_CONFIG.maxZoom}
       >
-        {/* Render radius circles for properties with enhanced visibility */}
+        {/* Render boundaries and radius circles with enhanced visibility */}
         {validProperties.map((property) => {
-          const circleData = getCircleGeoJSON(property);
-          if (!circleData) return null;
+          const extentData = getExtentGeoJSON(property);
+          if (!extentData) return null;
 
           const isSelected = selectedProperty?.id === property.id;
           const baseColor = getMarkerColor(property);
@@ -523,7 +529,7 @@ const MapView: React.FC = () => {
             <Source
               key={`radius-${property.id}`}
               type="geojson"
-              data={circleData}
+              data={extentData}
             >
               <Layer
                 id={`radius-fill-${property.id}`}
@@ -540,7 +546,9 @@ const MapView: React.FC = () => {
                   'line-color': baseColor,
                   'line-width': isSelected ? 3 : 2,
                   'line-opacity': isSelected ? 0.8 : 0.6,
-                  'line-dasharray': isSelected ? [1, 0] : [2, 2],
+                  // Drawn boundaries are exact, so always solid
+                  'line-dasharray':
+                    isSelected || property.boundary ? [1, 0] : [2, 2],
                 }}
               />
             </Source>
@@ -552,6 +560,8 @@ const MapView: React.FC = () => {
           const IconComponent = getMarkerIcon(property);
           const markerSize = getMarkerSize();
           const isSelected = selectedProperty?.id === property.id;
+          // Sold, rented and other off-market listings fade into the background
+          const isInactive = !isAvailable(property);
 
           return (
             <Marker
@@ -575,7 +585,11 @@ const MapView: React.FC = () => {
                   width: markerSize,
                   height: markerSize,
                   borderWidth: '3px',
+                  borderStyle: isInactive ? 'dashed' : 'solid',
+                  opacity: isInactive && !isSelected ? 0.55 : 1,
+                  filter: isInactive ? 'grayscale(0.8)' : undefined,
                 }}
+                title={isInactive ? getPropertyStatus(property) : undefined}
               >
                 <IconComponent
                   size={markerSize * 0.55}
@@ -614,6 +628,12 @@ const MapView: React.FC = () => {
             maxWidth="320px"
           >
             <div className="p-1 bg-white">
+              {/* Cover photo */}
+              <CoverThumbnail
+                mediaId={popupInfo.cover_media_id}
+                className="w-full h-32 object-cover rounded mb-3"
+              />
+
               {/* Header */}
               <div className="flex items-start justify-between mb-3">
                 <div className="flex-1">
@@ -621,6 +641,9 @@ const MapView: React.FC = () => {
                     <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
                       {popupInfo.type || 'Property'}
                     </span>
+                    {!isAvailable(popupInfo) && (
+                      <StatusBadge property={popupInfo} />
+                    )}
                     {popupInfo.rating > 0 && renderRating(popupInfo.rating)}
                   </div>
                   <h3 className="font-semibold text-gray-900 text-sm leading-tight">
@@ -646,11 +669,11 @@ const MapView: React.FC = () => {
               <div className="mb-3">
                 <div className="text-sm text-gray-600">
                   <span className="font-medium">Size: </span>
-                  {popupInfo.size_min === popupInfo.size_max
-                    ? `${Math.round(popupInfo.size_min)} sq.yd`
-                    : `${Math.round(popupInfo.size_min)} - ${Math.round(
-                        popupInfo.size_max
-                      )} sq.yd`}
+                  {formatAreaRange(
+                    popupInfo.size_min,
+                    popupInfo.size_max,
+                    getAreaUnit(popupInfo.type, areaUnits)
+                  )}
                 </div>
               </div>
 
@@ -671,7 +694,8 @@ const MapView: React.FC = () => {
                     popupInfo.price_min,
                     popupInfo.price_max,
                     popupInfo.size_min,
-                    popupInfo.size_max
+                    popupInfo.size_max,
+                    getAreaUnit(popupInfo.type, areaUnits)
                   )}
                 </div>
               </div>
@@ -1,7 +1,24 @@
-import React from "react";
-import { Menu, Plus, Home, Users, X, Building2, LogOut } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+  Menu,
+  Plus,
+  Home,
+  Users,
+  X,
+  Building2,
+  LogOut,
+  CloudOff,
+  RefreshCw,
+  HardDrive,
+  Server,
+  Lock,
+} from "lucide-react";
 import { useStore } from "../store/store";
-import { authUtils } from "../utils/auth";
+import { BACKEND_MODES } from "../utils/backend";
+import { getQueuedCopy } from "../utils/outbox";
+import { describeError } from "../utils/errors";
+import { Property } from "../types";
+import PropertyMergeDialog from "./PropertyMergeDialog";
 
 const Navbar: React.FC = () => {
   const {
@@ -13,8 +30,81 @@ const Navbar: React.FC = () => {
     togglePersonForm,
     activeTab,
     setActiveTab,
+    isOnline,
+    isSyncing,
+    pendingMutations,
+    syncPendingMutations,
+    retryFailedMutations,
+    resolveSyncConflict,
+    backendMode,
+    switchBackend,
+    currentUser,
+    can,
+    lock,
   } = useStore();
 
+  const handleSwitchBackend = async () => {
+    const nextMode = backendMode === "rest" ? "local" : "rest";
+    if (
+      !confirm(
+        `Switch data source to "${BACKEND_MODES[nextMode]}"? The app will reload.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await switchBackend(nextMode);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Changes the server kept refusing are listed before trying them again
+  const failedMutations = pendingMutations.filter((m) => m.failed);
+
+  // Offline edits someone else overwrote meanwhile wait for a merge
+  const conflictedMutations = pendingMutations.filter((m) => m.conflict);
+  const [isMerging, setIsMerging] = useState(false);
+  const conflict = isMerging ? conflictedMutations[0] : undefined;
+
+  useEffect(() => {
+    if (conflictedMutations.length > 0) setIsMerging(true);
+  }, [conflictedMutations.length]);
+
+  const handleMergeResolve = async (merged: Property) => {
+    try {
+      await resolveSyncConflict(conflict!.id, merged);
+    } catch (error) {
+      alert(describeError(error, "Failed to save merged property"));
+    }
+  };
+
+  const handleSyncClick = () => {
+    if (conflictedMutations.length > 0) {
+      setIsMerging(true);
+      return;
+    }
+
+    if (failedMutations.length === 0) {
+      syncPendingMutations();
+      return;
+    }
+
+    const details = failedMutations
+      .map(
+        (m) => `- ${m.action} ${m.entity} ${m.recordId}: ${m.lastError ?? ""}`
+      )
+      .join("\n");
+    if (
+      confirm(
+        `${failedMutations.length} change(s) could not be synced:\n${details}\n\nTry them again?`
+      )
+    ) {
+      retryFailedMutations();
+    }
+  };
+
   const handleLogout = () => {
     if (confirm("Are you sure you want to logout?")) {
       logout();
@@ -61,23 +151,105 @@ const Navbar: React.FC = () => {
         </div>
 
         <div className="flex items-center space-x-2">
+          {/* Offline / pending sync indicator */}
+          {(!isOnline || pendingMutations.length > 0) && (
+            <button
+              onClick={handleSyncClick}
+              disabled={!isOnline || isSyncing}
+              className={`flex items-center space-x-1 px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                !isOnline
+                  ? "bg-gray-100 text-gray-600"
+                  : failedMutations.length > 0 || conflictedMutations.length > 0
+                    ? "bg-red-50 text-red-700 hover:bg-red-100"
+                    : "bg-amber-50 text-amber-700 hover:bg-amber-100"
+              }`}
+              title={
+                !isOnline
+                  ? "Offline - changes will sync when you reconnect"
+                  : conflictedMutations.length > 0
+                    ? "Some changes clash with newer edits - click to merge"
+                    : failedMutations.length > 0
+                      ? "Some changes could not be synced - click for details"
+                      : "Changes waiting to sync - click to sync now"
+              }
+            >
+              {isOnline ? (
+                <RefreshCw
+                  size={14}
+                  className={isSyncing ? "animate-spin" : ""}
+                />
+              ) : (
+                <CloudOff size={14} />
+              )}
+              <span>
+                {pendingMutations.length > 0
+                  ? `${pendingMutations.length} pending${
+                      failedMutations.length > 0
+                        ? `, ${failedMutations.length} failed`
+                        : ""
+                    }${
+                      conflictedMutations.length > 0
+                        ? `, ${conflictedMutations.length} to merge`
+                        : ""
+                    }`
+                  : "Offline"}
+              </span>
+            </button>
+          )}
+
+          {/* Data source - server or this device only */}
           <button
-            onClick={() =>
-              activeTab === "properties"
-                ? togglePropertyForm()
-                : togglePersonForm()
-            }
-            className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors"
+            onClick={handleSwitchBackend}
+            className={`flex items-center space-x-1 px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+              backendMode === "local"
+                ? "bg-purple-50 text-purple-700 hover:bg-purple-100"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+            title={`Data source: ${BACKEND_MODES[backendMode]} - click to switch`}
           >
-            <Plus size={18} />
-            <span className="hidden sm:inline">
-              Add {activeTab === "properties" ? "Property" : "Person"}
-            </span>
+            {backendMode === "local" ? (
+              <HardDrive size={14} />
+            ) : (
+              <Server size={14} />
+            )}
+            {backendMode === "local" && <span>Local</span>}
+          </button>
+
+          {can("create") && (
+            <button
+              onClick={() =>
+                activeTab === "properties"
+                  ? togglePropertyForm()
+                  : togglePersonForm()
+              }
+              className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors"
+            >
+              <Plus size={18} />
+              <span className="hidden sm:inline">
+                Add {activeTab === "properties" ? "Property" : "Person"}
+              </span>
+            </button>
+          )}
+
+          <button
+            onClick={lock}
+            className="p-2 rounded-md text-gray-600 hover:bg-gray-100 transition-colors"
+            title="Lock now"
+          >
+            <Lock size={16} />
           </button>
 
           {/* Session info and logout - only show on desktop */}
           {!isMobileView && (
             <div className="flex items-center space-x-2">
+              {currentUser && (
+                <span
+                  className="text-sm text-gray-600"
+                  title={`Signed in as @${currentUser.username}`}
+                >
+                  {currentUser.name || currentUser.username}
+                </span>
+              )}
               <button
                 onClick={handleLogout}
                 className="flex items-center space-x-1 px-2 py-1.5 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
@@ -89,6 +261,18 @@ const Navbar: React.FC = () => {
           )}
         </div>
       </div>
+
+      {conflict && (
+        <PropertyMergeDialog
+          key={conflict.id}
+          base={(conflict.base as Property | undefined) ?? conflict.conflict!}
+          theirs={conflict.conflict!}
+          mine={getQueuedCopy(pendingMutations, conflict.recordId)!}
+          onResolve={handleMergeResolve}
+          onCancel={() => setIsMerging(false)}
+          cancelLabel="Decide later"
+        />
+      )}
     </header>
   );
 };
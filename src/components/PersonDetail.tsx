@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useStore } from "../store/store";
+import { describeError } from "../utils/errors";
 import {
   X,
   MapPin,
@@ -24,8 +25,11 @@ import {
   Loader2,
 } from "lucide-react";
 import { formatCurrency } from "../utils/formatters";
+import { formatArea, getAreaUnit } from "../utils/areaUnits";
 import ConfirmationModal from "./ConfirmationModal";
-import { DEFAULT_COORDINATES } from "../constants";
+import RecordAttribution from "./RecordAttribution";
+import ChangeTimeline from "./ChangeTimeline";
+import { DEFAULT_COORDINATES, CONFIRMATION_MESSAGES } from "../constants";
 
 const PersonDetail: React.FC = () => {
   const {
@@ -47,6 +51,8 @@ const PersonDetail: React.FC = () => {
     loadPersonDetails,
     loadingStates,
     isPropertyDetailOpen,
+    can,
+    areaUnits,
   } = useStore();
 
   const [confirmDelete, setConfirmDelete] = useState<{
@@ -78,6 +84,9 @@ const PersonDetail: React.FC = () => {
 
   const personProperties = getPersonProperties(selectedPerson.id);
   const personConnections = getPersonConnections(selectedPerson.id);
+  const canEdit = can("edit");
+  const canDelete = can("delete");
+  const canViewPhones = can("viewPhones");
 
   // Get connection details for each property
   const getPropertyConnection = (propertyId: number) => {
@@ -106,9 +115,9 @@ const PersonDetail: React.FC = () => {
     const message = `*Contact Details*
 ---
 *Name:* ${selectedPerson.name}
-*Phone:* ${selectedPerson.phone}
+${canViewPhones ? `*Phone:* ${selectedPerson.phone}` : ""}
 ${
-  selectedPerson.alternative_contact_details
+  canViewPhones && selectedPerson.alternative_contact_details
     ? `*Alt Contact:* ${selectedPerson.alternative_contact_details}`
     : ""
 }
@@ -164,6 +173,7 @@ Contact for more details.`;
       }
     } catch (error) {
       console.error("Failed to delete:", error);
+      alert(describeError(error, "Failed to delete"));
     }
 
     setConfirmDelete(null);
@@ -236,14 +246,16 @@ Contact for more details.`;
 
           {/* Action Buttons Row */}
           <div className="flex items-center space-x-2">
-            <button
-              onClick={() => togglePersonForm(selectedPerson)}
-              className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
-              title="Edit person"
-            >
-              <Edit size={16} />
-              <span className="hidden sm:inline">Edit</span>
-            </button>
+            {canEdit && (
+              <button
+                onClick={() => togglePersonForm(selectedPerson)}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
+                title="Edit person"
+              >
+                <Edit size={16} />
+                <span className="hidden sm:inline">Edit</span>
+              </button>
+            )}
             <button
               onClick={sharePersonDetails}
               className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
@@ -269,91 +281,93 @@ Contact for more details.`;
         <div className="flex-1 overflow-y-auto">
           <div className="p-4 space-y-6">
             {/* Contact Information Card */}
-            <div className="bg-gradient-to-br from-green-50 to-emerald-50 p-4 rounded-xl border border-green-100">
-              <h4 className="text-sm font-medium mb-3 flex items-center text-gray-900">
-                <Phone size={14} className="mr-2 text-green-600" />
-                Contact Information
-              </h4>
-
-              {/* Primary Phone */}
-              {selectedPerson.phone && (
-                <div className="flex items-center justify-between bg-white p-3 rounded-lg border mb-3">
-                  <span className="text-sm font-mono text-gray-900">
-                    {selectedPerson.phone}
-                  </span>
-                  <div className="flex items-center space-x-1">
-                    <button
-                      onClick={() => copyToClipboard(selectedPerson.phone)}
-                      className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
-                      title="Copy number"
-                    >
-                      <Copy size={14} />
-                    </button>
-                    <button
-                      onClick={() => openWhatsApp(selectedPerson.phone)}
-                      className="p-2 text-green-500 hover:text-green-700 hover:bg-green-50 rounded-md transition-colors"
-                      title="WhatsApp"
-                    >
-                      <MessageCircle size={14} />
-                    </button>
-                    <button
-                      onClick={() => makeCall(selectedPerson.phone)}
-                      className="p-2 text-blue-500 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
-                      title="Call"
-                    >
-                      <Phone size={14} />
-                    </button>
-                  </div>
-                </div>
-              )}
+            {canViewPhones && (
+              <div className="bg-gradient-to-br from-green-50 to-emerald-50 p-4 rounded-xl border border-green-100">
+                <h4 className="text-sm font-medium mb-3 flex items-center text-gray-900">
+                  <Phone size={14} className="mr-2 text-green-600" />
+                  Contact Information
+                </h4>
 
-              {/* Alternative Contact */}
-              {selectedPerson.alternative_contact_details && (
-                <div className="flex items-center justify-between bg-white p-3 rounded-lg border">
-                  <div>
-                    <span className="text-xs text-gray-500 uppercase tracking-wide">
-                      Alternative:{" "}
-                    </span>
+                {/* Primary Phone */}
+                {selectedPerson.phone && (
+                  <div className="flex items-center justify-between bg-white p-3 rounded-lg border mb-3">
                     <span className="text-sm font-mono text-gray-900">
-                      {selectedPerson.alternative_contact_details}
+                      {selectedPerson.phone}
                     </span>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => copyToClipboard(selectedPerson.phone)}
+                        className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+                        title="Copy number"
+                      >
+                        <Copy size={14} />
+                      </button>
+                      <button
+                        onClick={() => openWhatsApp(selectedPerson.phone)}
+                        className="p-2 text-green-500 hover:text-green-700 hover:bg-green-50 rounded-md transition-colors"
+                        title="WhatsApp"
+                      >
+                        <MessageCircle size={14} />
+                      </button>
+                      <button
+                        onClick={() => makeCall(selectedPerson.phone)}
+                        className="p-2 text-blue-500 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                        title="Call"
+                      >
+                        <Phone size={14} />
+                      </button>
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-1">
-                    <button
-                      onClick={() =>
-                        copyToClipboard(
-                          selectedPerson.alternative_contact_details!
-                        )
-                      }
-                      className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
-                      title="Copy number"
-                    >
-                      <Copy size={14} />
-                    </button>
-                    <button
-                      onClick={() =>
-                        openWhatsApp(
-                          selectedPerson.alternative_contact_details!
-                        )
-                      }
-                      className="p-2 text-green-500 hover:text-green-700 hover:bg-green-50 rounded-md transition-colors"
-                      title="WhatsApp"
-                    >
-                      <MessageCircle size={14} />
-                    </button>
-                    <button
-                      onClick={() =>
-                        makeCall(selectedPerson.alternative_contact_details!)
-                      }
-                      className="p-2 text-blue-500 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
-                      title="Call"
-                    >
-                      <Phone size={14} />
-                    </button>
+                )}
+
+                {/* Alternative Contact */}
+                {selectedPerson.alternative_contact_details && (
+                  <div className="flex items-center justify-between bg-white p-3 rounded-lg border">
+                    <div>
+                      <span className="text-xs text-gray-500 uppercase tracking-wide">
+                        Alternative:{" "}
+                      </span>
+                      <span className="text-sm font-mono text-gray-900">
+                        {selectedPerson.alternative_contact_details}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() =>
+                          copyToClipboard(
+                            selectedPerson.alternative_contact_details!
+                          )
+                        }
+                        className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+                        title="Copy number"
+                      >
+                        <Copy size={14} />
+                      </button>
+                      <button
+                        onClick={() =>
+                          openWhatsApp(
+                            selectedPerson.alternative_contact_details!
+                          )
+                        }
+                        className="p-2 text-green-500 hover:text-green-700 hover:bg-green-50 rounded-md transition-colors"
+                        title="WhatsApp"
+                      >
+                        <MessageCircle size={14} />
+                      </button>
+                      <button
+                        onClick={() =>
+                          makeCall(selectedPerson.alternative_contact_details!)
+                        }
+                        className="p-2 text-blue-500 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                        title="Call"
+                      >
+                        <Phone size={14} />
+                      </button>
+                    </div>
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
+            )}
 
             {/* About Card */}
             {selectedPerson.about && (
@@ -434,7 +448,10 @@ Contact for more details.`;
                               </div>
                             )}
                             <div className="text-xs text-gray-500 mt-1">
-                              {Math.round(property.size_min)} sq.yd
+                              {formatArea(
+                                property.size_min,
+                                getAreaUnit(property.type, areaUnits)
+                              )}
                             </div>
                           </div>
                         </div>
@@ -463,19 +480,21 @@ Contact for more details.`;
                               </span>
                             )}
                           </div>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleRemovePropertyFromPerson(
-                                property.id,
-                                property.area || "this property"
-                              );
-                            }}
-                            className="text-red-500 hover:text-red-700 p-1 rounded-md hover:bg-red-50 transition-colors"
-                            title="Remove connection"
-                          >
-                            <Trash2 size={14} />
-                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRemovePropertyFromPerson(
+                                  property.id,
+                                  property.area || "this property"
+                                );
+                              }}
+                              className="text-red-500 hover:text-red-700 p-1 rounded-md hover:bg-red-50 transition-colors"
+                              title="Remove connection"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          )}
                         </div>
                       </div>
                     );
@@ -524,14 +543,20 @@ Contact for more details.`;
               </div>
             </div>
 
+            <RecordAttribution record={selectedPerson} />
+
+            <ChangeTimeline entity="person" recordId={selectedPerson.id} />
+
             {/* Delete Person Button */}
-            <button
-              onClick={handleDeletePerson}
-              className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors font-medium shadow-sm"
-            >
-              <Trash2 size={18} />
-              <span>Delete Person</span>
-            </button>
+            {canDelete && (
+              <button
+                onClick={handleDeletePerson}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors font-medium shadow-sm"
+              >
+                <Trash2 size={18} />
+                <span>Delete Person</span>
+              </button>
+            )}
 
             {/* Bottom padding for mobile */}
             <div className="pb-20"></div>
@@ -549,7 +574,7 @@ Contact for more details.`;
         message={
           confirmDelete?.type === "connection"
             ? `Are you sure you want to remove the connection to "${confirmDelete.name}"? This action cannot be undone.`
-            : `Are you sure you want to delete "${confirmDelete?.name}"? This will permanently remove the person and all their property connections. This action cannot be undone.`
+            : CONFIRMATION_MESSAGES.deletePerson(confirmDelete?.name || "")
         }
         confirmText={
           confirmDelete?.type === "connection"
@@ -2,6 +2,7 @@ import React from 'react';
 import { useStore } from '../store/store';
 import { Check } from 'lucide-react';
 import { PERSON_ROLES, UI_TEXT } from '../constants';
+import CreatorFilterSelect from './CreatorFilterSelect';
 
 const PersonFilterPanel: React.FC = () => {
   const { personFilters, updatePersonFilters, resetPersonFilters } = useStore();
@@ -92,6 +93,12 @@ const PersonFilterPanel: React.FC = () => {
           </button>
         </div>
       </div>
+
+      {/* Added By Filter */}
+      <CreatorFilterSelect
+        value={personFilters.createdBy}
+        onChange={(createdBy) => updatePersonFilters({ createdBy })}
+      />
     </div>
   );
 };
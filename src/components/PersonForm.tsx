@@ -2,6 +2,7 @@ import React, { useState, useCallback, useEffect, useRef } from "react";
 import { Person } from "../types";
 import { X, Loader2, Phone, User } from "lucide-react";
 import { useStore } from "../store/store";
+import { describeError } from "../utils/errors";
 import { PERSON_ROLES, UI_TEXT } from "../constants";
 import { handlePhonePaste } from "../utils/phoneUtils";
 
@@ -64,6 +65,7 @@ const PersonForm: React.FC<PersonFormProps> = ({ person, onClose }) => {
       onClose();
     } catch (error) {
       console.error("Failed to save person:", error);
+      alert(describeError(error, "Failed to save person"));
     }
   };
 
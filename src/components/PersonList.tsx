@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useStore } from "../store/store";
+import { describeError } from "../utils/errors";
 import {
   User,
   Phone,
@@ -13,9 +14,10 @@ import {
   ExternalLink,
   AlertCircle,
   RefreshCw,
+  CloudOff,
 } from "lucide-react";
 import ConfirmationModal from "./ConfirmationModal";
-import { ITEMS_PER_PAGE } from "../constants";
+import { ITEMS_PER_PAGE, CONFIRMATION_MESSAGES } from "../constants";
 
 const PersonList: React.FC = () => {
   const {
@@ -31,6 +33,8 @@ const PersonList: React.FC = () => {
     persons,
     error,
     applyPersonFilters,
+    isPendingSync,
+    can,
   } = useStore();
 
   const [currentPage, setCurrentPage] = useState(1);
@@ -90,6 +94,7 @@ const PersonList: React.FC = () => {
       await deletePerson(confirmDelete.id);
     } catch (error) {
       console.error("Failed to delete person:", error);
+      alert(describeError(error, "Failed to delete person"));
     }
 
     setConfirmDelete(null);
@@ -196,13 +201,22 @@ const PersonList: React.FC = () => {
                       <div className="flex items-center space-x-2 mb-1">
                         <User size={16} className="text-gray-500" />
                         <h3 className="font-medium">{person.name}</h3>
+                        {isPendingSync("person", person.id) && (
+                          <span
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-amber-100 text-amber-700"
+                            title="Waiting to sync with server"
+                          >
+                            <CloudOff size={10} className="mr-1" />
+                            Pending sync
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-gray-600 mb-1">
                         {person.role} {person.about && ` - ${person.about}`}
                       </div>
 
                       {/* Phone number with actions */}
-                      {person.phone && (
+                      {can("viewPhones") && person.phone && (
                         <div className="flex items-center justify-between bg-gray-50 p-2 rounded border mt-2">
                           <span className="text-sm font-mono">
                             {person.phone}
@@ -243,52 +257,55 @@ const PersonList: React.FC = () => {
                       )}
 
                       {/* Alternative contact if available */}
-                      {person.alternative_contact_details && (
-                        <div className="flex items-center justify-between bg-gray-50 p-2 rounded border mt-1">
-                          <div>
-                            <span className="text-xs text-gray-500">Alt: </span>
-                            <span className="text-sm font-mono">
-                              {person.alternative_contact_details}
-                            </span>
+                      {can("viewPhones") &&
+                        person.alternative_contact_details && (
+                          <div className="flex items-center justify-between bg-gray-50 p-2 rounded border mt-1">
+                            <div>
+                              <span className="text-xs text-gray-500">
+                                Alt:{" "}
+                              </span>
+                              <span className="text-sm font-mono">
+                                {person.alternative_contact_details}
+                              </span>
+                            </div>
+                            <div className="flex items-center space-x-1">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  copyToClipboard(
+                                    person.alternative_contact_details
+                                  );
+                                }}
+                                className="p-1 text-gray-500 hover:text-gray-700"
+                                title="Copy number"
+                              >
+                                <Copy size={14} />
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openWhatsApp(
+                                    person.alternative_contact_details
+                                  );
+                                }}
+                                className="p-1 text-green-500 hover:text-green-700"
+                                title="WhatsApp"
+                              >
+                                <MessageCircle size={14} />
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  makeCall(person.alternative_contact_details);
+                                }}
+                                className="p-1 text-blue-500 hover:text-blue-700"
+                                title="Call"
+                              >
+                                <Phone size={14} />
+                              </button>
+                            </div>
                           </div>
-                          <div className="flex items-center space-x-1">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                copyToClipboard(
-                                  person.alternative_contact_details
-                                );
-                              }}
-                              className="p-1 text-gray-500 hover:text-gray-700"
-                              title="Copy number"
-                            >
-                              <Copy size={14} />
-                            </button>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                openWhatsApp(
-                                  person.alternative_contact_details
-                                );
-                              }}
-                              className="p-1 text-green-500 hover:text-green-700"
-                              title="WhatsApp"
-                            >
-                              <MessageCircle size={14} />
-                            </button>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                makeCall(person.alternative_contact_details);
-                              }}
-                              className="p-1 text-blue-500 hover:text-blue-700"
-                              title="Call"
-                            >
-                              <Phone size={14} />
-                            </button>
-                          </div>
-                        </div>
-                      )}
+                        )}
                     </div>
 
                     <div className="flex items-center space-x-2 ml-2">
@@ -303,16 +320,18 @@ const PersonList: React.FC = () => {
                         <ExternalLink size={12} />
                         <span>Details</span>
                       </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          togglePersonForm(person);
-                        }}
-                        className="text-gray-600 hover:text-gray-800"
-                        title="Edit person"
-                      >
-                        <Edit size={16} />
-                      </button>
+                      {can("edit") && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            togglePersonForm(person);
+                          }}
+                          className="text-gray-600 hover:text-gray-800"
+                          title="Edit person"
+                        >
+                          <Edit size={16} />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -359,7 +378,7 @@ const PersonList: React.FC = () => {
       <ConfirmationModal
         isOpen={!!confirmDelete}
         title="Delete Person"
-        message={`Are you sure you want to delete "${confirmDelete?.name}"? This will permanently remove the person and all their property connections. This action cannot be undone.`}
+        message={CONFIRMATION_MESSAGES.deletePerson(confirmDelete?.name || "")}
         confirmText="Delete Person"
         onConfirm={confirmDeleteAction}
         onCancel={() => setConfirmDelete(null)}
@@ -0,0 +1,164 @@
+import React from "react";
+import { Ruler } from "lucide-react";
+import { Property } from "../types";
+import { describePlot, isIrregular } from "../utils/plot";
+
+interface PlotDiagramProps {
+  property: Property;
+}
+
+// Longest side of the drawn plot and width of the road strips, in SVG units
+const PLOT_SIZE = 160;
+const ROAD_WIDTH = 18;
+const MARGIN = 4;
+
+// Sketch of the plot with the road along its front, and down its left side
+// for corner plots. Irregular plots are drawn from their four sides, so the
+// shape is only a guide.
+const PlotDiagram: React.FC<PlotDiagramProps> = ({ property }) => {
+  const { dimensions, facing, road_width, corner } = property;
+  if (!dimensions && !facing && !road_width && !corner) return null;
+
+  return (
+    <div className="bg-white border rounded-xl p-4">
+      <h4 className="text-sm font-medium mb-3 flex items-center text-gray-900">
+        <Ruler size={14} className="mr-2 text-gray-600" />
+        Plot
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {describePlot(property)}
+        </span>
+      </h4>
+
+      {dimensions && (
+        <PlotShape
+          front={dimensions.breadth}
+          left={dimensions.length}
+          back={dimensions.back_breadth ?? dimensions.breadth}
+          right={dimensions.right_length ?? dimensions.length}
+          irregular={isIrregular(dimensions)}
+          roadLabel={road_width ? `${road_width} ft road` : "Road"}
+          corner={corner ?? false}
+        />
+      )}
+    </div>
+  );
+};
+
+interface PlotShapeProps {
+  front: number;
+  left: number;
+  back: number;
+  right: number;
+  irregular: boolean;
+  roadLabel: string;
+  corner: boolean;
+}
+
+const PlotShape: React.FC<PlotShapeProps> = ({
+  front,
+  left,
+  back,
+  right,
+  irregular,
+  roadLabel,
+  corner,
+}) => {
+  const scale = PLOT_SIZE / Math.max(front, back, left, right);
+  const plotWidth = Math.max(front, back) * scale;
+  const plotHeight = Math.max(left, right) * scale;
+  const originX = MARGIN + (corner ? ROAD_WIDTH : 0);
+  const bottom = MARGIN + plotHeight;
+  const width = originX + plotWidth + MARGIN;
+  const height = bottom + ROAD_WIDTH + MARGIN;
+
+  // Front left, front right, back right, back left
+  const corners = [
+    [originX, bottom],
+    [originX + front * scale, bottom],
+    [originX + back * scale, bottom - right * scale],
+    [originX, bottom - left * scale],
+  ];
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full max-h-56"
+      role="img"
+      aria-label="Plot diagram"
+    >
+      {/* Road along the front */}
+      <rect
+        x={corner ? MARGIN : originX}
+        y={bottom}
+        width={plotWidth + (corner ? ROAD_WIDTH : 0)}
+        height={ROAD_WIDTH}
+        fill="#e5e7eb"
+      />
+      <text
+        x={originX + plotWidth / 2}
+        y={bottom + ROAD_WIDTH / 2}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        fontSize={9}
+        fill="#4b5563"
+      >
+        {roadLabel}
+      </text>
+
+      {/* Second road for corner plots */}
+      {corner && (
+        <rect
+          x={MARGIN}
+          y={MARGIN}
+          width={ROAD_WIDTH}
+          height={plotHeight}
+          fill="#e5e7eb"
+        />
+      )}
+
+      <polygon
+        points={corners.map(([x, y]) => `${x},${y}`).join(" ")}
+        fill="#eff6ff"
+        stroke="#2563eb"
+        strokeWidth={1.5}
+      />
+
+      {/* Side lengths */}
+      <g fontSize={9} fill="#1f2937" textAnchor="middle">
+        <text x={originX + (front * scale) / 2} y={bottom - 4}>
+          {front} ft
+        </text>
+        <text
+          x={originX + 10}
+          y={bottom - (left * scale) / 2}
+          dominantBaseline="middle"
+          transform={`rotate(-90 ${originX + 10} ${bottom - (left * scale) / 2})`}
+        >
+          {left} ft
+        </text>
+        {irregular && (
+          <>
+            <text
+              x={originX + (back * scale) / 2}
+              y={bottom - ((left + right) * scale) / 2 + 10}
+            >
+              {back} ft
+            </text>
+            <text
+              x={originX + ((front + back) * scale) / 2 - 10}
+              y={bottom - (right * scale) / 2}
+              dominantBaseline="middle"
+              transform={`rotate(90 ${originX + ((front + back) * scale) / 2 - 10} ${
+                bottom - (right * scale) / 2
+              })`}
+            >
+              {right} ft
+            </text>
+          </>
+        )}
+      </g>
+    </svg>
+  );
+};
+
+export default PlotDiagram;
@@ -0,0 +1,113 @@
+import React from "react";
+import { LineChart } from "lucide-react";
+import { PriceChange } from "../types";
+import { UI_TEXT } from "../constants";
+import { useStore } from "../store/store";
+import { describeUser } from "../utils/attribution";
+import { formatCurrency } from "../utils/formatters";
+
+interface PriceHistoryChartProps {
+  history: PriceChange[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PADDING = 6;
+
+const formatStepDate = (at: string) =>
+  new Date(at).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatStepPrice = (step: PriceChange) =>
+  step.price_min === step.price_max
+    ? formatCurrency(step.price_min)
+    : `${formatCurrency(step.price_min)} - ${formatCurrency(step.price_max)}`;
+
+// Asking price over time as a step line, with each change listed below it
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ history }) => {
+  const { userNames, currentUser } = useStore();
+  if (history.length === 0) return null;
+
+  const times = history.map((step) => Date.parse(step.at));
+  const prices = history.map((step) => step.price_min);
+  const firstTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - firstTime || 1;
+  const lowest = Math.min(...prices);
+  const priceSpan = Math.max(...prices) - lowest || 1;
+
+  const x = (time: number) =>
+    PADDING + ((time - firstTime) / timeSpan) * (WIDTH - 2 * PADDING);
+  const y = (price: number) =>
+    HEIGHT - PADDING - ((price - lowest) / priceSpan) * (HEIGHT - 2 * PADDING);
+
+  // Each price holds until the next change, then runs on to the right edge
+  const points = history.flatMap((step, index) => {
+    const next = index + 1 < history.length ? times[index + 1] : undefined;
+    const start = `${x(times[index])},${y(step.price_min)}`;
+    const end = `${next === undefined ? WIDTH - PADDING : x(next)},${y(
+      step.price_min
+    )}`;
+    return [start, end];
+  });
+
+  // Newest first
+  const steps = [...history].reverse();
+
+  return (
+    <div className="bg-white border rounded-xl p-4">
+      <h4 className="text-sm font-medium mb-3 flex items-center text-gray-900">
+        <LineChart size={14} className="mr-2 text-gray-600" />
+        {UI_TEXT.labels.priceHistory}
+      </h4>
+
+      {history.length > 1 && (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-20 mb-3"
+          preserveAspectRatio="none"
+        >
+          <polyline
+            points={points.join(" ")}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+          {history.map((step, index) => (
+            <circle
+              key={`${step.at}-${index}`}
+              cx={x(times[index])}
+              cy={y(step.price_min)}
+              r={3}
+              fill="#2563eb"
+            />
+          ))}
+        </svg>
+      )}
+
+      <ol className="space-y-1">
+        {steps.map((step, index) => (
+          <li
+            key={`${step.at}-${index}`}
+            className="flex items-center justify-between text-sm"
+          >
+            <span className="font-medium text-gray-900">
+              {formatStepPrice(step)}
+            </span>
+            <span className="text-xs text-gray-500 text-right">
+              {formatStepDate(step.at)}
+              {step.source && ` · ${step.source}`}
+              {step.by !== undefined &&
+                ` · ${describeUser(step.by, userNames, currentUser)}`}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
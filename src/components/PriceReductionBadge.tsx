@@ -0,0 +1,31 @@
+import React from "react";
+import { TrendingDown } from "lucide-react";
+import { Property } from "../types";
+import { formatCurrency } from "../utils/formatters";
+import { getPriceReduction } from "../utils/priceHistory";
+
+interface PriceReductionBadgeProps {
+  property: Pick<Property, "price_history">;
+  className?: string;
+}
+
+// "Reduced by X Lakh" when the latest price change was a cut
+const PriceReductionBadge: React.FC<PriceReductionBadgeProps> = ({
+  property,
+  className = "",
+}) => {
+  const reduction = getPriceReduction(property);
+  if (!reduction) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap bg-green-100 text-green-800 ${className}`}
+      title={`Since ${new Date(reduction.at).toLocaleDateString("en-IN")}`}
+    >
+      <TrendingDown size={12} className="mr-1" />
+      Reduced by {formatCurrency(reduction.amount)}
+    </span>
+  );
+};
+
+export default PriceReductionBadge;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useStore } from "../store/store";
+import { describeError } from "../utils/errors";
 import {
   X,
   MapPin,
@@ -23,16 +24,33 @@ import {
   Share2,
   Loader2,
   Check,
-  Calendar,
   Clock,
 } from "lucide-react";
 import { formatCurrency, formatRatePerGaj } from "../utils/formatters";
+import { getPropertyStatus } from "../utils/propertyStatus";
+import { AreaUnit } from "../types";
 import SelectPersonModal from "./SelectPersonModal";
 import ConfirmationModal from "./ConfirmationModal";
 import LocationUpdateModal from "./LocationUpdateModal";
 import TagManagementModal from "./TagManagementModal";
 import LinkModal from "./LinkModal";
-import { DEFAULT_COORDINATES } from "../constants";
+import RecordAttribution from "./RecordAttribution";
+import ChangeTimeline from "./ChangeTimeline";
+import PropertyStatusCard from "./PropertyStatusCard";
+import PriceReductionBadge from "./PriceReductionBadge";
+import PriceHistoryChart from "./PriceHistoryChart";
+import PropertyMediaGallery from "./PropertyMediaGallery";
+import DocumentChecklist from "./DocumentChecklist";
+import PlotDiagram from "./PlotDiagram";
+import BoundarySizeCheck from "./BoundarySizeCheck";
+import {
+  DEFAULT_COORDINATES,
+  CONFIRMATION_MESSAGES,
+  AREA_UNITS,
+} from "../constants";
+import { formatAreaRange, getAreaUnit } from "../utils/areaUnits";
+import { describeCustomFields } from "../utils/customFields";
+import { describePlot } from "../utils/plot";
 
 const PropertyDetail: React.FC = () => {
   const {
@@ -55,6 +73,9 @@ const PropertyDetail: React.FC = () => {
     setSelectedPerson,
     togglePersonDetail,
     isPersonDetailOpen,
+    can,
+    areaUnits,
+    setAreaUnit,
   } = useStore();
 
   const [showSelectPerson, setShowSelectPerson] = useState(false);
@@ -98,8 +119,15 @@ const PropertyDetail: React.FC = () => {
 
   if (!selectedProperty || !isPropertyDetailOpen) return null;
 
+  // Actions the signed-in user's role allows
+  const canCreate = can("create");
+  const canEdit = can("edit");
+  const canDelete = can("delete");
+  const canViewPhones = can("viewPhones");
+
   const persons = getPropertyPersons(selectedProperty.id);
   const links = getPropertyLinks(selectedProperty.id);
+  const areaUnit = getAreaUnit(selectedProperty.type, areaUnits);
 
   // Get connection details for each person
   const getPersonConnection = (personId: number) => {
@@ -157,12 +185,11 @@ const PropertyDetail: React.FC = () => {
 
   // Generate property details text
   const generatePropertyDetailsText = (includeLocation = false) => {
-    const sizeText =
-      selectedProperty.size_min === selectedProperty.size_max
-        ? `${Math.round(selectedProperty.size_min)} sq.yd`
-        : `${Math.round(selectedProperty.size_min)} - ${Math.round(
-            selectedProperty.size_max
-          )} sq.yd`;
+    const sizeText = formatAreaRange(
+      selectedProperty.size_min,
+      selectedProperty.size_max,
+      areaUnit
+    );
 
     const priceText =
       selectedProperty.price_min === selectedProperty.price_max
@@ -171,15 +198,25 @@ const PropertyDetail: React.FC = () => {
             selectedProperty.price_max
           )}`;
 
+    // Plot and type-specific details, one line each
+    const plot = describePlot(selectedProperty);
+    const detailLines = [
+      ...(plot ? [{ label: "Plot", value: plot }] : []),
+      ...describeCustomFields(selectedProperty),
+    ]
+      .map(({ label, value }) => `\n*${label}:* ${value}`)
+      .join("");
+
     let message = `*Property Details*
 ---
 ${selectedProperty.id}. ${selectedProperty.type || "Property"} in ${
       selectedProperty.area || "Unknown Area"
     }
 
+*Status:* ${getPropertyStatus(selectedProperty)}
 *Size:* ${sizeText}
 *Demand:* ₹${priceText}
-*Zone:* ${selectedProperty.zone || "Not specified"}
+*Zone:* ${selectedProperty.zone || "Not specified"}${detailLines}
 *Description:* ${selectedProperty.description || "No description available"}`;
 
     if (includeLocation && hasValidLocation()) {
@@ -216,12 +253,11 @@ Contact for more details.`;
     const { latitude, longitude } = selectedProperty.location;
     const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`;
 
-    const sizeText =
-      selectedProperty.size_min === selectedProperty.size_max
-        ? `${Math.round(selectedProperty.size_min)} sq.yd`
-        : `${Math.round(selectedProperty.size_min)} - ${Math.round(
-            selectedProperty.size_max
-          )} sq.yd`;
+    const sizeText = formatAreaRange(
+      selectedProperty.size_min,
+      selectedProperty.size_max,
+      areaUnit
+    );
 
     const radiusText =
       selectedProperty.radius && selectedProperty.radius > 0
@@ -320,6 +356,7 @@ Location is accurate up to *${radiusText}*
       }
     } catch (error) {
       console.error("Failed to delete:", error);
+      alert(describeError(error, "Failed to delete"));
     }
 
     setConfirmDelete(null);
@@ -394,24 +431,6 @@ Location is accurate up to *${radiusText}*
     togglePersonDetail(true);
   };
 
-  // Format date for display
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return "Not available";
-    
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-IN', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      });
-    } catch (error) {
-      return "Invalid date";
-    }
-  };
-
   return (
     <>
       <div
@@ -456,23 +475,27 @@ Location is accurate up to *${radiusText}*
                 <Navigation size={16} />
               </button>
             )}
-            <button
-              onClick={() => setShowLocationModal(true)}
-              className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
-              title="Update location"
-            >
-              <MapPin size={16} />
-              <span className="hidden sm:inline">{formatLocationText()}</span>
-            </button>
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => setShowLocationModal(true)}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
+                  title="Update location"
+                >
+                  <MapPin size={16} />
+                  <span className="hidden sm:inline">{formatLocationText()}</span>
+                </button>
 
-            <button
-              onClick={() => togglePropertyForm(selectedProperty)}
-              className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
-              title="Edit property"
-            >
-              <Edit size={16} />
-              <span className="hidden sm:inline"></span>
-            </button>
+                <button
+                  onClick={() => togglePropertyForm(selectedProperty)}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg transition-colors text-sm"
+                  title="Edit property"
+                >
+                  <Edit size={16} />
+                  <span className="hidden sm:inline"></span>
+                </button>
+              </>
+            )}
           </div>
         </div>
 
@@ -489,20 +512,46 @@ Location is accurate up to *${radiusText}*
         {/* Scrollable Content Area */}
         <div className="flex-1 overflow-y-auto">
           <div className="p-4 space-y-6">
+            <PropertyStatusCard property={selectedProperty} />
+
             {/* Price and Basic Info Card */}
             <div className="bg-gradient-to-br from-blue-50 to-indigo-50 p-4 rounded-xl border border-blue-100">
               <div className="flex items-start justify-between mb-3 gap-4">
                 <div className="flex-1 bg-white p-3 rounded-lg border">
-                  <div className="text-xs text-gray-500 uppercase tracking-wide">
-                    Size
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">
+                      Size
+                    </div>
+                    <select
+                      value={areaUnit}
+                      onChange={(e) =>
+                        setAreaUnit(
+                          selectedProperty.type || "Other",
+                          e.target.value as AreaUnit
+                        )
+                      }
+                      className="text-xs text-gray-500 bg-transparent"
+                      title={`Unit for ${selectedProperty.type || "Other"} sizes`}
+                    >
+                      {Object.entries(AREA_UNITS).map(([unit, { short }]) => (
+                        <option key={unit} value={unit}>
+                          {short}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                   <div className="font-semibold text-gray-900">
-                    {selectedProperty.size_min === selectedProperty.size_max
-                      ? `${Math.round(selectedProperty.size_min)} sq.yd`
-                      : `${Math.round(
-                          selectedProperty.size_min
-                        )} - ${Math.round(selectedProperty.size_max)} sq.yd`}
+                    {formatAreaRange(
+                      selectedProperty.size_min,
+                      selectedProperty.size_max,
+                      areaUnit
+                    )}
                   </div>
+                  <BoundarySizeCheck
+                    property={selectedProperty}
+                    unit={areaUnit}
+                    className="mt-1"
+                  />
                 </div>
                 <div className="flex-1 bg-white p-3 rounded-lg border">
                   <div className="text-xs text-gray-500 uppercase tracking-wide">
@@ -515,6 +564,10 @@ Location is accurate up to *${radiusText}*
                           selectedProperty.price_min
                         )} to ${formatCurrency(selectedProperty.price_max)}`}
                   </div>
+                  <PriceReductionBadge
+                    property={selectedProperty}
+                    className="mt-1"
+                  />
                 </div>
               </div>
 
@@ -542,8 +595,30 @@ Location is accurate up to *${radiusText}*
                     </div>
                   </div>
                 )}
+                {describeCustomFields(selectedProperty).map(
+                  ({ label, value }) => (
+                    <div key={label} className="bg-white p-3 rounded-lg border">
+                      <div className="text-xs text-gray-500 uppercase tracking-wide">
+                        {label}
+                      </div>
+                      <div className="font-semibold text-gray-900 text-sm">
+                        {value}
+                      </div>
+                    </div>
+                  )
+                )}
               </div>
             </div>
+
+            <PlotDiagram property={selectedProperty} />
+
+            <PriceHistoryChart
+              history={selectedProperty.price_history ?? []}
+            />
+
+            <PropertyMediaGallery property={selectedProperty} />
+
+            <DocumentChecklist property={selectedProperty} />
           
           
             {/* Description Card */}
@@ -562,7 +637,8 @@ Location is accurate up to *${radiusText}*
                     selectedProperty.price_min,
                     selectedProperty.price_max,
                     selectedProperty.size_min,
-                    selectedProperty.size_max
+                    selectedProperty.size_max,
+                    areaUnit
                   )}
                 </div>
               </div>
@@ -580,48 +656,33 @@ Location is accurate up to *${radiusText}*
                       {tag}
                     </span>
                   ))}
-                  <button
-                    onClick={() => setShowTagModal(true)}
-                    className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-gray-50 text-gray-600 border border-gray-200 gap-2"
-                  >
-                    <Settings size={14} />
-                    <span>Edit Tags</span>
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => setShowTagModal(true)}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-gray-50 text-gray-600 border border-gray-200 gap-2"
+                    >
+                      <Settings size={14} />
+                      <span>Edit Tags</span>
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div className="flex items-center justify-between flex-wrap gap-2 py-1 text-gray-500">
                   <p className="text-sm">No tags added yet</p>
-                  <button
-                    onClick={() => setShowTagModal(true)}
-                    className="inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium bg-gray-100 text-gray-700 border border-gray-300 hover:bg-gray-200 transition gap-2"
-                  >
-                    <Settings size={14} />
-                    <span>Add Tags</span>
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => setShowTagModal(true)}
+                      className="inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium bg-gray-100 text-gray-700 border border-gray-300 hover:bg-gray-200 transition gap-2"
+                    >
+                      <Settings size={14} />
+                      <span>Add Tags</span>
+                    </button>
+                  )}
                 </div>
               )}
             </div>
-  <div className="flex flex-col gap-2">
-          
-<div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <Calendar size={16} className="text-green-600" />
-                 
-                  <span className="text-sm text-gray-600">
-                    {formatDate(selectedProperty.created_on)}
-                  </span>
-                     </div>
-                </div>
-            <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <Edit size={16} className="text-blue-600" />
-                    <span className="text-sm text-gray-600">
-                    {formatDate(selectedProperty.updated_on)}
-                  </span>
-                  </div>
-                  
-                </div>
-              </div>
+            <RecordAttribution record={selectedProperty} />
+            <ChangeTimeline entity="property" recordId={selectedProperty.id} />
             {/* Notes Card */}
             {selectedProperty.note && (
               <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
@@ -642,13 +703,15 @@ Location is accurate up to *${radiusText}*
                     {links.length}
                   </span>
                 </h4>
-                <button
-                  onClick={() => setShowLinkModal(true)}
-                  className="flex items-center space-x-1 px-3 py-1.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors text-sm"
-                >
-                  <Plus size={14} />
-                  <span>Add Link</span>
-                </button>
+                {canCreate && (
+                  <button
+                    onClick={() => setShowLinkModal(true)}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors text-sm"
+                  >
+                    <Plus size={14} />
+                    <span>Add Link</span>
+                  </button>
+                )}
               </div>
 
               {links.length > 0 ? (
@@ -682,28 +745,32 @@ Location is accurate up to *${radiusText}*
                           )}
                         </div>
                         <div className="flex items-center space-x-1 ml-2">
-                          <button
-                            onClick={() => {
-                              setEditingLink(link);
-                              setShowLinkModal(true);
-                            }}
-                            className="text-gray-500 hover:text-gray-700 p-1 rounded-md hover:bg-gray-200 transition-colors"
-                            title="Edit link"
-                          >
-                            <Edit size={14} />
-                          </button>
-                          <button
-                            onClick={() =>
-                              handleDeleteLink(
-                                link.id,
-                                link.anchor || link.link
-                              )
-                            }
-                            className="text-red-500 hover:text-red-700 p-1 rounded-md hover:bg-red-100 transition-colors"
-                            title="Delete link"
-                          >
-                            <Trash2 size={14} />
-                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => {
+                                setEditingLink(link);
+                                setShowLinkModal(true);
+                              }}
+                              className="text-gray-500 hover:text-gray-700 p-1 rounded-md hover:bg-gray-200 transition-colors"
+                              title="Edit link"
+                            >
+                              <Edit size={14} />
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={() =>
+                                handleDeleteLink(
+                                  link.id,
+                                  link.anchor || link.link
+                                )
+                              }
+                              className="text-red-500 hover:text-red-700 p-1 rounded-md hover:bg-red-100 transition-colors"
+                              title="Delete link"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -724,13 +791,15 @@ Location is accurate up to *${radiusText}*
                     {persons.length}
                   </span>
                 </h4>
-                <button
-                  onClick={() => setShowSelectPerson(true)}
-                  className="flex items-center space-x-1 px-3 py-1.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors text-sm"
-                >
-                  <Plus size={14} />
-                  <span>Add</span>
-                </button>
+                {canCreate && (
+                  <button
+                    onClick={() => setShowSelectPerson(true)}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-lg transition-colors text-sm"
+                  >
+                    <Plus size={14} />
+                    <span>Add</span>
+                  </button>
+                )}
               </div>
 
               {persons.length > 0 ? (
@@ -766,19 +835,21 @@ Location is accurate up to *${radiusText}*
                               )}
                             </div>
                           </div>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleRemovePersonFromProperty(
-                                person.id,
-                                person.name
-                              );
-                            }}
-                            className="text-red-500 hover:text-red-700 p-1 rounded-md hover:bg-red-50 transition-colors"
-                            title="Remove person from property"
-                          >
-                            <Trash2 size={16} />
-                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRemovePersonFromProperty(
+                                  person.id,
+                                  person.name
+                                );
+                              }}
+                              className="text-red-500 hover:text-red-700 p-1 rounded-md hover:bg-red-50 transition-colors"
+                              title="Remove person from property"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          )}
                         </div>
 
                         {/* Connection Remark */}
@@ -806,7 +877,7 @@ Location is accurate up to *${radiusText}*
                         )}
 
                         {/* Phone number with actions */}
-                        {person.phone && (
+                        {canViewPhones && person.phone && (
                           <div className="flex items-center justify-between bg-white p-3 rounded-lg border mb-2">
                             <span className="text-sm font-mono text-gray-900">
                               {person.phone}
@@ -847,7 +918,7 @@ Location is accurate up to *${radiusText}*
                         )}
 
                         {/* Alternative contact if available */}
-                        {person.alternative_contact_details && (
+                        {canViewPhones && person.alternative_contact_details && (
                           <div className="flex items-center justify-between bg-white p-3 rounded-lg border mb-2">
                             <div>
                               <span className="text-xs text-gray-500 uppercase tracking-wide">
@@ -999,13 +1070,15 @@ Location is accurate up to *${radiusText}*
               )}
             </div>
 
-            <button
-              onClick={handleDeleteProperty}
-              className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors font-medium shadow-sm"
-            >
-              <Trash2 size={18} />
-              <span>Delete Property</span>
-            </button>
+            {canDelete && (
+              <button
+                onClick={handleDeleteProperty}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors font-medium shadow-sm"
+              >
+                <Trash2 size={18} />
+                <span>Delete Property</span>
+              </button>
+            )}
 
             {/* Bottom padding for mobile */}
             <div className="pb-20"></div>
@@ -1061,7 +1134,7 @@ Location is accurate up to *${radiusText}*
           confirmDelete?.type === "connection"
             ? `Are you sure you want to remove ${confirmDelete.name} from this property? This action cannot be undone.`
             : confirmDelete?.type === "property"
-            ? `Are you sure you want to delete "${confirmDelete?.name}"? This will permanently remove the property and all its connections. This action cannot be undone.`
+            ? CONFIRMATION_MESSAGES.deleteProperty(confirmDelete?.name || "")
             : `Are you sure you want to delete the link "${confirmDelete?.name}"? This action cannot be undone.`
         }
         confirmText={
@@ -1,25 +1,49 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Property } from '../types';
+import {
+  Property,
+  PropertyStatus,
+  PriceSource,
+  AreaUnit,
+  CustomFieldValue,
+  PlotDimensions,
+} from '../types';
 import { X, ChevronDown, ChevronUp, Loader2, MapPin } from 'lucide-react';
 import { useStore } from '../store/store';
+import { ConflictError, describeError } from '../utils/errors';
+import PropertyMergeDialog from './PropertyMergeDialog';
 import {
   PROPERTY_TYPES,
+  PROPERTY_STATUSES,
+  PRICE_SOURCES,
+  FACING_DIRECTIONS,
   PROPERTY_ZONES,
   DEFAULT_COORDINATES,
   UI_TEXT,
   RATING_OPTIONS,
+  AREA_UNITS,
 } from '../constants';
+import {
+  formatArea,
+  fromSquareYards,
+  getAreaUnit,
+  roundArea,
+  toSquareYards,
+} from '../utils/areaUnits';
+import { getCustomFields, pickCustomFields } from '../utils/customFields';
+import { getPlotArea, isIrregular, parseDimensions } from '../utils/plot';
 
 interface PropertyFormProps {
   property?: Property;
   onClose: () => void;
 }
 
+type SizeField = 'size_min' | 'size_max';
+
 const LOCAL_STORAGE_KEY = 'propertyFormData';
 const EXPIRATION_TIME = 30 * 60 * 1000; // 30 minutes
 
 const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
-  const { createProperty, updateProperty, loadingStates, properties, isMobileView } = useStore();
+  const { createProperty, updateProperty, loadingStates, properties, isMobileView, areaUnits } = useStore();
 
   // Helper function to ensure valid location
   const ensureValidLocation = (location: any) => {
@@ -76,6 +100,7 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
       area: '',
       zone: '',
       type: 'Plot Residential',
+      status: 'Available',
       description: '',
       note: '',
     };
@@ -90,15 +115,96 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
     size: false,
   });
 
+  // Sizes are typed in any unit and saved in square yards. Until another unit
+  // is picked, the form follows the display unit for the chosen type.
+  const [pickedSizeUnit, setSizeUnit] = useState<AreaUnit | null>(null);
+  const sizeUnit = pickedSizeUnit ?? getAreaUnit(formData.type, areaUnits);
+  // Sizes as typed, so entries like "0." or "1.25" aren't rounded away while
+  // typing. They are converted to square yards on blur or submit.
+  const [sizeText, setSizeText] = useState<Partial<Record<SizeField, string>>>(
+    {}
+  );
+
+  const sizeValue = (key: SizeField) => {
+    const size = formData[key];
+    return (
+      sizeText[key] ??
+      (size ? roundArea(fromSquareYards(size, sizeUnit)) : '')
+    );
+  };
+
+  const sizeInSquareYards = (key: SizeField) => {
+    const text = sizeText[key];
+    return text === undefined
+      ? formData[key] || 0
+      : toSquareYards(Number(text) || 0, sizeUnit);
+  };
+
+  const commitSize = (key: SizeField) => {
+    if (sizeText[key] === undefined) return;
+    setFormData({ ...formData, [key]: sizeInSquareYards(key) });
+    setSizeText((prev) => ({ ...prev, [key]: undefined }));
+  };
+
   // Area suggestions state
   const [areaSuggestions, setAreaSuggestions] = useState<string[]>([]);
   const [showAreaSuggestions, setShowAreaSuggestions] = useState(false);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
+  // Set when someone else saved this property while it was being edited
+  const [conflict, setConflict] = useState<{
+    base: Property;
+    theirs: Property;
+    mine: Property;
+  } | null>(null);
   const areaInputRef = useRef<HTMLInputElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
 
   const isLoading = loadingStates.creating || loadingStates.updating;
 
+  // Plot sides as typed; they become `dimensions` once front and depth are in
+  const [plotSides, setPlotSides] = useState<Partial<PlotDimensions>>(
+    () => formData.dimensions ?? {}
+  );
+  const [isIrregularPlot, setIsIrregularPlot] = useState(() =>
+    formData.dimensions ? isIrregular(formData.dimensions) : false
+  );
+
+  // Complete dimensions work out the size, replacing whatever was typed there
+  const updatePlotSides = (sides: Partial<PlotDimensions>) => {
+    setPlotSides(sides);
+    const dimensions = parseDimensions(sides);
+    if (dimensions) setSizeText((prev) => ({ ...prev, size_min: undefined }));
+    setFormData({
+      ...formData,
+      dimensions,
+      ...(dimensions && { size_min: roundArea(getPlotArea(dimensions)) }),
+    });
+  };
+
+  const plotSideInput = (key: keyof PlotDimensions, placeholder: string) => (
+    <input
+      type="number"
+      value={plotSides[key] ?? ''}
+      onChange={(e) =>
+        updatePlotSides({
+          ...plotSides,
+          [key]: e.target.value ? Number(e.target.value) : undefined,
+        })
+      }
+      min="0"
+      step="any"
+      className="w-full border rounded-md p-2"
+      placeholder={placeholder}
+      disabled={isLoading}
+    />
+  );
+
+  const setCustomField = (key: string, value: CustomFieldValue) =>
+    setFormData({
+      ...formData,
+      custom_fields: { ...formData.custom_fields, [key]: value },
+    });
+
   // Save form data to localStorage on change, only for new properties
   useEffect(() => {
     if (!property) {
@@ -224,14 +330,15 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
     const priceMin = formData.price_min || 0;
     const priceMax = showRanges.price ? formData.price_max || 0 : priceMin;
 
-    const sizeMin = formData.size_min || 0;
-    const sizeMax = showRanges.size ? formData.size_max || 0 : sizeMin;
+    const sizeMin = sizeInSquareYards('size_min');
+    const sizeMax = showRanges.size ? sizeInSquareYards('size_max') : sizeMin;
 
     // Ensure location is always valid before saving
     const validLocation = ensureValidLocation(formData.location);
 
     const propertyData = {
       ...formData,
+      custom_fields: pickCustomFields(formData.type, formData.custom_fields),
       price_min: priceMin,
       price_max: priceMax,
       size_min: sizeMin,
@@ -241,21 +348,47 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
       rating: formData.rating || 0, // Default to 0 if not set
     } as Property;
 
+    if (property) {
+      await saveChanges(propertyData, property);
+      return;
+    }
+
     try {
-      if (property) {
-        await updateProperty(propertyData);
-      } else {
-        const { id, created_on, updated_on, ...newPropertyData } = propertyData;
-        await createProperty(newPropertyData);
-      }
+      const { id, created_on, updated_on, ...newPropertyData } = propertyData;
+      await createProperty(newPropertyData);
       // Clear saved data on successful submission
       localStorage.removeItem(LOCAL_STORAGE_KEY);
       onClose();
     } catch (error) {
       console.error('Failed to save property:', error);
+      alert(describeError(error, 'Failed to add property'));
     }
   };
 
+  // Save an edit; if someone else saved in the meantime, open the merge dialog
+  const saveChanges = async (propertyData: Property, base: Property) => {
+    try {
+      await updateProperty(propertyData);
+      // Clear saved data on successful submission
+      localStorage.removeItem(LOCAL_STORAGE_KEY);
+      onClose();
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setConflict({ base, theirs: error.current as Property, mine: propertyData });
+        return;
+      }
+      console.error('Failed to save property:', error);
+    }
+  };
+
+  const handleMergeResolve = (merged: Property) => {
+    const theirs = conflict!.theirs;
+    setConflict(null);
+    setFormData(merged);
+    // A further conflict is merged against the copy we just resolved with
+    saveChanges(merged, theirs);
+  };
+
   const handleClose = () => {
     // Clear saved data on manual close
     localStorage.removeItem(LOCAL_STORAGE_KEY);
@@ -350,6 +483,30 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
             </select>
           </div>
 
+          {/* Listing Status */}
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              {UI_TEXT.labels.status}
+            </label>
+            <select
+              value={formData.status || 'Available'}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  status: e.target.value as PropertyStatus,
+                })
+              }
+              className="w-full border rounded-md p-2"
+              disabled={isLoading}
+            >
+              {PROPERTY_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Area/Address with Dynamic Suggestions */}
           <div className="relative">
             <label className="block text-sm font-medium mb-1">
@@ -423,8 +580,20 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
           {/* Size */}
           <div>
             <div className="flex items-center justify-between mb-1">
-              <label className="block text-sm font-medium">
-                {UI_TEXT.labels.size} (in Sq. Yards)
+              <label className="flex items-center text-sm font-medium">
+                {UI_TEXT.labels.size} in
+                <select
+                  value={sizeUnit}
+                  onChange={(e) => setSizeUnit(e.target.value as AreaUnit)}
+                  className="ml-1 border rounded px-1 py-0.5 text-sm font-normal"
+                  disabled={isLoading}
+                >
+                  {Object.entries(AREA_UNITS).map(([unit, { label }]) => (
+                    <option key={unit} value={unit}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
               </label>
               <button
                 type="button"
@@ -454,13 +623,12 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
             >
               <input
                 type="number"
-                value={formData.size_min ? formData.size_min : ''}
+                value={sizeValue('size_min')}
                 onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    size_min: Number(e.target.value),
-                  })
+                  setSizeText((prev) => ({ ...prev, size_min: e.target.value }))
                 }
+                onBlur={() => commitSize('size_min')}
+                step="any"
                 className="w-full border rounded-md p-2"
                 placeholder={showRanges.size ? 'Min Size' : 'Size'}
                 required
@@ -469,13 +637,12 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
               {showRanges.size && (
                 <input
                   type="number"
-                  value={formData.size_max ? formData.size_max : ''}
+                  value={sizeValue('size_max')}
                   onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      size_max: Number(e.target.value),
-                    })
+                    setSizeText((prev) => ({ ...prev, size_max: e.target.value }))
                   }
+                  onBlur={() => commitSize('size_max')}
+                  step="any"
                   className="w-full border rounded-md p-2"
                   placeholder="Max Size"
                   required
@@ -485,6 +652,104 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
             </div>
           </div>
 
+          {/* Plot dimensions */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium">
+                Dimensions (ft)
+              </label>
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={isIrregularPlot}
+                  onChange={(e) => {
+                    setIsIrregularPlot(e.target.checked);
+                    if (!e.target.checked) {
+                      updatePlotSides({
+                        length: plotSides.length,
+                        breadth: plotSides.breadth,
+                      });
+                    }
+                  }}
+                  className="mr-1"
+                  disabled={isLoading}
+                />
+                Irregular
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {plotSideInput('breadth', 'Front (breadth)')}
+              {plotSideInput(
+                'length',
+                isIrregularPlot ? 'Left side' : 'Depth (length)'
+              )}
+              {isIrregularPlot && plotSideInput('back_breadth', 'Back')}
+              {isIrregularPlot && plotSideInput('right_length', 'Right side')}
+            </div>
+            {formData.dimensions && (
+              <p className="text-xs text-gray-500 mt-1">
+                Size worked out as{' '}
+                {formatArea(getPlotArea(formData.dimensions), sizeUnit)}
+              </p>
+            )}
+          </div>
+
+          {/* Facing, road width and corner */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Facing</label>
+              <select
+                value={formData.facing || ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    facing: (e.target.value || undefined) as Property['facing'],
+                  })
+                }
+                className="w-full border rounded-md p-2"
+                disabled={isLoading}
+              >
+                <option value="">Not specified</option>
+                {FACING_DIRECTIONS.map((facing) => (
+                  <option key={facing} value={facing}>
+                    {facing}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Gali/Road Width (ft)
+              </label>
+              <input
+                type="number"
+                value={formData.road_width || ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    road_width: Number(e.target.value) || undefined,
+                  })
+                }
+                min="0"
+                step="any"
+                className="w-full border rounded-md p-2"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={formData.corner || false}
+              onChange={(e) =>
+                setFormData({ ...formData, corner: e.target.checked })
+              }
+              className="mr-2"
+              disabled={isLoading}
+            />
+            Corner plot (roads on two sides)
+          </label>
+
           {/* Price */}
           <div>
             <div className="flex items-center justify-between mb-1">
@@ -550,6 +815,106 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
             </div>
           </div>
 
+          {/* Price Source */}
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              {UI_TEXT.labels.priceSource}
+            </label>
+            <select
+              value={formData.price_source || ''}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  price_source: (e.target.value || undefined) as
+                    | PriceSource
+                    | undefined,
+                })
+              }
+              className="w-full border rounded-md p-2"
+              disabled={isLoading}
+            >
+              <option value="">Not specified</option>
+              {PRICE_SOURCES.map((source) => (
+                <option key={source} value={source}>
+                  {source}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Type-specific details */}
+          {getCustomFields(formData.type).length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                {formData.type} Details
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {getCustomFields(formData.type).map((field) => {
+                  const value = formData.custom_fields?.[field.key];
+                  return (
+                    <div key={field.key}>
+                      <label className="block text-xs text-gray-600 mb-1">
+                        {field.label}
+                        {field.unit && ` (${field.unit})`}
+                      </label>
+                      {field.kind === 'select' || field.kind === 'boolean' ? (
+                        <select
+                          value={
+                            typeof value === 'boolean'
+                              ? value
+                                ? 'yes'
+                                : 'no'
+                              : String(value ?? '')
+                          }
+                          onChange={(e) =>
+                            setCustomField(
+                              field.key,
+                              field.kind === 'boolean' && e.target.value
+                                ? e.target.value === 'yes'
+                                : e.target.value
+                            )
+                          }
+                          className="w-full border rounded-md p-2 text-sm"
+                          disabled={isLoading}
+                        >
+                          <option value="">Not specified</option>
+                          {field.kind === 'boolean' ? (
+                            <>
+                              <option value="yes">Yes</option>
+                              <option value="no">No</option>
+                            </>
+                          ) : (
+                            field.options?.map((option) => (
+                              <option key={option} value={option}>
+                                {option}
+                              </option>
+                            ))
+                          )}
+                        </select>
+                      ) : (
+                        <input
+                          type={field.kind === 'number' ? 'number' : 'text'}
+                          value={String(value ?? '')}
+                          onChange={(e) =>
+                            setCustomField(
+                              field.key,
+                              field.kind === 'number' && e.target.value
+                                ? Number(e.target.value)
+                                : e.target.value
+                            )
+                          }
+                          className="w-full border rounded-md p-2 text-sm"
+                          step="any"
+                          disabled={isLoading}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Rating */}
           <div>
             <label className="block text-sm font-medium mb-2">
@@ -616,6 +981,16 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onClose }) => {
           </div>
         </form>
       </div>
+
+      {conflict && (
+        <PropertyMergeDialog
+          base={conflict.base}
+          theirs={conflict.theirs}
+          mine={conflict.mine}
+          onResolve={handleMergeResolve}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
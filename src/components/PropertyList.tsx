@@ -15,13 +15,20 @@ import {
   Loader2,
   AlertCircle,
   RefreshCw,
+  CloudOff,
 } from 'lucide-react';
 import { formatCurrency } from '../utils/formatters';
 import { formatRatePerGaj } from '../utils/formatters';
+import { isAvailable } from '../utils/propertyStatus';
+import { formatArea, getAreaUnit } from '../utils/areaUnits';
 import ConfirmationModal from './ConfirmationModal';
 import LocationUpdateModal from './LocationUpdateModal';
 import HiddenLogoutButton from './HiddenLogoutButton';
-import { DEFAULT_COORDINATES, ITEMS_PER_PAGE } from '../constants';
+import StatusBadge from './StatusBadge';
+import PriceReductionBadge from './PriceReductionBadge';
+import DocumentBadge from './DocumentBadge';
+import CoverThumbnail from './CoverThumbnail';
+import { DEFAULT_COORDINATES, ITEMS_PER_PAGE, CONFIRMATION_MESSAGES } from '../constants';
 
 const PropertyList: React.FC = () => {
   const {
@@ -41,6 +48,9 @@ const PropertyList: React.FC = () => {
     refreshData,
     loadProperties, // Add this to ensure properties are loaded
     applyFilters, // Add this to ensure filters are applied
+    isPendingSync,
+    can,
+    areaUnits,
   } = useStore();
 
   const [currentPage, setCurrentPage] = useState(1);
@@ -228,6 +238,10 @@ const PropertyList: React.FC = () => {
               >
                 <div className="flex-1 min-w-0">
                   <div className="flex items-start justify-between">
+                    <CoverThumbnail
+                      mediaId={property.cover_media_id}
+                      className="w-16 h-16 rounded-md object-cover mr-3 flex-shrink-0"
+                    />
                     <div className="flex-1">
                       <div className="flex items-center space-x-1 text-sm text-gray-600 mb-1">
                         <Building size={14} />
@@ -239,6 +253,22 @@ const PropertyList: React.FC = () => {
                             ({property.zone})
                           </span>
                         )}
+                        {!isAvailable(property) && (
+                          <StatusBadge property={property} />
+                        )}
+                        {/* Only once someone has started the checklist */}
+                        {property.documents && property.documents.length > 0 && (
+                          <DocumentBadge property={property} />
+                        )}
+                        {isPendingSync('property', property.id) && (
+                          <span
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-amber-100 text-amber-700"
+                            title="Waiting to sync with server"
+                          >
+                            <CloudOff size={10} className="mr-1" />
+                            Pending sync
+                          </span>
+                        )}
                       </div>
 
                       <h3 className="font-medium text-gray-900 truncate">
@@ -262,7 +292,8 @@ const PropertyList: React.FC = () => {
                           property.price_min,
                           property.price_max,
                           property.size_min,
-                          property.size_max
+                          property.size_max,
+                          getAreaUnit(property.type, areaUnits)
                         )}
                       </div>
 
@@ -293,14 +324,24 @@ const PropertyList: React.FC = () => {
                           to {formatCurrency(property.price_max)}
                         </div>
                       )}
+                      <PriceReductionBadge property={property} className="mt-1" />
 
                       <div className="text-right ml-2">
                         <div className="text-sm font-semibold text-gray-600 flex items-center justify-end">
-                          <span>{property.size_min} Sqyd</span>
+                          <span>
+                            {formatArea(
+                              property.size_min,
+                              getAreaUnit(property.type, areaUnits)
+                            )}
+                          </span>
                         </div>
                         {property.size_min !== property.size_max && (
                           <div className="text-xs text-gray-500">
-                            to {property.size_max} Sqyard
+                            to{' '}
+                            {formatArea(
+                              property.size_max,
+                              getAreaUnit(property.type, areaUnits)
+                            )}
                           </div>
                         )}
                       </div>
@@ -339,15 +380,17 @@ const PropertyList: React.FC = () => {
                         <ExternalLink size={12} />
                         <span>Details ({property.id || ''}) </span>
                       </button>
-                      <button
-                        className="text-xs text-gray-600 hover:text-gray-800 flex items-center space-x-0.5"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          togglePropertyForm(property);
-                        }}
-                      >
-                        <Edit size={12} />
-                      </button>
+                      {can('edit') && (
+                        <button
+                          className="text-xs text-gray-600 hover:text-gray-800 flex items-center space-x-0.5"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            togglePropertyForm(property);
+                          }}
+                        >
+                          <Edit size={12} />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -390,7 +433,7 @@ const PropertyList: React.FC = () => {
       <ConfirmationModal
         isOpen={!!confirmDelete}
         title="Delete Property"
-        message={`Are you sure you want to delete "${confirmDelete?.name}"? This will permanently remove the property and all its connections. This action cannot be undone.`}
+        message={CONFIRMATION_MESSAGES.deleteProperty(confirmDelete?.name || '')}
         confirmText="Delete Property"
         onConfirm={confirmDeleteAction}
         onCancel={() => setConfirmDelete(null)}
@@ -0,0 +1,302 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Camera,
+  ChevronLeft,
+  ChevronRight,
+  CloudOff,
+  ImagePlus,
+  Images,
+  Loader2,
+  Star,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useStore } from "../store/store";
+import { Property, PropertyMedia } from "../types";
+import { MEDIA_CONFIG } from "../constants";
+import { describeError } from "../utils/errors";
+import { isTempId } from "../utils/outbox";
+
+interface PropertyMediaGalleryProps {
+  property: Property;
+}
+
+// Photos of a property: take or upload new ones, browse them full size and
+// pick the cover shown in the list and on the map
+const PropertyMediaGallery: React.FC<PropertyMediaGalleryProps> = ({
+  property,
+}) => {
+  const {
+    propertyMedia,
+    loadPropertyMedia,
+    addPropertyMedia,
+    deletePropertyMedia,
+    setCoverMedia,
+    can,
+  } = useStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setViewingIndex(null);
+
+    loadPropertyMedia(property.id).finally(() => {
+      if (isCurrent) setIsLoading(false);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [property.id, loadPropertyMedia]);
+
+  const media = propertyMedia[property.id] ?? [];
+  const viewing = viewingIndex !== null ? media[viewingIndex] : undefined;
+  const canEdit = can("edit");
+
+  // Keyboard navigation while the lightbox is open
+  useEffect(() => {
+    if (viewingIndex === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setViewingIndex(null);
+      if (e.key === "ArrowLeft") {
+        setViewingIndex((i) => (i! - 1 + media.length) % media.length);
+      }
+      if (e.key === "ArrowRight") {
+        setViewingIndex((i) => (i! + 1) % media.length);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [viewingIndex, media.length]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Let the same file be picked again later
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsAdding(true);
+    try {
+      await addPropertyMedia(property.id, files);
+    } catch (error) {
+      alert(describeError(error, "Failed to add photo"));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleSetCover = async (item: PropertyMedia) => {
+    setIsSaving(true);
+    try {
+      await setCoverMedia(item);
+    } catch (error) {
+      alert(describeError(error, "Failed to set cover photo"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: PropertyMedia) => {
+    if (!confirm("Delete this photo?")) return;
+
+    setIsSaving(true);
+    try {
+      await deletePropertyMedia(item);
+      setViewingIndex(null);
+    } catch (error) {
+      alert(describeError(error, "Failed to delete photo"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isCover = (item: PropertyMedia) => property.cover_media_id === item.id;
+
+  return (
+    <div className="bg-white border rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium flex items-center text-gray-900">
+          <Images size={14} className="mr-2 text-gray-600" />
+          Photos
+          {media.length > 0 && (
+            <span className="ml-2 text-xs text-gray-500">({media.length})</span>
+          )}
+        </h4>
+        {canEdit && (
+          <div className="flex items-center space-x-1">
+            {isAdding && (
+              <Loader2 size={14} className="animate-spin text-gray-400 mr-1" />
+            )}
+            <button
+              onClick={() => cameraInputRef.current?.click()}
+              disabled={isAdding}
+              className="p-1.5 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+              title="Take photo"
+            >
+              <Camera size={16} />
+            </button>
+            <button
+              onClick={() => uploadInputRef.current?.click()}
+              disabled={isAdding}
+              className="p-1.5 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+              title="Upload photos"
+            >
+              <ImagePlus size={16} />
+            </button>
+            <input
+              ref={cameraInputRef}
+              type="file"
+              accept={MEDIA_CONFIG.accept}
+              capture="environment"
+              onChange={handleFiles}
+              className="hidden"
+            />
+            <input
+              ref={uploadInputRef}
+              type="file"
+              accept={MEDIA_CONFIG.accept}
+              multiple
+              onChange={handleFiles}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+
+      {isLoading && media.length === 0 ? (
+        <div className="flex justify-center py-2 text-gray-400">
+          <Loader2 size={18} className="animate-spin" />
+        </div>
+      ) : media.length === 0 ? (
+        <p className="text-sm text-gray-500">No photos yet</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {media.map((item, index) => (
+            <button
+              key={item.id}
+              onClick={() => setViewingIndex(index)}
+              className="relative aspect-square rounded-lg overflow-hidden border bg-gray-100"
+            >
+              <img
+                src={item.thumbnail}
+                alt={item.caption || `Photo ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+              {isCover(item) && (
+                <span
+                  className="absolute top-1 left-1 p-0.5 rounded bg-white/90 text-yellow-500"
+                  title="Cover photo"
+                >
+                  <Star size={12} fill="currentColor" />
+                </span>
+              )}
+              {isTempId(item.id) && (
+                <span
+                  className="absolute bottom-1 right-1 p-0.5 rounded bg-amber-100 text-amber-700"
+                  title="Waiting to upload"
+                >
+                  <CloudOff size={12} />
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lightbox */}
+      {viewing && viewingIndex !== null && (
+        <div
+          className="fixed inset-0 z-[1000] bg-black/90 flex flex-col"
+          onClick={() => setViewingIndex(null)}
+        >
+          <div
+            className="flex items-center justify-between p-3 text-white"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <span className="text-sm">
+              {viewingIndex + 1} / {media.length}
+            </span>
+            <div className="flex items-center space-x-2">
+              {canEdit && (
+                <>
+                  <button
+                    onClick={() => handleSetCover(viewing)}
+                    disabled={isSaving || isCover(viewing)}
+                    className="flex items-center px-2 py-1 text-sm rounded hover:bg-white/10 disabled:opacity-60"
+                  >
+                    <Star
+                      size={16}
+                      className="mr-1"
+                      fill={isCover(viewing) ? "currentColor" : "none"}
+                    />
+                    {isCover(viewing) ? "Cover" : "Set as cover"}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(viewing)}
+                    disabled={isSaving}
+                    className="p-1 rounded hover:bg-white/10 disabled:opacity-60"
+                    title="Delete photo"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => setViewingIndex(null)}
+                className="p-1 rounded hover:bg-white/10"
+                title="Close"
+              >
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 flex items-center justify-center relative min-h-0 px-2 pb-4">
+            {media.length > 1 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setViewingIndex(
+                    (viewingIndex - 1 + media.length) % media.length
+                  );
+                }}
+                className="absolute left-2 p-2 rounded-full bg-black/40 text-white hover:bg-black/60"
+                title="Previous"
+              >
+                <ChevronLeft size={24} />
+              </button>
+            )}
+            <img
+              src={viewing.image}
+              alt={viewing.caption || `Photo ${viewingIndex + 1}`}
+              className="max-w-full max-h-full object-contain"
+              onClick={(e) => e.stopPropagation()}
+            />
+            {media.length > 1 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setViewingIndex((viewingIndex + 1) % media.length);
+                }}
+                className="absolute right-2 p-2 rounded-full bg-black/40 text-white hover:bg-black/60"
+                title="Next"
+              >
+                <ChevronRight size={24} />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PropertyMediaGallery;
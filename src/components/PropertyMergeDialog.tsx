@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import { GitMerge, X } from "lucide-react";
+import {
+  BoundaryPolygon,
+  CustomFieldValues,
+  PlotDimensions,
+  Property,
+} from "../types";
+import { formatCurrency, formatSquareYards } from "../utils/formatters";
+import { formatDimensions } from "../utils/plot";
+import { getBoundaryArea } from "../utils/boundary";
+import { describeCustomFields } from "../utils/customFields";
+
+// Fields a user can edit in PropertyForm, in form order
+const MERGE_FIELDS: {
+  key: keyof Property;
+  label: string;
+  format?: (value: Property[keyof Property], property: Property) => string;
+}[] = [
+  { key: "type", label: "Type" },
+  { key: "status", label: "Status" },
+  { key: "zone", label: "Zone" },
+  { key: "area", label: "Area/Address" },
+  {
+    key: "price_min",
+    label: "Price (min)",
+    format: (v) => formatCurrency(Number(v)),
+  },
+  {
+    key: "price_max",
+    label: "Price (max)",
+    format: (v) => formatCurrency(Number(v)),
+  },
+  { key: "price_source", label: "Price source" },
+  {
+    key: "size_min",
+    label: "Size (min)",
+    format: (v) => formatSquareYards(Number(v)),
+  },
+  {
+    key: "size_max",
+    label: "Size (max)",
+    format: (v) => formatSquareYards(Number(v)),
+  },
+  {
+    key: "dimensions",
+    label: "Dimensions",
+    format: (v) => formatDimensions(v as PlotDimensions),
+  },
+  { key: "facing", label: "Facing" },
+  { key: "road_width", label: "Road width (ft)" },
+  { key: "corner", label: "Corner plot", format: (v) => (v ? "Yes" : "No") },
+  {
+    key: "custom_fields",
+    label: "Details",
+    format: (v, property) =>
+      describeCustomFields({
+        type: property.type,
+        custom_fields: v as CustomFieldValues,
+      })
+        .map(({ label, value }) => `${label}: ${value}`)
+        .join(", "),
+  },
+  { key: "rating", label: "Rating" },
+  { key: "tags", label: "Tags" },
+  {
+    key: "location",
+    label: "Location",
+    format: (v) => {
+      const location = v as Property["location"];
+      return `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`;
+    },
+  },
+  { key: "radius", label: "Radius (m)" },
+  {
+    key: "boundary",
+    label: "Boundary",
+    format: (v) =>
+      `${formatSquareYards(getBoundaryArea(v as BoundaryPolygon))} drawn`,
+  },
+  { key: "description", label: "Description" },
+  { key: "note", label: "Notes" },
+];
+
+type Side = "theirs" | "mine";
+
+// An empty object (no custom fields) counts as unset
+const isUnset = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 0);
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(isUnset(a) ? "" : a) === JSON.stringify(isUnset(b) ? "" : b);
+
+const displayValue = (
+  field: (typeof MERGE_FIELDS)[number],
+  property: Property
+) => {
+  const value = property[field.key];
+  if (isUnset(value)) return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  return (field.format ? field.format(value, property) : String(value)) || "—";
+};
+
+interface PropertyMergeDialogProps {
+  base: Property; // The copy the form was opened with
+  theirs: Property; // The copy someone else saved meanwhile
+  mine: Property; // The copy this user is trying to save
+  onResolve: (merged: Property) => void;
+  onCancel: () => void;
+  cancelLabel?: string;
+}
+
+// Field-by-field merge of an edit conflict: pick their value or mine per field
+const PropertyMergeDialog: React.FC<PropertyMergeDialogProps> = ({
+  base,
+  theirs,
+  mine,
+  onResolve,
+  onCancel,
+  cancelLabel = "Keep editing",
+}) => {
+  const conflicts = MERGE_FIELDS.filter(
+    (field) => !sameValue(theirs[field.key], mine[field.key])
+  );
+
+  // Default to whichever side actually changed the field; mine wins when both did
+  const [choices, setChoices] = useState<Record<string, Side>>(() =>
+    Object.fromEntries(
+      conflicts.map((field) => [
+        field.key,
+        sameValue(mine[field.key], base[field.key]) ? "theirs" : "mine",
+      ])
+    )
+  );
+
+  const handleResolve = () => {
+    const merged: Property = { ...theirs };
+    conflicts.forEach((field) => {
+      if (choices[field.key] === "mine") {
+        Object.assign(merged, { [field.key]: mine[field.key] });
+      }
+    });
+    // Save against their version, which is now the latest
+    onResolve({ ...merged, id: theirs.id, updated_on: theirs.updated_on });
+  };
+
+  const renderOption = (
+    field: (typeof MERGE_FIELDS)[number],
+    side: Side,
+    property: Property
+  ) => {
+    const selected = choices[field.key] === side;
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices({ ...choices, [field.key]: side })}
+        className={`flex-1 text-left px-3 py-2 rounded-md border text-sm break-words transition-colors ${
+          selected
+            ? "border-blue-500 bg-blue-50 text-blue-800"
+            : "border-gray-200 hover:bg-gray-50 text-gray-700"
+        }`}
+      >
+        <span className="block text-xs text-gray-500 mb-0.5">
+          {side === "theirs" ? "Theirs" : "Mine"}
+        </span>
+        {displayValue(field, property)}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[70] flex items-center justify-center">
+      <div className="bg-white rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <GitMerge size={20} className="text-amber-500" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Someone else updated this property
+            </h3>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-3">
+          <p className="text-sm text-gray-600">
+            {conflicts.length > 0
+              ? "Choose which value to keep for each field that differs."
+              : "Their changes don't overlap with yours. Save to keep both."}
+            {theirs.updated_on && (
+              <span className="block text-xs text-gray-500 mt-1">
+                Their version saved{" "}
+                {new Date(theirs.updated_on).toLocaleString()}
+              </span>
+            )}
+          </p>
+
+          {conflicts.map((field) => (
+            <div key={field.key}>
+              <div className="text-sm font-medium mb-1">{field.label}</div>
+              <div className="flex space-x-2">
+                {renderOption(field, "theirs", theirs)}
+                {renderOption(field, "mine", mine)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {cancelLabel}
+          </button>
+          <button
+            type="button"
+            onClick={handleResolve}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+          >
+            Save merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyMergeDialog;
@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { Loader2, Milestone } from "lucide-react";
+import { useStore } from "../store/store";
+import { Property, PropertyStatus } from "../types";
+import { PROPERTY_STATUSES, UI_TEXT } from "../constants";
+import { describeUser } from "../utils/attribution";
+import { describeError } from "../utils/errors";
+import { getPropertyStatus } from "../utils/propertyStatus";
+import StatusBadge from "./StatusBadge";
+
+interface PropertyStatusCardProps {
+  property: Property;
+}
+
+const formatStepDate = (at: string) =>
+  new Date(at).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+// Current listing status with a quick switch, and every status it has had
+const PropertyStatusCard: React.FC<PropertyStatusCardProps> = ({
+  property,
+}) => {
+  const { updateProperty, can, userNames, currentUser } = useStore();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleStatusChange = async (status: PropertyStatus) => {
+    setIsSaving(true);
+    try {
+      await updateProperty({ ...property, status });
+    } catch (error) {
+      alert(describeError(error, "Failed to update status"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Newest first
+  const steps = [...(property.status_history ?? [])].reverse();
+
+  return (
+    <div className="bg-white border rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium flex items-center text-gray-900">
+          <Milestone size={14} className="mr-2 text-gray-600" />
+          {UI_TEXT.labels.status}
+        </h4>
+        {can("edit") ? (
+          <div className="flex items-center space-x-2">
+            {isSaving && (
+              <Loader2 size={14} className="animate-spin text-gray-400" />
+            )}
+            <select
+              value={getPropertyStatus(property)}
+              onChange={(e) =>
+                handleStatusChange(e.target.value as PropertyStatus)
+              }
+              disabled={isSaving}
+              className="border rounded-md px-2 py-1 text-sm"
+            >
+              {PROPERTY_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <StatusBadge property={property} />
+        )}
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="space-y-1">
+          {steps.map((step, index) => (
+            <li
+              key={`${step.at}-${index}`}
+              className="flex items-center justify-between text-sm"
+            >
+              <StatusBadge property={step} />
+              <span className="text-xs text-gray-500">
+                {formatStepDate(step.at)}
+                {step.by !== undefined &&
+                  ` · ${describeUser(step.by, userNames, currentUser)}`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default PropertyStatusCard;
@@ -0,0 +1,55 @@
+import React from "react";
+import { Calendar, Edit } from "lucide-react";
+import { useStore } from "../store/store";
+import { Attribution } from "../types";
+import { describeUser } from "../utils/attribution";
+
+interface RecordAttributionProps {
+  record: Attribution & { created_on?: string; updated_on?: string };
+}
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return "Not available";
+
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return "Invalid date";
+
+  return date.toLocaleDateString("en-IN", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+// When a record was added and last changed, and by whom
+const RecordAttribution: React.FC<RecordAttributionProps> = ({ record }) => {
+  const { userNames, currentUser } = useStore();
+
+  const byUser = (userId?: number) =>
+    userId === undefined
+      ? ""
+      : ` by ${describeUser(userId, userNames, currentUser)}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center space-x-2 p-2 bg-gray-50 rounded-lg">
+        <Calendar size={16} className="text-green-600" />
+        <span className="text-sm text-gray-600">
+          Added {formatDate(record.created_on)}
+          {byUser(record.created_by)}
+        </span>
+      </div>
+      <div className="flex items-center space-x-2 p-2 bg-gray-50 rounded-lg">
+        <Edit size={16} className="text-blue-600" />
+        <span className="text-sm text-gray-600">
+          Updated {formatDate(record.updated_on)}
+          {byUser(record.updated_by)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default RecordAttribution;
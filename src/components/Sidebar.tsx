@@ -1,9 +1,21 @@
-import React, { useEffect, useRef } from "react";
-import { Search, X, SlidersHorizontal, RefreshCw } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Search,
+  X,
+  SlidersHorizontal,
+  RefreshCw,
+  Trash2,
+  UserCog,
+  Lock,
+} from "lucide-react";
 import { useStore } from "../store/store";
 import PropertyList from "./PropertyList";
 import PersonList from "./PersonList";
+import DataQualityBanner from "./DataQualityBanner";
+import TrashList from "./TrashList";
+import UserManagement from "./UserManagement";
 import { handlePhonePaste } from "../utils/phoneUtils";
+import { AUTH_CONFIG } from "../constants";
 
 // Cache keys for search terms
 const SEARCH_CACHE_KEYS = {
@@ -53,8 +65,15 @@ const Sidebar: React.FC = () => {
     properties,
     persons,
     applyPersonFilters,
+    trash,
+    can,
+    autoLockMinutes,
+    setAutoLockMinutes,
   } = useStore();
 
+  // Secondary views that replace the list
+  const [panel, setPanel] = useState<"trash" | "users" | null>(null);
+
   // Use ref to prevent duplicate loads
   const hasLoadedProperties = useRef(false);
   const hasLoadedPersons = useRef(false);
@@ -168,6 +187,16 @@ const Sidebar: React.FC = () => {
     // Property types
     if (filters.propertyTypes && filters.propertyTypes.length > 0) count++;
 
+    // Statuses
+    if (filters.statuses && filters.statuses.length > 0) count++;
+    if (filters.recentlyReduced) count++;
+    if (filters.requiredDocuments && filters.requiredDocuments.length > 0)
+      count++;
+    if (filters.customFields && Object.keys(filters.customFields).length > 0)
+      count++;
+    if (filters.facings && filters.facings.length > 0) count++;
+    if (filters.minRoadWidth !== undefined) count++;
+
     // Rating
     if (filters.rating !== undefined) count++;
 
@@ -190,6 +219,9 @@ const Sidebar: React.FC = () => {
     )
       count++;
 
+    // Added by
+    if (filters.createdBy !== undefined) count++;
+
     return count;
   };
 
@@ -206,6 +238,9 @@ const Sidebar: React.FC = () => {
     // Has properties
     if (personFilters.hasProperties !== null) count++;
 
+    // Added by
+    if (personFilters.createdBy !== undefined) count++;
+
     return count;
   };
 
@@ -241,14 +276,33 @@ const Sidebar: React.FC = () => {
 
   if (!isSidebarOpen) return null;
 
+  const asideClassName = `bg-white shadow-lg fixed z-10 transition-all duration-300 ${
+    isMobileView
+      ? "inset-0 top-14 overflow-y-auto"
+      : "left-0 top-14 bottom-0 w-96 overflow-y-auto"
+  }`;
+
+  if (panel === "trash") {
+    return (
+      <aside className={asideClassName}>
+        <TrashList onClose={() => setPanel(null)} />
+      </aside>
+    );
+  }
+
+  if (panel === "users") {
+    return (
+      <aside className={asideClassName}>
+        <UserManagement onClose={() => setPanel(null)} />
+      </aside>
+    );
+  }
+
+  const canManageUsers = can("manageUsers");
+  const showTrash = trash.length > 0 && can("delete");
+
   return (
-    <aside
-      className={`bg-white shadow-lg fixed z-10 transition-all duration-300 ${
-        isMobileView
-          ? "inset-0 top-14 overflow-y-auto"
-          : "left-0 top-14 bottom-0 w-96 overflow-y-auto"
-      }`}
-    >
+    <aside className={asideClassName}>
       <div className="px-4 border-b">
         <div className="flex items-center justify-between mb-4"></div>
 
@@ -376,6 +430,51 @@ const Sidebar: React.FC = () => {
         )}
       </div>
 
+      <DataQualityBanner />
+
+      <div className="px-4 pt-2 flex items-center justify-between">
+        <label
+          className="flex items-center space-x-1 text-xs text-gray-500"
+          title="Lock the app after this long without activity"
+        >
+          <Lock size={12} />
+          <select
+            value={autoLockMinutes}
+            onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+            className="bg-transparent hover:text-gray-800"
+          >
+            {AUTH_CONFIG.autoLockOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? "Never lock" : `Lock after ${minutes} min`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex space-x-3">
+          {canManageUsers && (
+            <button
+              onClick={() => setPanel("users")}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+              title="Manage user accounts"
+            >
+              <UserCog size={12} />
+              <span>Users</span>
+            </button>
+          )}
+          {showTrash && (
+            <button
+              onClick={() => setPanel("trash")}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+              title="Deleted properties and persons"
+            >
+              <Trash2 size={12} />
+              <span>Trash ({trash.length})</span>
+            </button>
+          )}
+        </div>
+      </div>
+
       {activeTab === "properties" ? <PropertyList /> : <PersonList />}
     </aside>
   );
@@ -0,0 +1,26 @@
+import React from "react";
+import { Property } from "../types";
+import { PROPERTY_STATUS_STYLES } from "../constants";
+import { getPropertyStatus } from "../utils/propertyStatus";
+
+interface StatusBadgeProps {
+  property: Pick<Property, "status">;
+  className?: string;
+}
+
+const StatusBadge: React.FC<StatusBadgeProps> = ({
+  property,
+  className = "",
+}) => {
+  const status = getPropertyStatus(property);
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${PROPERTY_STATUS_STYLES[status]} ${className}`}
+    >
+      {status}
+    </span>
+  );
+};
+
+export default StatusBadge;
@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import {
+  ArrowLeft,
+  Building2,
+  User,
+  RotateCcw,
+  Trash2,
+  Link as LinkIcon,
+  Users,
+  Loader2,
+} from "lucide-react";
+import { useStore } from "../store/store";
+import { Property, Person, TrashEntry } from "../types";
+import { CONFIRMATION_MESSAGES, TRASH_CONFIG } from "../constants";
+import { describeError } from "../utils/errors";
+import { getPurgeTime, getTrashEntryName } from "../utils/trash";
+import ConfirmationModal from "./ConfirmationModal";
+
+interface TrashListProps {
+  onClose: () => void;
+}
+
+const formatDaysLeft = (purgeTime: number) => {
+  const days = Math.ceil((purgeTime - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? "Purged within a day" : `Purged in ${days} days`;
+};
+
+const TrashList: React.FC<TrashListProps> = ({ onClose }) => {
+  const {
+    trash,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    restoreFromTrash,
+    purgeFromTrash,
+    persons,
+    properties,
+  } = useStore();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [confirmPurge, setConfirmPurge] = useState<TrashEntry | null>(null);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setRestoringId(entry.id);
+    try {
+      await restoreFromTrash(entry.id);
+    } catch (error) {
+      alert(describeError(error, "Failed to restore"));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Names of the other side of each connection, for the summary line
+  const describeConnections = (entry: TrashEntry) =>
+    entry.connections
+      .map((c) =>
+        entry.entity === "property"
+          ? persons.find((p) => p.id === c.person_id)?.name
+          : properties.find((p) => p.id === c.property_id)?.area
+      )
+      .filter(Boolean)
+      .join(", ");
+
+  return (
+    <>
+      <div className="flex flex-col h-full">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <button
+            onClick={onClose}
+            className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft size={16} />
+            <span className="font-medium">Trash</span>
+          </button>
+          <label className="flex items-center space-x-2 text-xs text-gray-500">
+            <span>Keep for</span>
+            <select
+              value={trashRetentionDays}
+              onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {TRASH_CONFIG.retentionOptions.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y">
+          {trash.length === 0 ? (
+            <div className="p-6 text-center">
+              <Trash2 size={48} className="mx-auto mb-3 text-gray-300" />
+              <p className="text-gray-500">Trash is empty</p>
+              <p className="text-sm text-gray-400">
+                Deleted properties and persons show up here
+              </p>
+            </div>
+          ) : (
+            trash.map((entry) => {
+              const connectedNames = describeConnections(entry);
+              return (
+                <div key={entry.id} className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start space-x-3 min-w-0">
+                      {entry.entity === "property" ? (
+                        <Building2
+                          size={18}
+                          className="text-gray-400 mt-0.5 flex-shrink-0"
+                        />
+                      ) : (
+                        <User
+                          size={18}
+                          className="text-gray-400 mt-0.5 flex-shrink-0"
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {getTrashEntryName(entry)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {entry.entity === "property"
+                            ? (entry.record as Property).type
+                            : (entry.record as Person).phone}
+                          {" · "}
+                          Deleted {new Date(entry.deletedAt).toLocaleString()}
+                        </p>
+                        <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+                          <span
+                            className="flex items-center space-x-1"
+                            title={connectedNames}
+                          >
+                            <Users size={12} />
+                            <span>{entry.connections.length}</span>
+                          </span>
+                          {entry.entity === "property" && (
+                            <span className="flex items-center space-x-1">
+                              <LinkIcon size={12} />
+                              <span>{entry.links.length}</span>
+                            </span>
+                          )}
+                          <span className="text-amber-600">
+                            {formatDaysLeft(
+                              getPurgeTime(entry, trashRetentionDays)
+                            )}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleRestore(entry)}
+                        disabled={restoringId !== null}
+                        className="p-2 rounded-md text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                        title="Restore with connections and links"
+                      >
+                        {restoringId === entry.id ? (
+                          <Loader2 size={16} className="animate-spin" />
+                        ) : (
+                          <RotateCcw size={16} />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => setConfirmPurge(entry)}
+                        disabled={restoringId !== null}
+                        className="p-2 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50"
+                        title="Delete forever"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={confirmPurge !== null}
+        title="Delete Forever"
+        message={CONFIRMATION_MESSAGES.purgeTrashEntry(
+          confirmPurge ? getTrashEntryName(confirmPurge) : ""
+        )}
+        confirmText="Delete Forever"
+        onConfirm={() => {
+          if (confirmPurge) purgeFromTrash(confirmPurge.id);
+          setConfirmPurge(null);
+        }}
+        onCancel={() => setConfirmPurge(null)}
+        type="danger"
+      />
+    </>
+  );
+};
+
+export default TrashList;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { RotateCcw, RotateCw, X } from "lucide-react";
+import { useStore } from "../store/store";
+import { HISTORY_CONFIG } from "../constants";
+import { describeError } from "../utils/errors";
+
+// Briefly confirms the last change with a button to take it back
+const UndoToast: React.FC = () => {
+  const {
+    lastHistoryEvent,
+    undoStack,
+    redoStack,
+    isApplyingHistory,
+    undo,
+    redo,
+  } = useStore();
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    if (!lastHistoryEvent) {
+      setIsVisible(false);
+      return;
+    }
+
+    setIsVisible(true);
+    const timer = setTimeout(
+      () => setIsVisible(false),
+      HISTORY_CONFIG.toastDurationMs
+    );
+    return () => clearTimeout(timer);
+  }, [lastHistoryEvent]);
+
+  if (!isVisible || !lastHistoryEvent) return null;
+
+  const { type, label } = lastHistoryEvent;
+  const isUndone = type === "undone";
+  const canAct = isUndone ? redoStack.length > 0 : undoStack.length > 0;
+  const message =
+    type === "undone"
+      ? `Undone: ${label}`
+      : type === "redone"
+        ? `Redone: ${label}`
+        : label;
+
+  const handleAction = async () => {
+    try {
+      await (isUndone ? redo() : undo());
+    } catch (error) {
+      alert(
+        describeError(
+          error,
+          isUndone ? "Failed to redo change" : "Failed to undo change"
+        )
+      );
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-3 px-4 py-2 bg-gray-900 text-white text-sm rounded-md shadow-lg max-w-[90vw]">
+      <span className="truncate">{message}</span>
+      {canAct && (
+        <button
+          onClick={handleAction}
+          disabled={isApplyingHistory}
+          className="flex items-center space-x-1 font-medium text-blue-300 hover:text-blue-200 disabled:opacity-50"
+        >
+          {isUndone ? <RotateCw size={14} /> : <RotateCcw size={14} />}
+          <span>{isUndone ? "Redo" : "Undo"}</span>
+        </button>
+      )}
+      <button
+        onClick={() => setIsVisible(false)}
+        className="p-1 rounded hover:bg-gray-700"
+        title="Dismiss"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from "react";
+import {
+  ArrowLeft,
+  History,
+  KeyRound,
+  Loader2,
+  LogOut,
+  Plus,
+  ShieldCheck,
+  UserCheck,
+  UserX,
+} from "lucide-react";
+import { useStore } from "../store/store";
+import { User, UserRole } from "../types";
+import { AUTH_CONFIG, USER_ROLES } from "../constants";
+import { describeError } from "../utils/errors";
+import LoginAuditLog from "./LoginAuditLog";
+
+interface UserManagementProps {
+  onClose: () => void;
+}
+
+const emptyNewUser = {
+  name: "",
+  username: "",
+  role: "agent" as UserRole,
+  pin: "",
+};
+
+const isValidPin = (pin: string) =>
+  /^\d+$/.test(pin) &&
+  pin.length >= AUTH_CONFIG.minPinLength &&
+  pin.length <= AUTH_CONFIG.maxPinLength;
+
+const PIN_HINT = `${AUTH_CONFIG.minPinLength}-${AUTH_CONFIG.maxPinLength} digits`;
+
+// Admin screen to add, disable and reset app accounts
+const UserManagement: React.FC<UserManagementProps> = ({ onClose }) => {
+  const {
+    users,
+    currentUser,
+    loadUsers,
+    createUser,
+    updateUser,
+    resetUserPin,
+    revokeUserSessions,
+  } = useStore();
+  const [isLoadingUsers, setIsLoadingUsers] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newUser, setNewUser] = useState(emptyNewUser);
+  const [busyUserId, setBusyUserId] = useState<number | null>(null);
+  const [resettingUserId, setResettingUserId] = useState<number | null>(null);
+  const [newPin, setNewPin] = useState("");
+  const [showAuditLog, setShowAuditLog] = useState(false);
+
+  useEffect(() => {
+    loadUsers()
+      .catch((error) => alert(describeError(error, "Failed to load users")))
+      .finally(() => setIsLoadingUsers(false));
+  }, [loadUsers]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUser.name.trim() || !newUser.username.trim()) {
+      alert("Please enter a name and username");
+      return;
+    }
+    if (!isValidPin(newUser.pin)) {
+      alert(`PIN must be ${PIN_HINT}`);
+      return;
+    }
+
+    setBusyUserId(0);
+    try {
+      await createUser({
+        ...newUser,
+        name: newUser.name.trim(),
+        username: newUser.username.trim(),
+        disabled: false,
+      });
+      setNewUser(emptyNewUser);
+      setShowAddForm(false);
+    } catch (error) {
+      alert(describeError(error, "Failed to add user"));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleUpdate = async (user: User) => {
+    setBusyUserId(user.id);
+    try {
+      await updateUser(user);
+    } catch (error) {
+      alert(describeError(error, "Failed to update user"));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleResetPin = async (user: User) => {
+    if (!isValidPin(newPin)) {
+      alert(`PIN must be ${PIN_HINT}`);
+      return;
+    }
+
+    setBusyUserId(user.id);
+    try {
+      await resetUserPin(user.id, newPin);
+      setResettingUserId(null);
+      setNewPin("");
+      alert(`PIN reset for ${user.name || user.username}`);
+    } catch (error) {
+      alert(describeError(error, "Failed to reset PIN"));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  // Ends the user's sessions on every device, e.g. after a lost phone
+  const handleRevokeSessions = async (user: User) => {
+    if (!confirm(`Sign ${user.name || user.username} out on all devices?`)) {
+      return;
+    }
+
+    setBusyUserId(user.id);
+    try {
+      await revokeUserSessions(user.id);
+      alert(`${user.name || user.username} has been signed out everywhere`);
+    } catch (error) {
+      alert(describeError(error, "Failed to sign user out"));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  if (showAuditLog) {
+    return <LoginAuditLog onClose={() => setShowAuditLog(false)} />;
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b flex items-center justify-between">
+        <button
+          onClick={onClose}
+          className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft size={16} />
+          <span className="font-medium">Users</span>
+        </button>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setShowAuditLog(true)}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-md"
+            title="Sign-in attempts on this device"
+          >
+            <History size={14} />
+            <span>Sign-in log</span>
+          </button>
+          <button
+            onClick={() => setShowAddForm(!showAddForm)}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-md"
+          >
+            <Plus size={14} />
+            <span>Add User</span>
+          </button>
+        </div>
+      </div>
+
+      {showAddForm && (
+        <form onSubmit={handleCreate} className="p-4 border-b space-y-2">
+          <input
+            type="text"
+            value={newUser.name}
+            onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+            placeholder="Name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="text"
+            value={newUser.username}
+            onChange={(e) =>
+              setNewUser({ ...newUser, username: e.target.value })
+            }
+            placeholder="Username"
+            autoCapitalize="none"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex space-x-2">
+            <select
+              value={newUser.role}
+              onChange={(e) =>
+                setNewUser({ ...newUser, role: e.target.value as UserRole })
+              }
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm capitalize"
+            >
+              {USER_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={newUser.pin}
+              onChange={(e) =>
+                setNewUser({ ...newUser, pin: e.target.value.trim() })
+              }
+              placeholder={`PIN (${PIN_HINT})`}
+              autoComplete="new-password"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busyUserId !== null}
+            className="w-full px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm rounded-md"
+          >
+            {busyUserId === 0 ? "Adding..." : "Add User"}
+          </button>
+        </form>
+      )}
+
+      <div className="flex-1 overflow-y-auto divide-y">
+        {isLoadingUsers ? (
+          <div className="p-6 flex justify-center text-gray-400">
+            <Loader2 size={24} className="animate-spin" />
+          </div>
+        ) : (
+          users.map((user) => {
+            const isSelf = user.id === currentUser?.id;
+            return (
+              <div
+                key={user.id}
+                className={`p-4 ${user.disabled ? "opacity-60" : ""}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate flex items-center space-x-1">
+                      <span>{user.name || user.username}</span>
+                      {user.role === "admin" && (
+                        <ShieldCheck size={14} className="text-blue-500" />
+                      )}
+                      {isSelf && (
+                        <span className="text-xs text-gray-400">(you)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      @{user.username}
+                      {user.disabled && " · Disabled"}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <select
+                      value={user.role}
+                      onChange={(e) =>
+                        handleUpdate({
+                          ...user,
+                          role: e.target.value as UserRole,
+                        })
+                      }
+                      disabled={busyUserId !== null || isSelf}
+                      className="px-1 py-1 border border-gray-300 rounded text-xs capitalize"
+                      title={isSelf ? "You can't change your own role" : "Role"}
+                    >
+                      {USER_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        setResettingUserId(
+                          resettingUserId === user.id ? null : user.id
+                        );
+                        setNewPin("");
+                      }}
+                      disabled={busyUserId !== null}
+                      className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+                      title="Reset PIN"
+                    >
+                      <KeyRound size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleRevokeSessions(user)}
+                      disabled={busyUserId !== null || isSelf}
+                      className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+                      title={
+                        isSelf
+                          ? "Use Logout to end your own session"
+                          : "Sign out on all devices"
+                      }
+                    >
+                      <LogOut size={16} />
+                    </button>
+                    <button
+                      onClick={() =>
+                        handleUpdate({ ...user, disabled: !user.disabled })
+                      }
+                      disabled={busyUserId !== null || isSelf}
+                      className={`p-2 rounded-md disabled:opacity-50 ${
+                        user.disabled
+                          ? "text-green-600 hover:bg-green-50"
+                          : "text-red-600 hover:bg-red-50"
+                      }`}
+                      title={user.disabled ? "Enable" : "Disable"}
+                    >
+                      {busyUserId === user.id ? (
+                        <Loader2 size={16} className="animate-spin" />
+                      ) : user.disabled ? (
+                        <UserCheck size={16} />
+                      ) : (
+                        <UserX size={16} />
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                {resettingUserId === user.id && (
+                  <div className="mt-2 flex space-x-2">
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      value={newPin}
+                      onChange={(e) => setNewPin(e.target.value.trim())}
+                      placeholder={`New PIN (${PIN_HINT})`}
+                      autoComplete="new-password"
+                      className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                    />
+                    <button
+                      onClick={() => handleResetPin(user)}
+                      disabled={busyUserId !== null}
+                      className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm rounded-md"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -16,6 +16,92 @@ export const PROPERTY_TYPES = [
 
 export type PropertyType = (typeof PROPERTY_TYPES)[number];
 
+// Extra details asked for each property type, saved in `custom_fields`
+// under their keys. Number fields filter as "at least", the rest as "equals".
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  kind: "number" | "text" | "select" | "boolean";
+  unit?: string;
+  options?: readonly string[];
+}
+
+const FURNISHING_OPTIONS = ["Unfurnished", "Semi-furnished", "Furnished"];
+
+export const CUSTOM_FIELDS: Partial<
+  Record<PropertyType, readonly CustomFieldDefinition[]>
+> = {
+  Shop: [
+    { key: "frontage", label: "Frontage", kind: "number", unit: "ft" },
+    { key: "depth", label: "Depth", kind: "number", unit: "ft" },
+    {
+      key: "floor",
+      label: "Floor",
+      kind: "select",
+      options: ["Basement", "Ground", "First", "Second", "Upper"],
+    },
+    { key: "washroom", label: "Washroom", kind: "boolean" },
+  ],
+  House: [
+    { key: "bedrooms", label: "Bedrooms", kind: "number" },
+    { key: "bathrooms", label: "Bathrooms", kind: "number" },
+    { key: "storeys", label: "Storeys", kind: "number" },
+    {
+      key: "furnishing",
+      label: "Furnishing",
+      kind: "select",
+      options: FURNISHING_OPTIONS,
+    },
+    { key: "parking", label: "Parking", kind: "boolean" },
+  ],
+  Flats: [
+    { key: "bedrooms", label: "Bedrooms", kind: "number" },
+    { key: "bathrooms", label: "Bathrooms", kind: "number" },
+    { key: "floor_number", label: "Floor", kind: "number" },
+    {
+      key: "furnishing",
+      label: "Furnishing",
+      kind: "select",
+      options: FURNISHING_OPTIONS,
+    },
+    { key: "lift", label: "Lift", kind: "boolean" },
+  ],
+  "Agriculture Land": [
+    {
+      key: "water_source",
+      label: "Water source",
+      kind: "select",
+      options: ["Tubewell", "Canal", "Borewell", "Rain-fed"],
+    },
+    {
+      key: "road_access",
+      label: "Road access",
+      kind: "select",
+      options: ["Pakka road", "Kacha road", "No road"],
+    },
+    { key: "electricity", label: "Electricity", kind: "boolean" },
+  ],
+  Godown: [
+    {
+      key: "ceiling_height",
+      label: "Ceiling height",
+      kind: "number",
+      unit: "ft",
+    },
+    { key: "truck_access", label: "Truck access", kind: "boolean" },
+  ],
+  Factory: [
+    { key: "power_load", label: "Power load", kind: "number", unit: "kW" },
+    {
+      key: "ceiling_height",
+      label: "Ceiling height",
+      kind: "number",
+      unit: "ft",
+    },
+    { key: "truck_access", label: "Truck access", kind: "boolean" },
+  ],
+};
+
 // Person Roles
 export const PERSON_ROLES = [
   "Owner",
@@ -55,6 +141,17 @@ export const LINK_TYPES = [
 
 export type LinkType = (typeof LINK_TYPES)[number];
 
+// App user roles, from read-only to full control
+export const USER_ROLES = ["viewer", "agent", "admin"] as const;
+
+// What each role may do. Viewers only browse; add "viewPhones" to their list
+// to show them owner phone numbers.
+export const ROLE_PERMISSIONS = {
+  viewer: [],
+  agent: ["viewPhones", "create", "edit"],
+  admin: ["viewPhones", "create", "edit", "delete", "manageUsers"],
+} as const;
+
 // Suggested Tags for Properties
 export const SUGGESTED_TAGS = [
   "corner plot",
@@ -102,6 +199,42 @@ export const PROPERTY_TYPE_COLORS = {
   Other: "#4B5563", // Gray-600 - Other properties
 } as const;
 
+// Listing lifecycle. Records saved before statuses existed count as Available.
+export const PROPERTY_STATUSES = [
+  "Available",
+  "On Hold",
+  "Under Negotiation",
+  "Sold",
+  "Rented",
+  "Withdrawn",
+] as const;
+
+// Statuses still worth offering to buyers
+export const ACTIVE_STATUSES = [
+  "Available",
+  "On Hold",
+  "Under Negotiation",
+] as const;
+
+// Badge styles for each status
+export const PROPERTY_STATUS_STYLES = {
+  Available: "bg-green-100 text-green-800",
+  "On Hold": "bg-amber-100 text-amber-800",
+  "Under Negotiation": "bg-blue-100 text-blue-800",
+  Sold: "bg-red-100 text-red-800",
+  Rented: "bg-purple-100 text-purple-800",
+  Withdrawn: "bg-gray-200 text-gray-700",
+} as const;
+
+// Where an asking price came from
+export const PRICE_SOURCES = [
+  "Owner",
+  "Dealer",
+  "Advertisement",
+  "Negotiation",
+  "Other",
+] as const;
+
 // Rating Options (1-5 scale, required field)
 export const RATING_OPTIONS = [1, 2, 3, 4, 5] as const;
 
@@ -143,6 +276,31 @@ export const DOCUMENT_TYPES = [
   "NOC",
 ] as const;
 
+// Where each legal document stands for a property
+export const DOCUMENT_STATUSES = [
+  "Available",
+  "Pending",
+  "Not Applicable",
+] as const;
+
+// Quick pick in the filter panel for the papers most deals need first
+export const KEY_DOCUMENTS = ["Clear Title", "Registry"] as const;
+
+// Direction a plot's front (road side) faces
+export const FACING_DIRECTIONS = [
+  "North",
+  "North-East",
+  "East",
+  "South-East",
+  "South",
+  "South-West",
+  "West",
+  "North-West",
+] as const;
+
+// "At least" choices for the gali/road width filter, in feet
+export const ROAD_WIDTH_OPTIONS = [10, 15, 20, 25, 30, 40, 60] as const;
+
 // Default Coordinates (Panipat, Haryana - updated to match the API data)
 export const DEFAULT_COORDINATES = {
   latitude: 29.3864726,
@@ -190,6 +348,72 @@ export const SIZE_RANGES = [
   [10000, 100000], // 10000+ sq.yd
 ] as const;
 
+// Land measurement units. Sizes are stored in square yards (gaj); these are
+// the square yards in one of each unit. A bigha differs between regions -
+// this is the Punjab/Haryana bigha, five to an acre.
+export const AREA_UNITS = {
+  gaj: { label: "Gaj (sq yd)", short: "gaj", sqYards: 1 },
+  sqft: { label: "Square feet", short: "sq ft", sqYards: 1 / 9 },
+  marla: { label: "Marla", short: "marla", sqYards: 30.25 },
+  kanal: { label: "Kanal", short: "kanal", sqYards: 605 },
+  bigha: { label: "Bigha", short: "bigha", sqYards: 968 },
+  acre: { label: "Acre", short: "acre", sqYards: 4840 },
+} as const;
+
+export type AreaUnit = keyof typeof AREA_UNITS;
+
+export const AREA_UNIT_CONFIG = {
+  storageKey: "area_display_units",
+  // Types not listed here are shown in gaj
+  defaultUnits: {
+    "Agriculture Land": "acre",
+    "Free Zone Land": "kanal",
+    "Plot Industrial": "kanal",
+    Factory: "kanal",
+  } as Partial<Record<PropertyType, AreaUnit>>,
+} as const;
+
+// Filter ranges for the larger units, in those units. Gaj and square feet
+// use SIZE_RANGES.
+export const UNIT_SIZE_RANGES: Partial<
+  Record<AreaUnit, readonly (readonly [number, number])[]>
+> = {
+  marla: [
+    [0, 3],
+    [3, 5],
+    [5, 8],
+    [8, 10],
+    [10, 15],
+    [15, 20],
+    [20, 40],
+  ],
+  kanal: [
+    [0, 1],
+    [1, 2],
+    [2, 4],
+    [4, 8],
+    [8, 16],
+    [16, 40],
+    [40, 200],
+  ],
+  bigha: [
+    [0, 1],
+    [1, 2],
+    [2, 5],
+    [5, 10],
+    [10, 25],
+    [25, 100],
+  ],
+  acre: [
+    [0, 1],
+    [1, 2],
+    [2, 5],
+    [5, 10],
+    [10, 25],
+    [25, 100],
+  ],
+};
+
 // Radius Ranges (in meters) for filtering
 export const RADIUS_RANGES = [
   [0, 0], // No radius
@@ -212,6 +436,7 @@ export const SORT_OPTIONS = [
   { value: "size_asc", label: "Size: Small to Large" },
   { value: "size_desc", label: "Size: Large to Small" },
   { value: "rating_desc", label: "Highest Rated" },
+  { value: "reduced_recent", label: "Recently Reduced" },
 ] as const;
 
 // Radius Steps (in meters)
@@ -246,14 +471,116 @@ export const API_CONFIG = {
     persons: "v3_person",
     connections: "v3_connections",
     links: "v3_links",
+    users: "v3_users",
+    media: "v3_media",
+    changes: "v3_changes",
   },
+  // Checks a username and PIN against the hashed PINs kept by the server
+  authTable: "auth",
+  // Sent with updates so the server can refuse stale writes with a 409
+  expectedVersionParam: "expected_updated_at",
+  // Transactional multi-table writes; older servers don't have it
+  batchTable: "batch",
+} as const;
+
+// Backend Configuration - "rest" talks to API_CONFIG.baseUrl, "local" keeps
+// everything in this browser's IndexedDB with no server
+export const BACKEND_CONFIG = {
+  storageKey: "backend_mode",
+  defaultMode: "rest",
+  localDatabaseName: "property_local_backend",
+} as const;
+
+// Trash - deleted properties/persons are kept for restore until purged
+export const TRASH_CONFIG = {
+  retentionStorageKey: "trash_retention_days",
+  defaultRetentionDays: 30,
+  retentionOptions: [7, 30, 90, 365],
+} as const;
+
+// Authentication - each user signs in with their own username and PIN
+export const AUTH_CONFIG = {
+  sessionStorageKey: "property_session",
+  // Shared-PIN session data from before per-user accounts
+  legacyStorageKeys: ["property_auth", "property_pin_version"],
+  sessionDurationMs: 3 * 24 * 60 * 60 * 1000,
+  minPinLength: 4,
+  maxPinLength: 10,
+  // Inactivity lock - blurs the app until the PIN is entered again, without
+  // ending the session. 0 turns it off.
+  autoLockStorageKey: "auto_lock_minutes",
+  lockedStorageKey: "property_locked",
+  defaultAutoLockMinutes: 5,
+  autoLockOptions: [1, 2, 5, 15, 30, 0],
+  // Wrong PINs on this device: the first few are free, then each one locks
+  // sign-in for twice as long as the last, up to the maximum
+  attemptsStorageKey: "login_attempts",
+  freeAttempts: 3,
+  lockoutBaseMs: 30 * 1000,
+  lockoutMaxMs: 30 * 60 * 1000,
+  // Sign-in attempts on this device, for admins to review
+  auditStorageKey: "login_audit",
+  auditMaxEntries: 200,
+} as const;
+
+// Undo / redo history
+export const HISTORY_CONFIG = {
+  maxEntries: 50,
+  toastDurationMs: 6000,
+} as const;
+
+// Price changes - how long a reduction counts as recent
+export const PRICE_HISTORY_CONFIG = {
+  recentReductionDays: 30,
+} as const;
+
+// Per-record change timeline, saved through the backend adapter
+export const CHANGE_LOG_CONFIG = {
+  maxEntriesPerRecord: 100,
+} as const;
+
+// Property photos - resized and compressed in the browser before saving
+export const MEDIA_CONFIG = {
+  maxDimension: 1600, // Longest side of the stored photo, in pixels
+  quality: 0.8,
+  thumbnailDimension: 240,
+  thumbnailQuality: 0.7,
+  accept: "image/*",
+} as const;
+
+// Drawn property boundaries - how far the drawn area may differ from the
+// stated size before it is flagged
+export const BOUNDARY_CONFIG = {
+  sizeTolerance: 0.15, // Fraction of the stated size
+  minPoints: 3,
+} as const;
+
+// Request pipeline - timeouts and retry backoff for calls to the API
+export const REQUEST_CONFIG = {
+  timeoutMs: 15000,
+  maxRetries: 3, // Only idempotent calls (GET, PUT, DELETE) are retried
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 8000,
+} as const;
+
+// Offline outbox - attempts at a queued change that keeps failing with a
+// server error before it is set aside so the rest of the queue can sync
+export const OUTBOX_CONFIG = {
+  maxAttempts: 5,
+} as const;
+
+// Delta Sync Configuration
+export const SYNC_CONFIG = {
+  updatedSinceParam: "updated_since",
+  overlapMs: 2 * 60 * 1000, // Re-fetch a small window to tolerate clock skew
+  maxDeltaAgeMs: 24 * 60 * 60 * 1000, // Older caches fall back to a full sync
 } as const;
 
 // Form Field Placeholders
 export const PLACEHOLDERS = {
   property: {
     area: "Enter area/address details",
-    description: "Gali Width, Per Gaj, Dimensions, Facing, Legal",
+    description: "Per Gaj, Legal and anything else worth knowing",
     notes: "Add any additional notes",
     tags: "Type to search or add new tag...",
     zone: "Select zone type",
@@ -322,9 +649,11 @@ export const SUCCESS_MESSAGES = {
 // Confirmation Messages
 export const CONFIRMATION_MESSAGES = {
   deleteProperty: (name: string) =>
-    `Are you sure you want to delete "${name}"? This will permanently remove the property and all its connections. This action cannot be undone.`,
+    `Are you sure you want to delete "${name}"? The property, its connections and links will be moved to Trash, where you can restore them until they are purged.`,
   deletePerson: (name: string) =>
-    `Are you sure you want to delete "${name}"? This will permanently remove the person and all their property connections. This action cannot be undone.`,
+    `Are you sure you want to delete "${name}"? The person and their property connections will be moved to Trash, where you can restore them until they are purged.`,
+  purgeTrashEntry: (name: string) =>
+    `Permanently delete "${name}" from Trash? This action cannot be undone.`,
   removeConnection: (name: string) =>
     `Are you sure you want to remove ${name} from this property? This action cannot be undone.`,
   deleteLink: (anchor: string) =>
@@ -402,6 +731,10 @@ export const UI_TEXT = {
     role: "Role",
     about: "About",
     hasProperties: "Has Properties",
+    addedBy: "Added By",
+    status: "Status",
+    priceSource: "Price Source",
+    priceHistory: "Price History",
     roleInProperty: "Role in Property",
     remarks: "Remarks (Optional)",
     rating: "Rating",
@@ -8,16 +8,118 @@ import {
   PersonFilterState,
   MapViewport,
   SortOption,
+  OutboxEntity,
+  PendingMutation,
+  TrashEntry,
+  HistoryChange,
+  HistoryEntry,
+  HistoryEvent,
+  User,
+  LoginAuditEntry,
+  Permission,
+  ChangeLogEntity,
+  FieldChange,
+  PropertyType,
+  AreaUnit,
+  PropertyMedia,
 } from "../types";
 import {
   propertyAPI,
   personAPI,
   connectionAPI,
   linkAPI,
-  extractAllDataFromProperties,
+  mediaAPI,
+  loadAllRecords,
+  fetchChangesSince,
+  trashAPI,
+  accountAPI,
+  onValidationIssues,
+  onUnauthorized,
 } from "../utils/api";
-import { DEFAULT_COORDINATES } from "../constants";
+import {
+  DeltaSyncResult,
+  BackendMode,
+  isBackendOnline,
+  getBackendMode,
+  saveBackendMode,
+  NewUser,
+} from "../utils/backend";
+import { ValidationIssue } from "../utils/validation";
+import {
+  ConflictError,
+  PermissionError,
+  SessionExpiredError,
+  TimeoutError,
+  isCancelledError,
+  isRetryableError,
+  describeError,
+} from "../utils/errors";
+import { DEFAULT_COORDINATES, OUTBOX_CONFIG, SYNC_CONFIG } from "../constants";
 import { authUtils } from "../utils/auth";
+import { getLoginAudit, clearLoginAudit } from "../utils/loginAttempts";
+import { hasPermission } from "../utils/permissions";
+import { matchesCreator, withCreator, withUpdater } from "../utils/attribution";
+import { cacheDB, META_KEYS } from "../utils/cacheDB";
+import {
+  diffFields,
+  getFieldLabel,
+  isCurrentValue,
+  recordFieldChanges,
+  syncPendingChanges,
+} from "../utils/changeLog";
+import { processPhoto } from "../utils/media";
+import { hasDocuments } from "../utils/documents";
+import { matchesCustomFields } from "../utils/customFields";
+import {
+  getPropertyStatus,
+  withStatusTransition,
+} from "../utils/propertyStatus";
+import {
+  AreaUnitPreferences,
+  getAreaUnitPreferences,
+  saveAreaUnitPreferences,
+} from "../utils/areaUnits";
+import {
+  getPriceReduction,
+  isRecentlyReduced,
+  withPriceChange,
+} from "../utils/priceHistory";
+import {
+  createTrashEntry,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  isTrashEntryExpired,
+} from "../utils/trash";
+import {
+  createHistoryEntry,
+  pushHistoryEntry,
+  remapHistoryId,
+  resolveHistoryId,
+  advanceHistoryVersion,
+  resolveHistoryVersion,
+  clearHistoryIds,
+} from "../utils/history";
+import {
+  loadPendingMutations,
+  savePendingMutations,
+  createMutation,
+  createTempId,
+  isTempId,
+  isNetworkError,
+  canQueueCreate,
+  enqueueMutation,
+  hasPendingChanges,
+  applyMutation,
+  applyPendingMutations,
+  remapPendingMutations,
+  remapOutboxData,
+  replayMutation,
+  advancePropertyVersion,
+  withoutId,
+  OutboxData,
+  nextReplayable,
+  markConflict,
+} from "../utils/outbox";
 
 interface LoadingStates {
   creating: boolean;
@@ -28,9 +130,38 @@ interface LoadingStates {
 interface Store {
   // Authentication
   isAuthenticated: boolean;
-  login: (pin: string) => Promise<boolean>;
+  // Signed out by the server mid-session; the UI stays mounted behind the
+  // sign-in screen so unsaved forms survive
+  isSessionExpired: boolean;
+  currentUser: User | null;
+  login: (username: string, pin: string) => Promise<boolean>;
   logout: () => void;
+  expireSession: () => void;
   checkAuth: () => void;
+  // Inactivity lock - the session stays valid but the app is hidden
+  isLocked: boolean;
+  autoLockMinutes: number;
+  lock: () => void;
+  unlock: (pin: string) => Promise<boolean>;
+  setAutoLockMinutes: (minutes: number) => void;
+  needsAccountSetup: () => Promise<boolean>;
+  createFirstAdmin: (
+    user: Pick<NewUser, "username" | "name" | "pin">
+  ) => Promise<void>;
+
+  // Accounts (admin only)
+  users: User[];
+  loadUsers: () => Promise<void>;
+  createUser: (user: NewUser) => Promise<void>;
+  updateUser: (user: User) => Promise<void>;
+  resetUserPin: (id: number, pin: string) => Promise<void>;
+  revokeUserSessions: (id: number) => Promise<void>;
+  // Names behind created_by/updated_by, readable by every role
+  userNames: Record<number, string>;
+  loadUserNames: () => Promise<void>;
+  // Sign-in attempts made on this device
+  getLoginAudit: () => LoginAuditEntry[];
+  clearLoginAudit: () => void;
 
   // Data
   properties: Property[];
@@ -71,6 +202,35 @@ interface Store {
   error: string | null;
   lastSyncTime: number | null;
 
+  // Offline outbox
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingMutations: PendingMutation[];
+
+  // Records skipped because the server sent malformed data
+  dataIssues: ValidationIssue[];
+
+  // Data source
+  backendMode: BackendMode;
+
+  // Trash
+  trash: TrashEntry[];
+  trashRetentionDays: number;
+
+  // Size display unit chosen for each property type
+  areaUnits: AreaUnitPreferences;
+
+  // Photos of each property opened so far, including ones waiting to upload
+  propertyMedia: Record<number, PropertyMedia[]>;
+  // Cover thumbnails by media id, "" while loading or when unavailable
+  coverThumbnails: Record<number, string>;
+
+  // Undo / redo
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  isApplyingHistory: boolean;
+  lastHistoryEvent: HistoryEvent | null;
+
   // Actions
   setProperties: (properties: Property[]) => void;
   setPersons: (persons: Person[]) => void;
@@ -104,22 +264,75 @@ interface Store {
   loadConnections: () => Promise<void>;
   loadLinks: () => Promise<void>;
   loadAllData: () => Promise<void>;
+  loadChanges: () => Promise<void>;
   loadFromCache: () => Promise<void>;
-  refreshData: () => Promise<void>;
+  refreshData: (options?: { full?: boolean }) => Promise<void>;
 
   // CRUD operations
-  createProperty: (property: Omit<Property, "id">) => Promise<void>;
+  // Creates resolve to the new id (a temporary one when queued offline)
+  createProperty: (property: Omit<Property, "id">) => Promise<number>;
   updateProperty: (property: Property) => Promise<void>;
   deleteProperty: (id: number) => Promise<void>;
-  createPerson: (person: Omit<Person, "id">) => Promise<void>;
+  createPerson: (person: Omit<Person, "id">) => Promise<number>;
   updatePerson: (person: Person) => Promise<void>;
   deletePerson: (id: number) => Promise<void>;
-  createConnection: (connection: Omit<Connection, "id">) => Promise<void>;
+  createConnection: (connection: Omit<Connection, "id">) => Promise<number>;
   deleteConnection: (id: number) => Promise<void>;
-  createLink: (link: Omit<Link, "id">) => Promise<void>;
+  createLink: (link: Omit<Link, "id">) => Promise<number>;
   updateLink: (link: Link) => Promise<void>;
   deleteLink: (id: number) => Promise<void>;
 
+  // Offline outbox actions
+  setOnlineStatus: (isOnline: boolean) => void;
+  queueMutation: (mutation: PendingMutation) => void;
+  syncPendingMutations: () => Promise<void>;
+  retryFailedMutations: () => Promise<void>;
+  resolveSyncConflict: (mutationId: string, merged: Property) => Promise<void>;
+  isPendingSync: (entity: OutboxEntity, id: number) => boolean;
+
+  // Data quality actions
+  reportDataIssues: (issues: ValidationIssue[]) => void;
+  clearDataIssues: () => void;
+
+  // Data source actions
+  switchBackend: (mode: BackendMode) => Promise<void>;
+
+  // Trash actions
+  loadTrash: () => Promise<void>;
+  addToTrash: (entry: TrashEntry) => void;
+  restoreFromTrash: (entryId: string) => Promise<Property | Person | null>;
+  purgeFromTrash: (entryId: string) => Promise<void>;
+  setTrashRetentionDays: (days: number) => void;
+
+  // Display preferences
+  setAreaUnit: (type: PropertyType, unit: AreaUnit) => void;
+
+  // Photo actions
+  loadPropertyMedia: (propertyId: number) => Promise<void>;
+  // Captioned photos, such as document scans, never become the cover
+  addPropertyMedia: (
+    propertyId: number,
+    files: File[],
+    caption?: string
+  ) => Promise<PropertyMedia[]>;
+  deletePropertyMedia: (media: PropertyMedia) => Promise<void>;
+  setCoverMedia: (media: PropertyMedia) => Promise<void>;
+  loadCoverThumbnail: (mediaId: number) => Promise<void>;
+  // Upload photos taken offline once their property exists on the server
+  syncPendingMedia: () => Promise<void>;
+
+  // History actions
+  recordHistory: (change: HistoryChange) => void;
+  // Put one field of a property or person back to an earlier value
+  revertField: (
+    entity: ChangeLogEntity,
+    recordId: number,
+    change: FieldChange
+  ) => Promise<void>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clearHistory: () => void;
+
   // Detail loading
   loadPropertyDetails: (id: number) => Promise<void>;
   loadPersonDetails: (id: number) => Promise<void>;
@@ -131,6 +344,7 @@ interface Store {
   getPersonConnections: (personId: number) => Connection[];
   getPropertyLinks: (propertyId: number) => Link[];
   getAllTags: () => string[];
+  can: (permission: Permission) => boolean;
 }
 
 // Default filter state
@@ -138,6 +352,12 @@ const defaultFilters: FilterState = {
   priceRanges: [],
   sizeRanges: [],
   propertyTypes: [],
+  statuses: [],
+  requiredDocuments: [],
+  customFields: {},
+  facings: [],
+  minRoadWidth: undefined,
+  recentlyReduced: false,
   searchQuery: "",
   tags: [],
   excludedTags: [],
@@ -147,105 +367,278 @@ const defaultFilters: FilterState = {
   radiusRange: [0, 50000],
   zone: undefined,
   area: undefined,
+  createdBy: undefined,
 };
 
 const defaultPersonFilters: PersonFilterState = {
   searchQuery: "",
   roles: [],
   hasProperties: null,
+  createdBy: undefined,
 };
 
-// Cache keys
-const CACHE_KEYS = {
-  properties: "cached_properties",
-  persons: "cached_persons",
-  connections: "cached_connections",
-  links: "cached_links",
-  lastSync: "last_sync_time",
-  filters: "cached_filters",
-  personFilters: "cached_person_filters",
-  searchTerms: "cached_search_terms",
+// Validate saved filters and merge with defaults
+const normalizeSavedFilters = (parsed: Partial<FilterState>): FilterState => ({
+  ...defaultFilters,
+  ...parsed,
+  // Ensure arrays are properly initialized
+  priceRanges: Array.isArray(parsed.priceRanges) ? parsed.priceRanges : [],
+  sizeRanges: Array.isArray(parsed.sizeRanges) ? parsed.sizeRanges : [],
+  propertyTypes: Array.isArray(parsed.propertyTypes)
+    ? parsed.propertyTypes
+    : [],
+  statuses: Array.isArray(parsed.statuses) ? parsed.statuses : [],
+  requiredDocuments: Array.isArray(parsed.requiredDocuments)
+    ? parsed.requiredDocuments
+    : [],
+  customFields:
+    parsed.customFields &&
+    typeof parsed.customFields === "object" &&
+    !Array.isArray(parsed.customFields)
+      ? parsed.customFields
+      : {},
+  facings: Array.isArray(parsed.facings) ? parsed.facings : [],
+  tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+  excludedTags: Array.isArray(parsed.excludedTags) ? parsed.excludedTags : [],
+  radiusRange:
+    Array.isArray(parsed.radiusRange) && parsed.radiusRange.length === 2
+      ? parsed.radiusRange
+      : defaultFilters.radiusRange,
+});
+
+// Validate saved person filters and merge with defaults
+const normalizeSavedPersonFilters = (
+  parsed: Partial<PersonFilterState>
+): PersonFilterState => ({
+  ...defaultPersonFilters,
+  ...parsed,
+  roles: Array.isArray(parsed.roles) ? parsed.roles : [],
+});
+
+// Save filters to the cache database
+const saveFilters = (filters: FilterState) => {
+  cacheDB.setMeta(META_KEYS.filters, filters);
 };
 
-// Load saved filters from localStorage
-const loadSavedFilters = (): FilterState => {
-  try {
-    const saved = localStorage.getItem(CACHE_KEYS.filters);
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      // Validate the structure and merge with defaults
-      return {
-        ...defaultFilters,
-        ...parsed,
-        // Ensure arrays are properly initialized
-        priceRanges: Array.isArray(parsed.priceRanges)
-          ? parsed.priceRanges
-          : [],
-        sizeRanges: Array.isArray(parsed.sizeRanges) ? parsed.sizeRanges : [],
-        propertyTypes: Array.isArray(parsed.propertyTypes)
-          ? parsed.propertyTypes
-          : [],
-        tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-        excludedTags: Array.isArray(parsed.excludedTags)
-          ? parsed.excludedTags
-          : [],
-        radiusRange:
-          Array.isArray(parsed.radiusRange) && parsed.radiusRange.length === 2
-            ? parsed.radiusRange
-            : defaultFilters.radiusRange,
-      };
-    }
-  } catch (error) {
-    console.error("Error loading saved filters:", error);
+// Save person filters to the cache database
+const savePersonFilters = (filters: PersonFilterState) => {
+  cacheDB.setMeta(META_KEYS.personFilters, filters);
+};
+
+// Merge rows changed on the server into cached data, dropping deleted ids
+const mergeChanges = (
+  data: OutboxData,
+  changes: DeltaSyncResult
+): OutboxData => {
+  const upsert = <T extends { id: number }>(
+    items: T[],
+    changed: T[],
+    deleted: number[]
+  ): T[] => {
+    const changedById = new Map(changed.map((item) => [item.id, item]));
+    const deletedIds = new Set(deleted);
+    const merged = items
+      .filter((item) => !deletedIds.has(item.id))
+      .map((item) => changedById.get(item.id) ?? item);
+    const existingIds = new Set(merged.map((item) => item.id));
+    return [
+      ...merged,
+      ...changed.filter(
+        (item) => !existingIds.has(item.id) && !deletedIds.has(item.id)
+      ),
+    ];
+  };
+
+  const deletedPropertyIds = new Set(changes.deleted.properties);
+  const deletedPersonIds = new Set(changes.deleted.persons);
+
+  return {
+    properties: upsert(
+      data.properties,
+      changes.properties,
+      changes.deleted.properties
+    ),
+    persons: upsert(data.persons, changes.persons, changes.deleted.persons),
+    // Cascade removals the same way deleteProperty/deletePerson do locally
+    connections: upsert(
+      data.connections,
+      changes.connections,
+      changes.deleted.connections
+    ).filter(
+      (c) =>
+        !deletedPropertyIds.has(c.property_id) &&
+        !deletedPersonIds.has(c.person_id)
+    ),
+    links: upsert(data.links, changes.links, changes.deleted.links).filter(
+      (l) => !deletedPropertyIds.has(l.property_id)
+    ),
+  };
+};
+
+const PERMISSION_ACTIONS: Record<Permission, string> = {
+  viewPhones: "see phone numbers",
+  create: "add records",
+  edit: "edit records",
+  delete: "delete records",
+  manageUsers: "manage user accounts",
+};
+
+// The backend enforces this too; checking first gives a clear message
+const requirePermission = (store: Store, permission: Permission) => {
+  if (!store.can(permission)) {
+    throw new PermissionError(PERMISSION_ACTIONS[permission]);
   }
-  return defaultFilters;
 };
 
-// Load saved person filters from localStorage
-const loadSavedPersonFilters = (): PersonFilterState => {
-  try {
-    const saved = localStorage.getItem(CACHE_KEYS.personFilters);
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultPersonFilters,
-        ...parsed,
-        roles: Array.isArray(parsed.roles) ? parsed.roles : [],
-      };
+// Run one side of a recorded change through the regular CRUD actions, so undo
+// and redo reach the server (or the outbox) like any other edit. Returns the
+// change with the Trash entry a removed property or person now sits in.
+const applyHistoryChange = async (
+  get: () => Store,
+  change: HistoryChange,
+  direction: "undo" | "redo"
+): Promise<HistoryChange> => {
+  const recordId =
+    change.kind === "update" ? change.after.id : change.record.id;
+  const id = resolveHistoryId(change.entity, recordId);
+
+  if (change.kind === "update") {
+    const target = direction === "undo" ? change.before : change.after;
+
+    switch (change.entity) {
+      case "property": {
+        if (!get().properties.some((p) => p.id === id)) {
+          throw new Error("This property no longer exists");
+        }
+        // Check against the version this step left the property at, so an
+        // edit someone else made since isn't overwritten
+        const source = (
+          direction === "undo" ? change.after : change.before
+        ) as Property;
+        try {
+          await get().updateProperty({
+            ...(target as Property),
+            id,
+            updated_on: resolveHistoryVersion(id, source.updated_on),
+          });
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            throw new Error(
+              `Someone else has edited this property since, so this step can't be ${
+                direction === "undo" ? "undone" : "redone"
+              }`
+            );
+          }
+          throw error;
+        }
+        break;
+      }
+      case "person":
+        await get().updatePerson({ ...(target as Person), id });
+        break;
+      case "link":
+        await get().updateLink({
+          ...(target as Link),
+          id,
+          property_id: resolveHistoryId(
+            "property",
+            (target as Link).property_id
+          ),
+        });
+        break;
+      default:
+        throw new Error(`Edits of a ${change.entity} can't be undone`);
     }
-  } catch (error) {
-    console.error("Error loading saved person filters:", error);
+    return change;
   }
-  return defaultPersonFilters;
-};
 
-// Save filters to localStorage
-const saveFilters = (filters: FilterState) => {
-  try {
-    localStorage.setItem(CACHE_KEYS.filters, JSON.stringify(filters));
-  } catch (error) {
-    console.error("Error saving filters:", error);
+  // Undoing a create or redoing a delete removes the record again
+  if ((change.kind === "create") === (direction === "undo")) {
+    switch (change.entity) {
+      case "property":
+        await get().deleteProperty(id);
+        break;
+      case "person":
+        await get().deletePerson(id);
+        break;
+      case "connection":
+        await get().deleteConnection(id);
+        return change;
+      case "link":
+        await get().deleteLink(id);
+        return change;
+    }
+    const entry = get().trash.find(
+      (e) => e.entity === change.entity && e.record.id === id
+    );
+    return { ...change, trashEntryId: entry?.id } as HistoryChange;
   }
-};
 
-// Save person filters to localStorage
-const savePersonFilters = (filters: PersonFilterState) => {
-  try {
-    localStorage.setItem(CACHE_KEYS.personFilters, JSON.stringify(filters));
-  } catch (error) {
-    console.error("Error saving person filters:", error);
+  switch (change.entity) {
+    case "property":
+    case "person": {
+      const entry = get().trash.find((e) => e.id === change.trashEntryId);
+      if (!entry) throw new Error("The deleted record is no longer in Trash");
+      const restored = await get().restoreFromTrash(entry.id);
+      if (restored) remapHistoryId(change.entity, id, restored.id);
+      return { ...change, trashEntryId: undefined };
+    }
+    case "connection": {
+      const newId = await get().createConnection({
+        ...withoutId(change.record),
+        property_id: resolveHistoryId("property", change.record.property_id),
+        person_id: resolveHistoryId("person", change.record.person_id),
+      });
+      remapHistoryId("connection", id, newId);
+      return change;
+    }
+    case "link": {
+      const newId = await get().createLink({
+        ...withoutId(change.record),
+        property_id: resolveHistoryId("property", change.record.property_id),
+      });
+      remapHistoryId("link", id, newId);
+      return change;
+    }
   }
 };
+
+const toUserNames = (users: User[]): Record<number, string> =>
+  Object.fromEntries(
+    users.map((user) => [user.id, user.name || user.username])
+  );
+
+// When the latest price cut happened, with uncut listings sorting last
+const reducedAt = (property: Property) => {
+  const reduction = getPriceReduction(property);
+  return reduction ? Date.parse(reduction.at) : 0;
+};
+
 export const useStore = create<Store>((set, get) => ({
   // Authentication state
   isAuthenticated: authUtils.isAuthenticated(),
+  isSessionExpired: false,
+  currentUser: authUtils.getCurrentUser(),
+  isLocked: authUtils.isLocked(),
+  autoLockMinutes: authUtils.getAutoLockMinutes(),
+
+  async login(username: string, pin: string) {
+    const user = await authUtils.login(username, pin);
+    if (user) {
+      set({
+        isAuthenticated: true,
+        isSessionExpired: false,
+        isLocked: false,
+        currentUser: user,
+        pendingMutations: loadPendingMutations(user.id),
+      });
 
-  async login(pin: string) {
-    const success = await authUtils.login(pin);
-    if (success) {
-      set({ isAuthenticated: true });
+      // Changes queued while the session was expired can go out now
+      if (get().pendingMutations.length > 0) {
+        get().syncPendingMutations();
+      }
     }
-    return success;
+    return user !== null;
   },
 
   logout() {
@@ -253,10 +646,19 @@ export const useStore = create<Store>((set, get) => ({
     // Clear all app data on logout
     set({
       isAuthenticated: false,
+      isSessionExpired: false,
+      isLocked: false,
+      currentUser: null,
+      // Queued edits stay stored for this user's next sign-in
+      pendingMutations: [],
+      users: [],
+      userNames: {},
       properties: [],
       persons: [],
       connections: [],
       links: [],
+      propertyMedia: {},
+      coverThumbnails: {},
       filteredProperties: [],
       filteredPersons: [],
       selectedProperty: null,
@@ -268,25 +670,138 @@ export const useStore = create<Store>((set, get) => ({
       lastSyncTime: null,
       error: null,
     });
+    get().clearHistory();
 
     // Clear cache
-    Object.values(CACHE_KEYS).forEach((key) => {
-      localStorage.removeItem(key);
-    });
+    cacheDB.clear();
+  },
+
+  // Keep the data and the open screens; signing in again picks up where the
+  // user left off
+  expireSession() {
+    if (!get().isAuthenticated) return;
+
+    authUtils.clearSession();
+    set({ isAuthenticated: false, isSessionExpired: true, isLocked: false });
+  },
+
+  lock() {
+    if (!get().isAuthenticated) return;
+
+    authUtils.lock();
+    set({ isLocked: true });
+  },
+
+  async unlock(pin) {
+    const unlocked = await authUtils.unlock(pin);
+    if (unlocked) {
+      set({ isLocked: false });
+    }
+    return unlocked;
+  },
+
+  setAutoLockMinutes(minutes) {
+    authUtils.saveAutoLockMinutes(minutes);
+    set({ autoLockMinutes: minutes });
   },
 
   checkAuth() {
     const isAuth = authUtils.isAuthenticated();
     if (get().isAuthenticated !== isAuth) {
       if (!isAuth) {
-        // User session expired, logout
-        get().logout();
+        // User session expired, ask for the PIN again
+        get().expireSession();
       } else {
-        set({ isAuthenticated: isAuth });
+        const currentUser = authUtils.getCurrentUser();
+        set({
+          isAuthenticated: isAuth,
+          currentUser,
+          pendingMutations: loadPendingMutations(currentUser?.id),
+        });
       }
     }
   },
 
+  needsAccountSetup: () => accountAPI.needsSetup(),
+
+  // The first account on a fresh backend becomes its admin
+  async createFirstAdmin(user) {
+    if (!(await accountAPI.needsSetup())) {
+      throw new Error("Accounts are already set up - sign in instead");
+    }
+
+    await accountAPI.create({ ...user, role: "admin", disabled: false });
+    await get().login(user.username, user.pin);
+  },
+
+  // Accounts
+  users: [],
+
+  loadUsers: async () => {
+    requirePermission(get(), "manageUsers");
+    const users = await accountAPI.getAll();
+    set({ users, userNames: toUserNames(users) });
+  },
+
+  createUser: async (user) => {
+    requirePermission(get(), "manageUsers");
+    const result = await accountAPI.create(user);
+    set({
+      users: [
+        ...get().users,
+        {
+          id: result.id,
+          username: user.username,
+          name: user.name,
+          role: user.role,
+          disabled: user.disabled,
+        },
+      ],
+    });
+  },
+
+  updateUser: async (user) => {
+    requirePermission(get(), "manageUsers");
+    await accountAPI.update(user);
+    set({ users: get().users.map((u) => (u.id === user.id ? user : u)) });
+
+    if (get().currentUser?.id === user.id) {
+      authUtils.updateSessionUser(user);
+      set({ currentUser: user });
+    }
+  },
+
+  resetUserPin: async (id, pin) => {
+    requirePermission(get(), "manageUsers");
+    await accountAPI.resetPin(id, pin);
+  },
+
+  revokeUserSessions: async (id) => {
+    requirePermission(get(), "manageUsers");
+    await accountAPI.revokeSessions(id);
+  },
+
+  userNames: {},
+
+  loadUserNames: async () => {
+    try {
+      set({ userNames: toUserNames(await accountAPI.getAll()) });
+    } catch (error) {
+      // Labels fall back to "User #id"
+      console.error("Failed to load user names:", error);
+    }
+  },
+
+  getLoginAudit: () => {
+    requirePermission(get(), "manageUsers");
+    return getLoginAudit();
+  },
+
+  clearLoginAudit: () => {
+    requirePermission(get(), "manageUsers");
+    clearLoginAudit();
+  },
+
   // Initial state
   properties: [],
   persons: [],
@@ -314,8 +829,9 @@ export const useStore = create<Store>((set, get) => ({
     zoom: 12,
   },
 
-  filters: loadSavedFilters(),
-  personFilters: loadSavedPersonFilters(),
+  // Saved filters are restored from the cache database in loadFromCache
+  filters: defaultFilters,
+  personFilters: defaultPersonFilters,
 
   loadingStates: {
     creating: false,
@@ -327,26 +843,45 @@ export const useStore = create<Store>((set, get) => ({
   error: null,
   lastSyncTime: null,
 
+  isOnline: isBackendOnline(),
+  isSyncing: false,
+  pendingMutations: loadPendingMutations(authUtils.getCurrentUser()?.id),
+  dataIssues: [],
+  backendMode: getBackendMode(),
+  trash: [],
+  trashRetentionDays: getTrashRetentionDays(),
+  areaUnits: getAreaUnitPreferences(),
+  propertyMedia: {},
+  coverThumbnails: {},
+  undoStack: [],
+  redoStack: [],
+  isApplyingHistory: false,
+  lastHistoryEvent: null,
+
   // Basic setters
   setProperties: (properties) => {
+    const previous = get().properties;
     set({ properties });
-    // Cache the data
-    localStorage.setItem(CACHE_KEYS.properties, JSON.stringify(properties));
+    // Cache only the records that changed
+    cacheDB.syncTable("properties", previous, properties);
   },
 
   setPersons: (persons) => {
+    const previous = get().persons;
     set({ persons });
-    localStorage.setItem(CACHE_KEYS.persons, JSON.stringify(persons));
+    cacheDB.syncTable("persons", previous, persons);
   },
 
   setConnections: (connections) => {
+    const previous = get().connections;
     set({ connections });
-    localStorage.setItem(CACHE_KEYS.connections, JSON.stringify(connections));
+    cacheDB.syncTable("connections", previous, connections);
   },
 
   setLinks: (links) => {
+    const previous = get().links;
     set({ links });
-    localStorage.setItem(CACHE_KEYS.links, JSON.stringify(links));
+    cacheDB.syncTable("links", previous, links);
   },
 
   setFilteredProperties: (filteredProperties) => set({ filteredProperties }),
@@ -522,6 +1057,49 @@ export const useStore = create<Store>((set, get) => ({
       );
     }
 
+    // Status filter
+    if (filters.statuses.length > 0) {
+      filtered = filtered.filter((property) =>
+        filters.statuses.includes(getPropertyStatus(property))
+      );
+    }
+
+    // Documents filter
+    if (filters.requiredDocuments.length > 0) {
+      filtered = filtered.filter((property) =>
+        hasDocuments(property, filters.requiredDocuments)
+      );
+    }
+
+    // Type-specific details filter
+    if (Object.keys(filters.customFields).length > 0) {
+      filtered = filtered.filter((property) =>
+        matchesCustomFields(property, filters.customFields)
+      );
+    }
+
+    // Facing filter
+    if (filters.facings.length > 0) {
+      filtered = filtered.filter(
+        (property) =>
+          property.facing !== undefined &&
+          filters.facings.includes(property.facing)
+      );
+    }
+
+    // Road width filter
+    const { minRoadWidth } = filters;
+    if (minRoadWidth !== undefined) {
+      filtered = filtered.filter(
+        (property) => (property.road_width ?? 0) >= minRoadWidth
+      );
+    }
+
+    // Recently reduced filter
+    if (filters.recentlyReduced) {
+      filtered = filtered.filter((property) => isRecentlyReduced(property));
+    }
+
     // Price range filter - support multiple ranges
     if (filters.priceRanges.length > 0) {
       filtered = filtered.filter((property) => {
@@ -590,6 +1168,14 @@ export const useStore = create<Store>((set, get) => ({
       });
     }
 
+    // Added by filter
+    if (filters.createdBy !== undefined) {
+      const { currentUser } = get();
+      filtered = filtered.filter((property) =>
+        matchesCreator(property, filters.createdBy, currentUser)
+      );
+    }
+
     // Sorting
     filtered.sort((a, b) => {
       switch (filters.sortBy) {
@@ -603,6 +1189,8 @@ export const useStore = create<Store>((set, get) => ({
           return b.size_min - a.size_min;
         case "rating_desc":
           return (b.rating || 0) - (a.rating || 0);
+        case "reduced_recent":
+          return reducedAt(b) - reducedAt(a);
         case "oldest":
           return a.id - b.id; // Assuming lower ID means older
         case "newest":
@@ -648,6 +1236,14 @@ export const useStore = create<Store>((set, get) => ({
       });
     }
 
+    // Added by filter
+    if (personFilters.createdBy !== undefined) {
+      const { currentUser } = get();
+      filtered = filtered.filter((person) =>
+        matchesCreator(person, personFilters.createdBy, currentUser)
+      );
+    }
+
     // Sort by most recently added (assuming higher ID = newer)
     filtered.sort((a, b) => b.id - a.id);
 
@@ -659,44 +1255,63 @@ export const useStore = create<Store>((set, get) => ({
     set({ isLoadingFromCache: true, error: null });
 
     try {
-      const cachedProperties = localStorage.getItem(CACHE_KEYS.properties);
-      const cachedPersons = localStorage.getItem(CACHE_KEYS.persons);
-      const cachedConnections = localStorage.getItem(CACHE_KEYS.connections);
-      const cachedLinks = localStorage.getItem(CACHE_KEYS.links);
-      const cachedLastSync = localStorage.getItem(CACHE_KEYS.lastSync);
-
-      if (cachedProperties) {
-        const properties = JSON.parse(cachedProperties);
+      const [
+        properties,
+        persons,
+        connections,
+        links,
+        cachedLastSync,
+        cachedFilters,
+        cachedPersonFilters,
+      ] = await Promise.all([
+        cacheDB.getAll<Property>("properties"),
+        cacheDB.getAll<Person>("persons"),
+        cacheDB.getAll<Connection>("connections"),
+        cacheDB.getAll<Link>("links"),
+        cacheDB.getMeta<number>(META_KEYS.lastSync),
+        cacheDB.getMeta<Partial<FilterState>>(META_KEYS.filters),
+        cacheDB.getMeta<Partial<PersonFilterState>>(META_KEYS.personFilters),
+      ]);
+
+      if (properties.length > 0) {
         set({ properties });
         console.log("Loaded properties from cache:", properties.length);
       }
 
-      if (cachedPersons) {
-        const persons = JSON.parse(cachedPersons);
+      if (persons.length > 0) {
         set({ persons });
         console.log("Loaded persons from cache:", persons.length);
       }
 
-      if (cachedConnections) {
-        const connections = JSON.parse(cachedConnections);
+      if (connections.length > 0) {
         set({ connections });
         console.log("Loaded connections from cache:", connections.length);
       }
 
-      if (cachedLinks) {
-        const links = JSON.parse(cachedLinks);
+      if (links.length > 0) {
         set({ links });
         console.log("Loaded links from cache:", links.length);
       }
 
       if (cachedLastSync) {
-        const lastSyncTime = parseInt(cachedLastSync);
-        set({ lastSyncTime });
+        set({ lastSyncTime: cachedLastSync });
+      }
+
+      if (cachedFilters) {
+        set({ filters: normalizeSavedFilters(cachedFilters) });
+      }
+
+      if (cachedPersonFilters) {
+        set({
+          personFilters: normalizeSavedPersonFilters(cachedPersonFilters),
+        });
       }
 
       // Apply filters to cached data
       get().applyFilters();
       get().applyPersonFilters();
+
+      await get().loadTrash();
     } catch (error) {
       console.error("Error loading from cache:", error);
     } finally {
@@ -714,13 +1329,22 @@ export const useStore = create<Store>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      const properties = await propertyAPI.getAll();
+      const serverProperties = await propertyAPI.getAll();
+      const { properties } = applyPendingMutations(
+        {
+          properties: serverProperties,
+          persons: [],
+          connections: [],
+          links: [],
+        },
+        get().pendingMutations
+      );
       get().setProperties(properties);
       get().applyFilters();
       console.log("Properties loaded successfully:", properties.length);
     } catch (error) {
       console.error("Failed to load properties:", error);
-      set({ error: "Failed to load properties" });
+      set({ error: describeError(error, "Failed to load properties") });
     } finally {
       set({ isLoading: false });
     }
@@ -736,13 +1360,17 @@ export const useStore = create<Store>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      const persons = await personAPI.getAll();
+      const serverPersons = await personAPI.getAll();
+      const { persons } = applyPendingMutations(
+        { properties: [], persons: serverPersons, connections: [], links: [] },
+        get().pendingMutations
+      );
       get().setPersons(persons);
       get().applyPersonFilters();
       console.log("Persons loaded successfully:", persons.length);
     } catch (error) {
       console.error("Failed to load persons:", error);
-      set({ error: "Failed to load persons" });
+      set({ error: describeError(error, "Failed to load persons") });
     } finally {
       set({ isLoading: false });
     }
@@ -778,11 +1406,23 @@ export const useStore = create<Store>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
+      // Push queued offline edits first so the server copy includes them
+      if (get().pendingMutations.length > 0) {
+        await get().syncPendingMutations();
+      }
+
       console.log("Loading all data from API...");
+      const syncStartedAt = Date.now();
 
-      // Use the optimized endpoint that returns all data in one call
-      const { properties, persons, connections, links } =
-        await extractAllDataFromProperties();
+      // A full load re-validates everything, so start the report fresh
+      set({ dataIssues: [] });
+
+      // Use the optimized endpoint that returns all data in one call.
+      // Anything still queued is re-applied so unsynced edits stay visible.
+      const { properties, persons, connections, links } = applyPendingMutations(
+        await loadAllRecords(),
+        get().pendingMutations
+      );
 
       // Update all data at once
       get().setProperties(properties);
@@ -794,10 +1434,14 @@ export const useStore = create<Store>((set, get) => ({
       get().applyFilters();
       get().applyPersonFilters();
 
-      // Update sync time
-      const now = Date.now();
-      set({ lastSyncTime: now });
-      localStorage.setItem(CACHE_KEYS.lastSync, now.toString());
+      // Update sync time (start of the request, so nothing changed meanwhile is missed)
+      set({ lastSyncTime: syncStartedAt });
+      cacheDB.setMeta(META_KEYS.lastSync, syncStartedAt);
+
+      // Photos and change log entries queued offline can go out now their
+      // records are loaded
+      get().syncPendingMedia();
+      syncPendingChanges();
 
       console.log("All data loaded successfully:", {
         properties: properties.length,
@@ -807,19 +1451,139 @@ export const useStore = create<Store>((set, get) => ({
       });
     } catch (error) {
       console.error("Failed to load all data:", error);
-      set({ error: "Failed to load data from server" });
+      set({ error: describeError(error, "Failed to load data from server") });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  loadChanges: async () => {
+    const { isLoading, lastSyncTime } = get();
+    if (isLoading) {
+      console.log("Data already loading, skipping duplicate request");
+      return;
+    }
+    if (!lastSyncTime) {
+      throw new Error("Cannot load changes without a previous sync");
+    }
+
+    set({ isLoading: true, error: null });
+
+    try {
+      if (get().pendingMutations.length > 0) {
+        await get().syncPendingMutations();
+      }
+
+      const since = new Date(
+        lastSyncTime - SYNC_CONFIG.overlapMs
+      ).toISOString();
+      console.log("Loading changes since", since);
+      const syncStartedAt = Date.now();
+      const changes = await fetchChangesSince(since);
+
+      const { properties, persons, connections, links } = applyPendingMutations(
+        mergeChanges(
+          {
+            properties: get().properties,
+            persons: get().persons,
+            connections: get().connections,
+            links: get().links,
+          },
+          changes
+        ),
+        get().pendingMutations
+      );
+
+      get().setProperties(properties);
+      get().setPersons(persons);
+      get().setConnections(connections);
+      get().setLinks(links);
+
+      get().applyFilters();
+      get().applyPersonFilters();
+
+      // Keep the open detail panel in step with the merged data
+      const { selectedProperty, selectedPerson } = get();
+      if (selectedProperty) {
+        const fresh = properties.find((p) => p.id === selectedProperty.id);
+        set(
+          fresh
+            ? { selectedProperty: fresh }
+            : { selectedProperty: null, isPropertyDetailOpen: false }
+        );
+      }
+      if (selectedPerson) {
+        const fresh = persons.find((p) => p.id === selectedPerson.id);
+        set(
+          fresh
+            ? { selectedPerson: fresh }
+            : { selectedPerson: null, isPersonDetailOpen: false }
+        );
+      }
+
+      set({ lastSyncTime: syncStartedAt });
+      cacheDB.setMeta(META_KEYS.lastSync, syncStartedAt);
+
+      console.log("Changes loaded successfully:", {
+        properties: changes.properties.length,
+        persons: changes.persons.length,
+        connections: changes.connections.length,
+        links: changes.links.length,
+        deleted: changes.deleted,
+      });
     } finally {
       set({ isLoading: false });
     }
   },
 
-  refreshData: async () => {
+  refreshData: async (options = {}) => {
+    const { lastSyncTime, properties } = get();
+
+    // Delta sync needs a cache to merge into that isn't too stale
+    const canLoadChanges =
+      !options.full &&
+      lastSyncTime !== null &&
+      properties.length > 0 &&
+      Date.now() - lastSyncTime < SYNC_CONFIG.maxDeltaAgeMs;
+
+    if (canLoadChanges) {
+      try {
+        await get().loadChanges();
+        return;
+      } catch (error) {
+        console.warn("Delta sync failed, falling back to full sync:", error);
+      }
+    }
+
     console.log("Refreshing all data...");
     await get().loadAllData();
   },
 
   // CRUD operations
-  createProperty: async (property) => {
+  createProperty: async (unsavedProperty) => {
+    requirePermission(get(), "create");
+    const { currentUser } = get();
+    const property = withPriceChange(
+      withStatusTransition(
+        withCreator(unsavedProperty, currentUser),
+        undefined,
+        currentUser
+      ),
+      undefined,
+      currentUser
+    );
+    const queueOffline = () => {
+      const tempId = createTempId();
+      const record = { ...property, id: tempId };
+      get().queueMutation(createMutation("property", "create", tempId, record));
+      get().recordHistory({ kind: "create", entity: "property", record });
+      return tempId;
+    };
+
+    if (!isBackendOnline()) {
+      return queueOffline();
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, creating: true },
     }));
@@ -832,8 +1596,17 @@ export const useStore = create<Store>((set, get) => ({
         const updatedProperties = [...get().properties, newProperty];
         get().setProperties(updatedProperties);
         get().applyFilters();
+        get().recordHistory({
+          kind: "create",
+          entity: "property",
+          record: newProperty,
+        });
       }
+      return result.id;
     } catch (error) {
+      if (canQueueCreate(error)) {
+        return queueOffline();
+      }
       console.error("Failed to create property:", error);
       throw error;
     } finally {
@@ -843,25 +1616,96 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  updateProperty: async (property) => {
-    set((state) => ({
-      loadingStates: { ...state.loadingStates, updating: true },
-    }));
+  updateProperty: async (unsavedProperty) => {
+    requirePermission(get(), "edit");
+    const { currentUser } = get();
+    const before = get().properties.find((p) => p.id === unsavedProperty.id);
+    const property = withPriceChange(
+      withStatusTransition(
+        withUpdater(unsavedProperty, currentUser),
+        before,
+        currentUser
+      ),
+      before,
+      currentUser
+    );
+    const recordUpdate = (after: Property) => {
+      if (before) {
+        get().recordHistory({
+          kind: "update",
+          entity: "property",
+          before,
+          after,
+        });
+      }
+    };
 
-    try {
-      await propertyAPI.update(property);
+    const queueOffline = () => {
+      get().queueMutation(
+        createMutation("property", "update", property.id, property, before)
+      );
+      recordUpdate(property);
+    };
 
+    if (!isBackendOnline() || isTempId(property.id)) {
+      queueOffline();
+      return;
+    }
+
+    const applySaved = (saved: Property) => {
       const updatedProperties = get().properties.map((p) =>
-        p.id === property.id ? property : p
+        p.id === property.id ? saved : p
       );
       get().setProperties(updatedProperties);
       get().applyFilters();
+      advanceHistoryVersion(property.id, property.updated_on, saved.updated_on);
 
       // Update selected property if it's the one being updated
       if (get().selectedProperty?.id === property.id) {
-        set({ selectedProperty: property });
+        set({ selectedProperty: saved });
       }
+      recordUpdate(saved);
+      // Queued edits are logged when the sync gets them to the server
+      if (before) {
+        recordFieldChanges("property", before, saved, get().currentUser?.id);
+      }
+    };
+
+    set((state) => ({
+      loadingStates: { ...state.loadingStates, updating: true },
+    }));
+
+    try {
+      const result = await propertyAPI.update(property);
+      // Keep the new version so the next edit is checked against it
+      applySaved({
+        ...property,
+        updated_on: result.updated_on ?? property.updated_on,
+      });
     } catch (error) {
+      // Edit conflicts go back to the form for a merge
+      if (error instanceof ConflictError) throw error;
+      if (error instanceof TimeoutError) {
+        // The server may have saved it before timing out, and replaying it
+        // from the outbox would then clash with this very edit. Look at the
+        // stored copy instead of queuing.
+        const current = await propertyAPI.getById(property.id).then(
+          (details) => details.property,
+          () => null
+        );
+        if (current && diffFields("property", current, property).length === 0) {
+          applySaved(current);
+          return;
+        }
+        if (current && current.updated_on !== property.updated_on) {
+          throw new ConflictError(current);
+        }
+        throw error;
+      }
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to update property:", error);
       throw error;
     } finally {
@@ -872,12 +1716,49 @@ export const useStore = create<Store>((set, get) => ({
   },
 
   deleteProperty: async (id) => {
+    requirePermission(get(), "delete");
+    // The backend keeps the record in Trash so the delete can be undone. A
+    // property that was never uploaded just has its queued create cancelled.
+    const property = get().properties.find((p) => p.id === id);
+    const trashEntry =
+      property && !isTempId(id)
+        ? createTrashEntry(
+            "property",
+            { ...property, deleted_at: new Date().toISOString() },
+            get().connections.filter((c) => c.property_id === id),
+            get().links.filter((l) => l.property_id === id)
+          )
+        : null;
+    const moveToTrash = () => {
+      if (property && trashEntry) {
+        get().addToTrash(trashEntry);
+        get().recordHistory({
+          kind: "delete",
+          entity: "property",
+          record: property,
+          trashEntryId: trashEntry.id,
+        });
+      }
+    };
+
+    const queueOffline = () => {
+      get().queueMutation(createMutation("property", "delete", id));
+      moveToTrash();
+    };
+
+    if (!isBackendOnline() || isTempId(id)) {
+      queueOffline();
+      return;
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, deleting: true },
     }));
 
     try {
-      await propertyAPI.delete(id);
+      // Marked deleted on the backend; connections and links stay for a restore
+      await trashAPI.remove("property", id);
+      moveToTrash();
 
       // Remove from properties
       const updatedProperties = get().properties.filter((p) => p.id !== id);
@@ -899,6 +1780,10 @@ export const useStore = create<Store>((set, get) => ({
         set({ selectedProperty: null, isPropertyDetailOpen: false });
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to delete property:", error);
       throw error;
     } finally {
@@ -908,7 +1793,21 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  createPerson: async (person) => {
+  createPerson: async (unsavedPerson) => {
+    requirePermission(get(), "create");
+    const person = withCreator(unsavedPerson, get().currentUser);
+    const queueOffline = () => {
+      const tempId = createTempId();
+      const record = { ...person, id: tempId };
+      get().queueMutation(createMutation("person", "create", tempId, record));
+      get().recordHistory({ kind: "create", entity: "person", record });
+      return tempId;
+    };
+
+    if (!isBackendOnline()) {
+      return queueOffline();
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, creating: true },
     }));
@@ -921,8 +1820,17 @@ export const useStore = create<Store>((set, get) => ({
         const updatedPersons = [...get().persons, newPerson];
         get().setPersons(updatedPersons);
         get().applyPersonFilters();
+        get().recordHistory({
+          kind: "create",
+          entity: "person",
+          record: newPerson,
+        });
       }
+      return result.id;
     } catch (error) {
+      if (canQueueCreate(error)) {
+        return queueOffline();
+      }
       console.error("Failed to create person:", error);
       throw error;
     } finally {
@@ -932,7 +1840,33 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  updatePerson: async (person) => {
+  updatePerson: async (unsavedPerson) => {
+    requirePermission(get(), "edit");
+    const person = withUpdater(unsavedPerson, get().currentUser);
+    const before = get().persons.find((p) => p.id === person.id);
+    const recordUpdate = () => {
+      if (before) {
+        get().recordHistory({
+          kind: "update",
+          entity: "person",
+          before,
+          after: person,
+        });
+      }
+    };
+
+    const queueOffline = () => {
+      get().queueMutation(
+        createMutation("person", "update", person.id, person, before)
+      );
+      recordUpdate();
+    };
+
+    if (!isBackendOnline() || isTempId(person.id)) {
+      queueOffline();
+      return;
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, updating: true },
     }));
@@ -950,7 +1884,16 @@ export const useStore = create<Store>((set, get) => ({
       if (get().selectedPerson?.id === person.id) {
         set({ selectedPerson: person });
       }
+      recordUpdate();
+      // Queued edits are logged when the sync gets them to the server
+      if (before) {
+        recordFieldChanges("person", before, person, get().currentUser?.id);
+      }
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to update person:", error);
       throw error;
     } finally {
@@ -961,12 +1904,49 @@ export const useStore = create<Store>((set, get) => ({
   },
 
   deletePerson: async (id) => {
+    requirePermission(get(), "delete");
+    // The backend keeps the record in Trash so the delete can be undone. A
+    // person who was never uploaded just has their queued create cancelled.
+    const person = get().persons.find((p) => p.id === id);
+    const trashEntry =
+      person && !isTempId(id)
+        ? createTrashEntry(
+            "person",
+            { ...person, deleted_at: new Date().toISOString() },
+            get().connections.filter((c) => c.person_id === id),
+            []
+          )
+        : null;
+    const moveToTrash = () => {
+      if (person && trashEntry) {
+        get().addToTrash(trashEntry);
+        get().recordHistory({
+          kind: "delete",
+          entity: "person",
+          record: person,
+          trashEntryId: trashEntry.id,
+        });
+      }
+    };
+
+    const queueOffline = () => {
+      get().queueMutation(createMutation("person", "delete", id));
+      moveToTrash();
+    };
+
+    if (!isBackendOnline() || isTempId(id)) {
+      queueOffline();
+      return;
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, deleting: true },
     }));
 
     try {
-      await personAPI.delete(id);
+      // Marked deleted on the backend; connections stay for a restore
+      await trashAPI.remove("person", id);
+      moveToTrash();
 
       // Remove from persons
       const updatedPersons = get().persons.filter((p) => p.id !== id);
@@ -984,6 +1964,10 @@ export const useStore = create<Store>((set, get) => ({
         set({ selectedPerson: null, isPersonDetailOpen: false });
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to delete person:", error);
       throw error;
     } finally {
@@ -993,7 +1977,28 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  createConnection: async (connection) => {
+  createConnection: async (unsavedConnection) => {
+    requirePermission(get(), "create");
+    const connection = withCreator(unsavedConnection, get().currentUser);
+    const queueOffline = () => {
+      const tempId = createTempId();
+      const record = { ...connection, id: tempId };
+      get().queueMutation(
+        createMutation("connection", "create", tempId, record)
+      );
+      get().recordHistory({ kind: "create", entity: "connection", record });
+      return tempId;
+    };
+
+    // Connections to records that only exist locally must wait for them to sync
+    if (
+      !isBackendOnline() ||
+      isTempId(connection.property_id) ||
+      isTempId(connection.person_id)
+    ) {
+      return queueOffline();
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, creating: true },
     }));
@@ -1005,8 +2010,17 @@ export const useStore = create<Store>((set, get) => ({
         const newConnection = { ...connection, id: result.id };
         const updatedConnections = [...get().connections, newConnection];
         get().setConnections(updatedConnections);
+        get().recordHistory({
+          kind: "create",
+          entity: "connection",
+          record: newConnection,
+        });
       }
+      return result.id;
     } catch (error) {
+      if (canQueueCreate(error)) {
+        return queueOffline();
+      }
       console.error("Failed to create connection:", error);
       throw error;
     } finally {
@@ -1017,6 +2031,28 @@ export const useStore = create<Store>((set, get) => ({
   },
 
   deleteConnection: async (id) => {
+    requirePermission(get(), "delete");
+    const connection = get().connections.find((c) => c.id === id);
+    const recordDelete = () => {
+      if (connection) {
+        get().recordHistory({
+          kind: "delete",
+          entity: "connection",
+          record: connection,
+        });
+      }
+    };
+
+    const queueOffline = () => {
+      get().queueMutation(createMutation("connection", "delete", id));
+      recordDelete();
+    };
+
+    if (!isBackendOnline() || isTempId(id)) {
+      queueOffline();
+      return;
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, deleting: true },
     }));
@@ -1026,7 +2062,12 @@ export const useStore = create<Store>((set, get) => ({
 
       const updatedConnections = get().connections.filter((c) => c.id !== id);
       get().setConnections(updatedConnections);
+      recordDelete();
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to delete connection:", error);
       throw error;
     } finally {
@@ -1036,7 +2077,21 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  createLink: async (link) => {
+  createLink: async (unsavedLink) => {
+    requirePermission(get(), "create");
+    const link = withCreator(unsavedLink, get().currentUser);
+    const queueOffline = () => {
+      const tempId = createTempId();
+      const record = { ...link, id: tempId };
+      get().queueMutation(createMutation("link", "create", tempId, record));
+      get().recordHistory({ kind: "create", entity: "link", record });
+      return tempId;
+    };
+
+    if (!isBackendOnline() || isTempId(link.property_id)) {
+      return queueOffline();
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, creating: true },
     }));
@@ -1048,8 +2103,17 @@ export const useStore = create<Store>((set, get) => ({
         const newLink = { ...link, id: result.id };
         const updatedLinks = [...get().links, newLink];
         get().setLinks(updatedLinks);
+        get().recordHistory({
+          kind: "create",
+          entity: "link",
+          record: newLink,
+        });
       }
+      return result.id;
     } catch (error) {
+      if (canQueueCreate(error)) {
+        return queueOffline();
+      }
       console.error("Failed to create link:", error);
       throw error;
     } finally {
@@ -1059,7 +2123,31 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  updateLink: async (link) => {
+  updateLink: async (unsavedLink) => {
+    requirePermission(get(), "edit");
+    const link = withUpdater(unsavedLink, get().currentUser);
+    const before = get().links.find((l) => l.id === link.id);
+    const recordUpdate = () => {
+      if (before) {
+        get().recordHistory({
+          kind: "update",
+          entity: "link",
+          before,
+          after: link,
+        });
+      }
+    };
+
+    const queueOffline = () => {
+      get().queueMutation(createMutation("link", "update", link.id, link));
+      recordUpdate();
+    };
+
+    if (!isBackendOnline() || isTempId(link.id)) {
+      queueOffline();
+      return;
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, updating: true },
     }));
@@ -1071,7 +2159,12 @@ export const useStore = create<Store>((set, get) => ({
         l.id === link.id ? link : l
       );
       get().setLinks(updatedLinks);
+      recordUpdate();
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to update link:", error);
       throw error;
     } finally {
@@ -1082,6 +2175,24 @@ export const useStore = create<Store>((set, get) => ({
   },
 
   deleteLink: async (id) => {
+    requirePermission(get(), "delete");
+    const link = get().links.find((l) => l.id === id);
+    const recordDelete = () => {
+      if (link) {
+        get().recordHistory({ kind: "delete", entity: "link", record: link });
+      }
+    };
+
+    const queueOffline = () => {
+      get().queueMutation(createMutation("link", "delete", id));
+      recordDelete();
+    };
+
+    if (!isBackendOnline() || isTempId(id)) {
+      queueOffline();
+      return;
+    }
+
     set((state) => ({
       loadingStates: { ...state.loadingStates, deleting: true },
     }));
@@ -1091,7 +2202,12 @@ export const useStore = create<Store>((set, get) => ({
 
       const updatedLinks = get().links.filter((l) => l.id !== id);
       get().setLinks(updatedLinks);
+      recordDelete();
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline();
+        return;
+      }
       console.error("Failed to delete link:", error);
       throw error;
     } finally {
@@ -1101,8 +2217,856 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
+  // Offline outbox
+  setOnlineStatus: (isOnline) => {
+    set({ isOnline });
+    if (isOnline) {
+      get()
+        .syncPendingMutations()
+        .then(() => get().syncPendingMedia())
+        .then(() => syncPendingChanges());
+    }
+  },
+
+  queueMutation: (mutation) => {
+    const pendingMutations = enqueueMutation(get().pendingMutations, mutation);
+    savePendingMutations(get().currentUser?.id, pendingMutations);
+    set({ pendingMutations });
+
+    // Apply the change optimistically so the UI reflects it right away
+    const { properties, persons, connections, links } = get();
+    const next = applyMutation(
+      { properties, persons, connections, links },
+      mutation
+    );
+    get().setProperties(next.properties);
+    get().setPersons(next.persons);
+    get().setConnections(next.connections);
+    get().setLinks(next.links);
+    get().applyFilters();
+    get().applyPersonFilters();
+
+    const { selectedProperty, selectedPerson } = get();
+    if (
+      mutation.entity === "property" &&
+      selectedProperty?.id === mutation.recordId
+    ) {
+      set(
+        mutation.action === "delete"
+          ? { selectedProperty: null, isPropertyDetailOpen: false }
+          : { selectedProperty: mutation.data as Property }
+      );
+    }
+    if (
+      mutation.entity === "person" &&
+      selectedPerson?.id === mutation.recordId
+    ) {
+      set(
+        mutation.action === "delete"
+          ? { selectedPerson: null, isPersonDetailOpen: false }
+          : { selectedPerson: mutation.data as Person }
+      );
+    }
+
+    console.log(
+      `Queued offline ${mutation.action} for ${mutation.entity} ${mutation.recordId}`
+    );
+  },
+
+  syncPendingMutations: async () => {
+    if (get().isSyncing || !isBackendOnline()) return;
+    if (!nextReplayable(get().pendingMutations)) return;
+
+    set({ isSyncing: true });
+    console.log("Syncing pending mutations:", get().pendingMutations.length);
+    const userId = get().currentUser?.id;
+
+    try {
+      // Replay strictly in order so creates land before dependent edits
+      for (
+        let next = nextReplayable(get().pendingMutations);
+        next;
+        next = nextReplayable(get().pendingMutations)
+      ) {
+        const mutation = next;
+
+        try {
+          const { serverId, updatedOn } = await replayMutation(mutation);
+          if (get().currentUser?.id !== userId) {
+            // Signed out while this was sending; keep the queue left for
+            // that user in step and stop
+            let stored = loadPendingMutations(userId).filter(
+              (m) => m.id !== mutation.id
+            );
+            if (mutation.action === "create" && serverId !== undefined) {
+              stored = remapPendingMutations(
+                stored,
+                mutation.entity,
+                mutation.recordId,
+                serverId
+              );
+            }
+            savePendingMutations(userId, stored);
+            break;
+          }
+
+          if (
+            mutation.action === "update" &&
+            mutation.base &&
+            (mutation.entity === "property" || mutation.entity === "person")
+          ) {
+            // Logged now that the server has the edit, as of when it was made
+            recordFieldChanges(
+              mutation.entity,
+              mutation.base,
+              mutation.data as Property | Person,
+              userId,
+              mutation.createdAt
+            );
+          }
+
+          let remaining = get().pendingMutations.filter(
+            (m) => m.id !== mutation.id
+          );
+
+          if (mutation.entity === "property" && updatedOn) {
+            advanceHistoryVersion(
+              mutation.recordId,
+              (mutation.data as Property).updated_on,
+              updatedOn
+            );
+            remaining = advancePropertyVersion(
+              remaining,
+              mutation.recordId,
+              updatedOn
+            );
+            get().setProperties(
+              get().properties.map((p) =>
+                p.id === mutation.recordId ? { ...p, updated_on: updatedOn } : p
+              )
+            );
+          }
+
+          if (mutation.action === "create" && serverId !== undefined) {
+            const tempId = mutation.recordId;
+            remapHistoryId(mutation.entity, tempId, serverId);
+            if (
+              mutation.entity === "property" ||
+              mutation.entity === "person"
+            ) {
+              cacheDB.remapChanges(mutation.entity, tempId, serverId);
+            }
+            if (mutation.entity === "property") {
+              await cacheDB.remapPendingMedia(tempId, serverId);
+              const { [tempId]: media, ...propertyMedia } = get().propertyMedia;
+              if (media) {
+                set({
+                  propertyMedia: {
+                    ...propertyMedia,
+                    [serverId]: media.map((m) => ({
+                      ...m,
+                      property_id: serverId,
+                    })),
+                  },
+                });
+              }
+            }
+            remaining = remapPendingMutations(
+              remaining,
+              mutation.entity,
+              tempId,
+              serverId
+            );
+
+            const { properties, persons, connections, links } = get();
+            const remapped = remapOutboxData(
+              { properties, persons, connections, links },
+              mutation.entity,
+              tempId,
+              serverId
+            );
+            get().setProperties(remapped.properties);
+            get().setPersons(remapped.persons);
+            get().setConnections(remapped.connections);
+            get().setLinks(remapped.links);
+
+            const { selectedProperty, selectedPerson } = get();
+            if (
+              mutation.entity === "property" &&
+              selectedProperty?.id === tempId
+            ) {
+              set({ selectedProperty: { ...selectedProperty, id: serverId } });
+            }
+            if (mutation.entity === "person" && selectedPerson?.id === tempId) {
+              set({ selectedPerson: { ...selectedPerson, id: serverId } });
+            }
+          }
+
+          savePendingMutations(get().currentUser?.id, remaining);
+          set({ pendingMutations: remaining });
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+
+          if (mutation.action === "create" && error instanceof TimeoutError) {
+            // The server may have saved it before timing out; sending it
+            // again could add a duplicate, so leave the call to the user
+            const pendingMutations = get().pendingMutations.map((m) =>
+              m.id === mutation.id
+                ? {
+                    ...m,
+                    attempts: m.attempts + 1,
+                    lastError: `${message} - it may have been saved, check before trying again`,
+                    failed: true,
+                  }
+                : m
+            );
+            savePendingMutations(get().currentUser?.id, pendingMutations);
+            set({ pendingMutations });
+            continue;
+          }
+
+          if (isNetworkError(error) || error instanceof SessionExpiredError) {
+            // Offline or signed out - nothing will get through, so keep the
+            // whole queue and try again later
+            const pendingMutations = get().pendingMutations.map((m) =>
+              m.id === mutation.id
+                ? { ...m, attempts: m.attempts + 1, lastError: message }
+                : m
+            );
+            savePendingMutations(get().currentUser?.id, pendingMutations);
+            set({ pendingMutations });
+            break;
+          }
+
+          if (isRetryableError(error)) {
+            // A server failure may be temporary; after too many attempts the
+            // mutation is set aside so it doesn't hold up the rest
+            const attempts = mutation.attempts + 1;
+            const failed = attempts >= OUTBOX_CONFIG.maxAttempts;
+            const pendingMutations = get().pendingMutations.map((m) =>
+              m.id === mutation.id
+                ? { ...m, attempts, lastError: message, failed }
+                : m
+            );
+            savePendingMutations(get().currentUser?.id, pendingMutations);
+            set({ pendingMutations });
+            if (!failed) break;
+            console.error("Giving up on queued change:", mutation, error);
+            continue;
+          }
+
+          if (
+            error instanceof ConflictError &&
+            mutation.entity === "property" &&
+            mutation.action === "update"
+          ) {
+            // Someone else saved the property meanwhile; hold the edits for a
+            // merge and show their copy until then
+            const current = error.current as Property;
+            const pendingMutations = markConflict(
+              get().pendingMutations,
+              mutation.id,
+              current,
+              message
+            );
+            savePendingMutations(get().currentUser?.id, pendingMutations);
+            set({ pendingMutations });
+            get().setProperties(
+              get().properties.map((p) => (p.id === current.id ? current : p))
+            );
+            if (get().selectedProperty?.id === current.id) {
+              set({ selectedProperty: current });
+            }
+            continue;
+          }
+
+          // The server rejected the change; drop it so the queue can move on
+          console.error("Queued change rejected by server:", mutation, error);
+          const remaining = get().pendingMutations.filter(
+            (m) => m.id !== mutation.id
+          );
+          savePendingMutations(get().currentUser?.id, remaining);
+          set({
+            pendingMutations: remaining,
+            error: `An offline ${mutation.action} of a ${mutation.entity} was rejected: ${message}`,
+          });
+        }
+      }
+    } finally {
+      set({ isSyncing: false });
+      get().applyFilters();
+      get().applyPersonFilters();
+    }
+  },
+
+  // Give changes set aside after repeated server errors another go
+  retryFailedMutations: async () => {
+    const pendingMutations = get().pendingMutations.map((m) =>
+      m.failed ? { ...m, failed: false, attempts: 0 } : m
+    );
+    savePendingMutations(get().currentUser?.id, pendingMutations);
+    set({ pendingMutations });
+    await get().syncPendingMutations();
+  },
+
+  // Save the merge of a held offline update. Its later queued updates were
+  // part of the merge, so they are dropped along with it.
+  resolveSyncConflict: async (mutationId, merged) => {
+    const mutation = get().pendingMutations.find((m) => m.id === mutationId);
+    if (!mutation?.conflict) return;
+
+    const remaining = get().pendingMutations.filter(
+      (m) =>
+        !(
+          m.entity === "property" &&
+          m.action === "update" &&
+          m.recordId === mutation.recordId
+        )
+    );
+    savePendingMutations(get().currentUser?.id, remaining);
+    set({ pendingMutations: remaining });
+
+    try {
+      await get().updateProperty(merged);
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      // Saved again meanwhile; hold the merge against the newer copy
+      const current = error.current as Property;
+      const pendingMutations = [
+        ...get().pendingMutations,
+        {
+          ...createMutation(
+            "property",
+            "update",
+            merged.id,
+            merged,
+            mutation.conflict
+          ),
+          lastError: error.message,
+          conflict: current,
+        },
+      ];
+      savePendingMutations(get().currentUser?.id, pendingMutations);
+      set({ pendingMutations });
+      get().setProperties(
+        get().properties.map((p) => (p.id === current.id ? current : p))
+      );
+      if (get().selectedProperty?.id === current.id) {
+        set({ selectedProperty: current });
+      }
+    } finally {
+      get().applyFilters();
+      // Anything parked behind the conflict can go out now
+      get().syncPendingMutations();
+    }
+  },
+
+  isPendingSync: (entity, id) =>
+    hasPendingChanges(get().pendingMutations, entity, id),
+
+  // Data quality actions
+  reportDataIssues: (issues) => {
+    // The same bad field can be reported by several loads; keep one entry each
+    const key = (issue: ValidationIssue) =>
+      `${issue.table}:${issue.recordId}:${issue.field}`;
+    const merged = new Map(get().dataIssues.map((i) => [key(i), i]));
+    issues.forEach((issue) => merged.set(key(issue), issue));
+    set({ dataIssues: Array.from(merged.values()) });
+  },
+
+  clearDataIssues: () => set({ dataIssues: [] }),
+
+  // Trash actions
+  loadTrash: async () => {
+    const { trashRetentionDays } = get();
+    let entries: TrashEntry[];
+    if (isBackendOnline()) {
+      try {
+        entries = await trashAPI.getAll();
+        await cacheDB.replaceTrash(entries);
+      } catch (error) {
+        console.error("Failed to load trash:", error);
+        entries = await cacheDB.getTrash();
+      }
+    } else {
+      entries = await cacheDB.getTrash();
+    }
+
+    // Purge anything past the retention period, when this user may
+    let expired: TrashEntry[] = [];
+    if (isBackendOnline() && get().can("delete")) {
+      expired = entries.filter((e) =>
+        isTrashEntryExpired(e, trashRetentionDays)
+      );
+    }
+    if (expired.length > 0) {
+      console.log("Purging expired trash entries:", expired.length);
+      const results = await Promise.allSettled(
+        expired.map((e) => trashAPI.purge(e.entity, e.record.id))
+      );
+      expired = expired.filter((_, i) => results[i].status === "fulfilled");
+      await cacheDB.deleteTrashEntries(expired.map((e) => e.id));
+    }
+
+    set({
+      trash: entries
+        .filter((e) => !expired.includes(e))
+        .sort((a, b) => b.deletedAt - a.deletedAt),
+    });
+  },
+
+  addToTrash: (entry) => {
+    set({ trash: [entry, ...get().trash] });
+    cacheDB.putTrashEntry(entry);
+  },
+
+  restoreFromTrash: async (entryId) => {
+    requirePermission(get(), "delete");
+    const entry = get().trash.find((e) => e.id === entryId);
+    if (!entry) return null;
+
+    if (!isBackendOnline()) {
+      throw new Error("Restoring from Trash needs a connection to the server");
+    }
+
+    set((state) => ({
+      loadingStates: { ...state.loadingStates, creating: true },
+    }));
+
+    try {
+      // Clearing deleted_at brings the record back under the same id, with
+      // the connections and links it kept while in Trash
+      await trashAPI.restore(entry.entity, entry.record.id);
+      const record = { ...entry.record };
+      delete record.deleted_at;
+
+      const { properties, persons, connections, links } = get();
+      const propertyIds = new Set(properties.map((p) => p.id));
+      const personIds = new Set(persons.map((p) => p.id));
+      const connectionIds = new Set(connections.map((c) => c.id));
+      const linkIds = new Set(links.map((l) => l.id));
+      if (entry.entity === "property") {
+        get().setProperties([...properties, record as Property]);
+        propertyIds.add(record.id);
+      } else {
+        get().setPersons([...persons, record as Person]);
+        personIds.add(record.id);
+      }
+      // Skip connections whose other end is itself in Trash
+      get().setConnections([
+        ...connections,
+        ...entry.connections.filter(
+          (c) =>
+            !connectionIds.has(c.id) &&
+            propertyIds.has(c.property_id) &&
+            personIds.has(c.person_id)
+        ),
+      ]);
+      get().setLinks([
+        ...links,
+        ...entry.links.filter((l) => !linkIds.has(l.id)),
+      ]);
+      get().applyFilters();
+      get().applyPersonFilters();
+
+      set({ trash: get().trash.filter((e) => e.id !== entryId) });
+      await cacheDB.deleteTrashEntries([entryId]);
+      return record;
+    } catch (error) {
+      console.error("Failed to restore from trash:", error);
+      throw error;
+    } finally {
+      set((state) => ({
+        loadingStates: { ...state.loadingStates, creating: false },
+      }));
+    }
+  },
+
+  purgeFromTrash: async (entryId) => {
+    requirePermission(get(), "delete");
+    const entry = get().trash.find((e) => e.id === entryId);
+    if (!entry) return;
+
+    if (!isBackendOnline()) {
+      throw new Error("Deleting from Trash needs a connection to the server");
+    }
+
+    // Removes the record with its connections, links and photos for good
+    await trashAPI.purge(entry.entity, entry.record.id);
+    set({ trash: get().trash.filter((e) => e.id !== entryId) });
+    await cacheDB.deleteTrashEntries([entryId]);
+  },
+
+  setTrashRetentionDays: (days) => {
+    saveTrashRetentionDays(days);
+    set({ trashRetentionDays: days });
+    get().loadTrash();
+  },
+
+  setAreaUnit: (type, unit) => {
+    const areaUnits = { ...get().areaUnits, [type]: unit };
+    saveAreaUnitPreferences(areaUnits);
+    set({ areaUnits });
+  },
+
+  // Photo actions
+  loadPropertyMedia: async (propertyId) => {
+    const pending = (await cacheDB.getPendingMedia()).filter(
+      (media) => media.property_id === propertyId
+    );
+    let saved = (get().propertyMedia[propertyId] ?? []).filter(
+      (media) => !isTempId(media.id)
+    );
+
+    if (isBackendOnline() && !isTempId(propertyId)) {
+      try {
+        saved = await mediaAPI.getByPropertyId(propertyId);
+      } catch (error) {
+        // Keep showing what was loaded before
+        console.error("Failed to load photos:", error);
+      }
+    }
+
+    set((state) => ({
+      propertyMedia: {
+        ...state.propertyMedia,
+        [propertyId]: [...saved, ...pending],
+      },
+    }));
+  },
+
+  addPropertyMedia: async (propertyId, files, caption) => {
+    requirePermission(get(), "edit");
+    const { currentUser } = get();
+    const added: PropertyMedia[] = [];
+
+    // One at a time, so a phone isn't decoding several large photos at once
+    for (const file of files) {
+      const unsavedMedia: Omit<PropertyMedia, "id"> = {
+        property_id: propertyId,
+        ...(await processPhoto(file)),
+        created_at: new Date().toISOString(),
+      };
+      if (caption) unsavedMedia.caption = caption;
+      if (currentUser) unsavedMedia.created_by = currentUser.id;
+
+      const queueOffline = async () => {
+        const pending = { ...unsavedMedia, id: createTempId() };
+        await cacheDB.putPendingMedia(pending);
+        return pending;
+      };
+
+      let media: PropertyMedia;
+      if (!isBackendOnline() || isTempId(propertyId)) {
+        media = await queueOffline();
+      } else {
+        try {
+          const result = await mediaAPI.create(unsavedMedia);
+          media = { ...unsavedMedia, id: result.id };
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            console.error("Failed to upload photo:", error);
+            throw error;
+          }
+          media = await queueOffline();
+        }
+      }
+
+      set((state) => ({
+        propertyMedia: {
+          ...state.propertyMedia,
+          [propertyId]: [...(state.propertyMedia[propertyId] ?? []), media],
+        },
+      }));
+
+      added.push(media);
+
+      // The first photo becomes the cover
+      const property = get().properties.find((p) => p.id === propertyId);
+      if (property && !property.cover_media_id && !caption) {
+        await get().setCoverMedia(media);
+      }
+    }
+
+    return added;
+  },
+
+  deletePropertyMedia: async (media) => {
+    requirePermission(get(), "edit");
+
+    if (isTempId(media.id)) {
+      await cacheDB.deletePendingMedia(media.id);
+    } else {
+      try {
+        await mediaAPI.delete(media.id);
+      } catch (error) {
+        console.error("Failed to delete photo:", error);
+        throw error;
+      }
+    }
+
+    const remaining = (get().propertyMedia[media.property_id] ?? []).filter(
+      (m) => m.id !== media.id
+    );
+    set((state) => ({
+      propertyMedia: { ...state.propertyMedia, [media.property_id]: remaining },
+    }));
+
+    // Hand the cover to the next photo, or clear it
+    const property = get().properties.find((p) => p.id === media.property_id);
+    if (property?.cover_media_id === media.id) {
+      const [next] = remaining;
+      if (next) {
+        set((state) => ({
+          coverThumbnails: {
+            ...state.coverThumbnails,
+            [next.id]: next.thumbnail,
+          },
+        }));
+      }
+      await get().updateProperty({ ...property, cover_media_id: next?.id });
+    }
+  },
+
+  setCoverMedia: async (media) => {
+    const property = get().properties.find((p) => p.id === media.property_id);
+    if (!property) throw new Error("This property no longer exists");
+    set((state) => ({
+      coverThumbnails: {
+        ...state.coverThumbnails,
+        [media.id]: media.thumbnail,
+      },
+    }));
+    await get().updateProperty({ ...property, cover_media_id: media.id });
+  },
+
+  // Covers are fetched on demand so property loads stay free of image data
+  loadCoverThumbnail: async (mediaId) => {
+    if (mediaId in get().coverThumbnails) return;
+    set((state) => ({
+      coverThumbnails: { ...state.coverThumbnails, [mediaId]: "" },
+    }));
+
+    let thumbnail = Object.values(get().propertyMedia)
+      .flat()
+      .find((media) => media.id === mediaId)?.thumbnail;
+    try {
+      if (!thumbnail && isTempId(mediaId)) {
+        thumbnail = (await cacheDB.getPendingMedia()).find(
+          (media) => media.id === mediaId
+        )?.thumbnail;
+      } else if (!thumbnail && isBackendOnline()) {
+        thumbnail = await mediaAPI.getThumbnail(mediaId);
+      }
+    } catch (error) {
+      console.error("Failed to load cover photo:", error);
+    }
+
+    if (thumbnail) {
+      set((state) => ({
+        coverThumbnails: { ...state.coverThumbnails, [mediaId]: thumbnail! },
+      }));
+    }
+  },
+
+  syncPendingMedia: async () => {
+    if (!isBackendOnline()) return;
+
+    // Photos of properties still waiting for their own create stay queued
+    const pending = (await cacheDB.getPendingMedia()).filter(
+      (media) => !isTempId(media.property_id)
+    );
+
+    for (const media of pending) {
+      const { id: tempId, ...unsavedMedia } = media;
+      let saved: PropertyMedia;
+      try {
+        const result = await mediaAPI.create(unsavedMedia);
+        await cacheDB.deletePendingMedia(tempId);
+        saved = { ...media, id: result.id };
+      } catch (error) {
+        if (
+          isNetworkError(error) ||
+          isRetryableError(error) ||
+          error instanceof SessionExpiredError
+        ) {
+          break;
+        }
+
+        // The server rejected the photo; drop it so the rest can go out
+        console.error("Queued photo rejected by server:", media, error);
+        await cacheDB.deletePendingMedia(tempId);
+        set({
+          error: `An offline photo was rejected: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+        continue;
+      }
+
+      set((state) => ({
+        coverThumbnails: {
+          ...state.coverThumbnails,
+          [saved.id]: saved.thumbnail,
+        },
+        propertyMedia: {
+          ...state.propertyMedia,
+          [media.property_id]: (
+            state.propertyMedia[media.property_id] ?? []
+          ).map((m) => (m.id === tempId ? saved : m)),
+        },
+      }));
+
+      const property = get().properties.find((p) => p.id === media.property_id);
+      if (property?.cover_media_id !== tempId) continue;
+
+      try {
+        await get().updateProperty({ ...property, cover_media_id: saved.id });
+      } catch (error) {
+        // The photo is saved either way; only the cover choice didn't stick
+        console.error("Failed to set queued photo as cover:", error);
+        set({
+          error: describeError(
+            error,
+            "An offline photo was saved but couldn't be made the cover - set it again from the property's photos"
+          ),
+        });
+      }
+    }
+  },
+
+  // History actions
+  recordHistory: (change) => {
+    // Undo and redo run through the same actions and must not record themselves
+    if (get().isApplyingHistory) return;
+
+    const entry = createHistoryEntry(change);
+    set({
+      undoStack: pushHistoryEntry(get().undoStack, entry),
+      redoStack: [],
+      lastHistoryEvent: {
+        type: "recorded",
+        label: entry.label,
+        at: entry.createdAt,
+      },
+    });
+  },
+
+  // Only while the field still holds what the change left, so a later edit
+  // of it isn't overwritten
+  revertField: async (entity, recordId, change) => {
+    const current =
+      entity === "property"
+        ? get().properties.find((p) => p.id === recordId)
+        : get().persons.find((p) => p.id === recordId);
+    if (!current) throw new Error(`This ${entity} no longer exists`);
+    if (!isCurrentValue(current, change)) {
+      throw new Error(
+        `${getFieldLabel(entity, change.field)} has been changed again since, so this change can't be reverted`
+      );
+    }
+
+    if (entity === "property") {
+      await get().updateProperty({
+        ...(current as Property),
+        [change.field]: change.before,
+      });
+    } else {
+      await get().updatePerson({
+        ...(current as Person),
+        [change.field]: change.before,
+      });
+    }
+  },
+
+  undo: async () => {
+    const { undoStack, isApplyingHistory } = get();
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || isApplyingHistory) return;
+
+    set({ isApplyingHistory: true });
+    try {
+      const change = await applyHistoryChange(get, entry.change, "undo");
+      set({
+        undoStack: get().undoStack.filter((e) => e.id !== entry.id),
+        redoStack: pushHistoryEntry(get().redoStack, { ...entry, change }),
+        lastHistoryEvent: {
+          type: "undone",
+          label: entry.label,
+          at: Date.now(),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to undo:", error);
+      // Keep the step for a retry once back online; otherwise it can't be
+      // applied anymore, so drop it to keep the rest of the history usable
+      if (!isNetworkError(error)) {
+        set({ undoStack: get().undoStack.filter((e) => e.id !== entry.id) });
+      }
+      throw error;
+    } finally {
+      set({ isApplyingHistory: false });
+    }
+  },
+
+  redo: async () => {
+    const { redoStack, isApplyingHistory } = get();
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || isApplyingHistory) return;
+
+    set({ isApplyingHistory: true });
+    try {
+      const change = await applyHistoryChange(get, entry.change, "redo");
+      set({
+        redoStack: get().redoStack.filter((e) => e.id !== entry.id),
+        undoStack: pushHistoryEntry(get().undoStack, { ...entry, change }),
+        lastHistoryEvent: {
+          type: "redone",
+          label: entry.label,
+          at: Date.now(),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to redo:", error);
+      if (!isNetworkError(error)) {
+        set({ redoStack: get().redoStack.filter((e) => e.id !== entry.id) });
+      }
+      throw error;
+    } finally {
+      set({ isApplyingHistory: false });
+    }
+  },
+
+  clearHistory: () => {
+    clearHistoryIds();
+    set({ undoStack: [], redoStack: [], lastHistoryEvent: null });
+  },
+
+  // Data source actions
+  switchBackend: async (mode) => {
+    if (mode === get().backendMode) return;
+
+    // Queued edits belong to the current backend and would be replayed to the wrong one
+    if (get().pendingMutations.length > 0) {
+      throw new Error("Sync pending changes before switching data source");
+    }
+
+    saveBackendMode(mode);
+    // Accounts belong to a backend, so sign in again against the new one
+    authUtils.logout();
+    // The cache mirrors the old backend's records, so start clean. Change
+    // log entries waiting to upload refer to its record ids too.
+    await cacheDB.clear();
+    await cacheDB.clearChanges();
+    window.location.reload();
+  },
+
   // Detail loading functions
   loadPropertyDetails: async (id) => {
+    // The cached copy is the freshest we have while offline or with unsynced edits
+    if (!isBackendOnline() || get().isPendingSync("property", id)) return;
+
     try {
       const { property, persons, connections, links } =
         await propertyAPI.getById(id);
@@ -1137,12 +3101,16 @@ export const useStore = create<Store>((set, get) => ({
         get().setLinks([...get().links, ...newLinks]);
       }
     } catch (error) {
+      // A newer selection superseded this request
+      if (isCancelledError(error)) return;
       console.error("Failed to load property details:", error);
       throw error;
     }
   },
 
   loadPersonDetails: async (id) => {
+    if (!isBackendOnline() || get().isPendingSync("person", id)) return;
+
     try {
       const { person, properties, connections, links } =
         await personAPI.getById(id);
@@ -1179,6 +3147,8 @@ export const useStore = create<Store>((set, get) => ({
         get().setLinks([...get().links, ...newLinks]);
       }
     } catch (error) {
+      // A newer selection superseded this request
+      if (isCancelledError(error)) return;
       console.error("Failed to load person details:", error);
       throw error;
     }
@@ -1226,4 +3196,10 @@ export const useStore = create<Store>((set, get) => ({
     const allTags = properties.flatMap((property) => property.tags || []);
     return Array.from(new Set(allTags)).sort();
   },
+
+  can: (permission) => hasPermission(get().currentUser, permission),
 }));
+
+// Surface records the API client skipped during validation
+onValidationIssues((issues) => useStore.getState().reportDataIssues(issues));
+onUnauthorized(() => useStore.getState().expireSession());
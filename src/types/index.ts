@@ -1,10 +1,83 @@
-import { PROPERTY_TYPES, PERSON_ROLES, CONNECTION_ROLES } from "../constants";
+import {
+  PROPERTY_TYPES,
+  PROPERTY_STATUSES,
+  PRICE_SOURCES,
+  DOCUMENT_TYPES,
+  DOCUMENT_STATUSES,
+  FACING_DIRECTIONS,
+  PERSON_ROLES,
+  CONNECTION_ROLES,
+  USER_ROLES,
+  AREA_UNITS,
+} from "../constants";
 
 export type PropertyType = (typeof PROPERTY_TYPES)[number];
+export type PropertyStatus = (typeof PROPERTY_STATUSES)[number];
+export type PriceSource = (typeof PRICE_SOURCES)[number];
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+export type DocumentStatus = (typeof DOCUMENT_STATUSES)[number];
+export type FacingDirection = (typeof FACING_DIRECTIONS)[number];
 export type PersonRole = (typeof PERSON_ROLES)[number];
 export type ConnectionRole = (typeof CONNECTION_ROLES)[number];
+export type UserRole = (typeof USER_ROLES)[number];
+export type AreaUnit = keyof typeof AREA_UNITS;
+export type Permission =
+  "viewPhones" | "create" | "edit" | "delete" | "manageUsers";
 
-export interface Property {
+// Who added and last changed a record. Records saved before accounts existed
+// have neither.
+export interface Attribution {
+  created_by?: number;
+  updated_by?: number;
+}
+
+// One step in a listing's lifecycle
+export interface StatusChange {
+  status: PropertyStatus;
+  at: string;
+  by?: number;
+}
+
+export type CustomFieldValue = string | number | boolean;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// One entry of a property's legal document checklist. A copy can be a link
+// saved on the property or a photo of the paper.
+export interface PropertyDocument {
+  type: DocumentType;
+  status: DocumentStatus;
+  link_id?: number;
+  media_id?: number;
+  verified_on?: string;
+  verified_by?: number;
+}
+
+// Plot sides in feet. `breadth` is the front along the road and `length` the
+// depth. Irregular plots also record the back and the other side.
+export interface PlotDimensions {
+  length: number;
+  breadth: number;
+  back_breadth?: number;
+  right_length?: number;
+}
+
+// A GeoJSON polygon of [longitude, latitude] positions. The ring is closed:
+// its last position repeats the first.
+export interface BoundaryPolygon {
+  type: "Polygon";
+  coordinates: [number, number][][];
+}
+
+// An asking price as it stood from a given date
+export interface PriceChange {
+  price_min: number;
+  price_max: number;
+  source?: PriceSource;
+  at: string;
+  by?: number;
+}
+
+export interface Property extends Attribution {
   id: number;
   size_min: number;
   size_max: number;
@@ -17,39 +90,69 @@ export interface Property {
     longitude: number;
   };
   radius?: number;
+  boundary?: BoundaryPolygon; // Drawn extent, shown instead of the radius
   area?: string; // New field from database schema
   zone?: string;
   description?: string;
   note?: string;
   type?: PropertyType; // Optional in database
+  status?: PropertyStatus; // Missing means Available
+  status_history?: StatusChange[]; // Oldest first
+  price_source?: PriceSource; // Who gave the current price
+  price_history?: PriceChange[]; // Oldest first
+  documents?: PropertyDocument[]; // Types without an entry are pending
+  custom_fields?: CustomFieldValues; // Keyed by CUSTOM_FIELDS for the type
+  dimensions?: PlotDimensions;
+  facing?: FacingDirection;
+  road_width?: number; // Gali/road in front, in feet
+  corner?: boolean; // Roads on two sides
+  cover_media_id?: number; // Photo shown in the list and on the map
   created_on?: string;
   updated_on?: string;
+  deleted_at?: string; // Set while the property sits in Trash
 }
 
-export interface Person {
+export interface Person extends Attribution {
   id: number;
   name: string;
   phone: string;
   about?: string;
   role?: PersonRole;
   alternative_contact_details?: string;
+  created_on?: string;
+  updated_on?: string;
+  deleted_at?: string; // Set while the person sits in Trash
 }
 
-export interface Connection {
+export interface Connection extends Attribution {
   id: number;
   property_id: number;
   person_id: number;
   role: ConnectionRole;
   remark?: string;
+  created_on?: string;
+  updated_on?: string;
 }
 
-export interface Link {
+export interface Link extends Attribution {
   id: number;
   property_id: number;
   link: string;
   type?: string;
   anchor?: string;
   created_at?: string;
+  updated_at?: string;
+}
+
+// A photo taken or uploaded for a property. Both images are JPEG data URLs
+// made in the browser; `image` is the compressed full-size copy.
+export interface PropertyMedia extends Attribution {
+  id: number;
+  property_id: number;
+  image: string;
+  thumbnail: string;
+  caption?: string;
+  created_at?: string;
 }
 
 export interface MapViewport {
@@ -70,13 +173,23 @@ export type SortOption =
   | "size_asc"
   | "size_desc"
   | "rating_desc"
+  | "reduced_recent"
   | "newest"
   | "oldest";
 
+// "Added by" filter: the signed-in user, or a specific user id
+export type CreatorFilter = "me" | number;
+
 export interface FilterState {
   priceRanges: [number, number][]; // Support multiple price ranges
   sizeRanges: [number, number][]; // Support multiple size ranges
   propertyTypes: PropertyType[];
+  statuses: PropertyStatus[]; // Empty means any status
+  requiredDocuments: DocumentType[]; // Each must be available
+  customFields: CustomFieldValues; // Minimums for numbers, exact otherwise
+  facings: FacingDirection[];
+  minRoadWidth?: number; // Feet
+  recentlyReduced: boolean;
   searchQuery: string;
   tags: string[];
   excludedTags: string[];
@@ -86,12 +199,14 @@ export interface FilterState {
   radiusRange: [number, number]; // Filter: radius range in meters
   zone?: string; // Zone filter
   area?: string; // Area filter
+  createdBy?: CreatorFilter;
 }
 
 export interface PersonFilterState {
   searchQuery: string;
   roles: PersonRole[];
   hasProperties: boolean | null;
+  createdBy?: CreatorFilter;
 }
 
 export interface Tag {
@@ -99,3 +214,128 @@ export interface Tag {
   name: string;
   usage_count?: number;
 }
+
+export type OutboxEntity = "property" | "person" | "connection" | "link";
+export type OutboxAction = "create" | "update" | "delete";
+
+export interface PendingMutation {
+  id: string;
+  entity: OutboxEntity;
+  action: OutboxAction;
+  recordId: number; // Temporary (negative) id for records created offline
+  data?: Property | Person | Connection | Link; // Full record for create/update
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+  failed?: boolean; // Gave up after too many attempts; skipped until retried
+  base?: Property | Person; // Copy an update was made against
+  conflict?: Property; // Newer server copy the update clashed with; held until merged
+}
+
+// A deleted property or person, listed with the relationships a restore
+// brings back along with it
+export type TrashEntity = "property" | "person";
+
+export interface TrashEntry {
+  id: string;
+  entity: TrashEntity;
+  record: Property | Person;
+  connections: Connection[];
+  links: Link[];
+  deletedAt: number;
+}
+
+interface HistoryRecords {
+  property: Property;
+  person: Person;
+  connection: Connection;
+  link: Link;
+}
+
+// A recorded mutation, holding enough of the record to invert it. Deleted
+// properties and persons come back through their Trash entry.
+export type HistoryChange = {
+  [E in OutboxEntity]:
+    | {
+        kind: "create";
+        entity: E;
+        record: HistoryRecords[E];
+        trashEntryId?: string; // Set once an undone create sits in Trash
+      }
+    | {
+        kind: "update";
+        entity: E;
+        before: HistoryRecords[E];
+        after: HistoryRecords[E];
+      }
+    | {
+        kind: "delete";
+        entity: E;
+        record: HistoryRecords[E];
+        trashEntryId?: string;
+      };
+}[OutboxEntity];
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  change: HistoryChange;
+  createdAt: number;
+}
+
+// Last history step, shown in the undo toast
+export interface HistoryEvent {
+  type: "recorded" | "undone" | "redone";
+  label: string;
+  at: number;
+}
+
+export type ChangeLogEntity = "property" | "person";
+
+// One field's value before and after an edit
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// A saved edit to a property or person, for its change timeline
+export interface ChangeLogEntry {
+  id: number; // Negative while waiting to upload, like offline records
+  entity: ChangeLogEntity;
+  recordId: number;
+  changes: FieldChange[];
+  userId?: number;
+  at: number;
+}
+
+// An app account. PIN hashes never leave the backend.
+export interface User {
+  id: number;
+  username: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+  created_at?: string;
+}
+
+// A sign-in or PIN-pad unlock attempt on this device
+export interface LoginAuditEntry {
+  id: string;
+  at: number;
+  username: string;
+  kind: "login" | "unlock";
+  success: boolean;
+  // Why a failed attempt was refused
+  reason?: "wrong_pin" | "locked_out";
+  device: string;
+}
+
+// The signed-in user on this browser
+export interface Session {
+  user: User;
+  // Sent with every API request; null for backends that don't check it
+  token: string | null;
+  loginTime: number;
+  expiresAt: number;
+}
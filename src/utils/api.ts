@@ -1,8 +1,107 @@
-import { Property, Person, Connection, Link } from "../types";
-import { DEFAULT_COORDINATES, API_CONFIG } from "../constants";
+import {
+  Property,
+  PropertyType,
+  PropertyStatus,
+  PriceSource,
+  FacingDirection,
+  Person,
+  PersonRole,
+  Connection,
+  ConnectionRole,
+  Link,
+  User,
+  UserRole,
+  Attribution,
+  PropertyMedia,
+  ChangeLogEntity,
+  ChangeLogEntry,
+  FieldChange,
+  TrashEntity,
+} from "../types";
+import {
+  DEFAULT_COORDINATES,
+  API_CONFIG,
+  SYNC_CONFIG,
+  REQUEST_CONFIG,
+  AUTH_CONFIG,
+} from "../constants";
+import {
+  RawRecord,
+  ValidationIssue,
+  validateRecord,
+  parseLocation,
+  formatValidationIssue,
+  readJSON,
+} from "./validation";
+import { parseStatusHistory } from "./propertyStatus";
+import { parsePriceHistory } from "./priceHistory";
+import { parseDocuments } from "./documents";
+import { parseCustomFields } from "./customFields";
+import { parseDimensions } from "./plot";
+import { parseBoundary } from "./boundary";
+import { createTrashEntry } from "./trash";
+import {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  HttpError,
+  ApiResponseError,
+  RequestCancelledError,
+  SessionExpiredError,
+  ConflictError,
+  BatchError,
+  LoginLockedError,
+  isCancelledError,
+  isRetryableError,
+} from "./errors";
+import {
+  BackendAdapter,
+  PropertyBackend,
+  PersonBackend,
+  ConnectionBackend,
+  LinkBackend,
+  MediaBackend,
+  ChangeLogBackend,
+  TrashBackend,
+  AccountBackend,
+  LoginResult,
+  QueryParams,
+  MutationResult,
+  CreateResult,
+  VersionedResult,
+  PropertyDetails,
+  PersonDetails,
+  AllData,
+  DeltaSyncResult,
+  BatchTable,
+  BatchRecord,
+  BatchOperation,
+  BatchResult,
+  BackendMode,
+  getBackendMode,
+  isStaleVersion,
+  withoutDeleted,
+} from "./backend";
+import { localBackend } from "./localBackend";
+
+// Body returned by every call to the PHP endpoint
+interface ApiResponse {
+  data?: unknown;
+  deleted?: unknown;
+  success?: boolean;
+  id?: unknown;
+  updated_at?: unknown;
+  results?: unknown;
+  token?: unknown;
+  error?: string;
+}
+
+type RequestBody = Record<string, unknown>;
 
 // Helper function to ensure valid location
-const ensureValidLocation = (location: any) => {
+const ensureValidLocation = (
+  location: Partial<Property["location"]> | undefined
+): Property["location"] => {
   if (
     !location ||
     typeof location.latitude !== "number" ||
@@ -12,223 +111,523 @@ const ensureValidLocation = (location: any) => {
   ) {
     return DEFAULT_COORDINATES;
   }
-  return location;
+  return { latitude: location.latitude, longitude: location.longitude };
 };
 
-// Generic API functions for the new endpoint structure
-async function fetchData(
-  table: string,
-  params: Record<string, any> = {}
-): Promise<any> {
-  const url = new URL(API_CONFIG.baseUrl);
-  url.searchParams.append("table", table);
+type ValidationListener = (issues: ValidationIssue[]) => void;
 
-  // Add query parameters
-  Object.entries(params).forEach(([key, value]) => {
-    if (value !== undefined && value !== null && value !== "") {
-      url.searchParams.append(key, String(value));
+const validationListeners = new Set<ValidationListener>();
+
+// Subscribe to records skipped because they failed validation
+export const onValidationIssues = (listener: ValidationListener) => {
+  validationListeners.add(listener);
+  return () => {
+    validationListeners.delete(listener);
+  };
+};
+
+const reportValidationIssues = (issues: ValidationIssue[]) => {
+  if (issues.length === 0) return;
+
+  console.warn(
+    "Skipped records with invalid data:",
+    issues.map(formatValidationIssue)
+  );
+  validationListeners.forEach((listener) => listener(issues));
+};
+
+// Validate each row against its table schema and transform the valid ones.
+// Invalid rows are skipped and reported rather than coerced into defaults.
+function parseRows<T>(
+  table: string,
+  rows: unknown,
+  transform: (raw: RawRecord) => T
+): T[] {
+  const issues: ValidationIssue[] = [];
+  const parsed: T[] = [];
+
+  (Array.isArray(rows) ? rows : []).forEach((row) => {
+    const rowIssues = validateRecord(table, row);
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues);
+    } else {
+      parsed.push(transform(row as RawRecord));
     }
   });
 
-  try {
-    const response = await fetch(url.toString(), {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+  reportValidationIssues(issues);
+  return parsed;
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+// Read a nested list (persons, connections, links) from a validated row
+const nested = (raw: RawRecord, key: string): unknown =>
+  Array.isArray(raw[key]) ? raw[key] : [];
 
-    const result = await response.json();
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 
-    if (result.error) {
-      throw new Error(result.error);
-    }
+// Session token sent with every request, kept current by authUtils
+let authToken: string | null = null;
 
-    return result.data || [];
-  } catch (error) {
-    console.error("Fetch error:", error);
-    throw error;
-  }
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+type UnauthorizedListener = () => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+// Subscribe to the server rejecting the session token mid-session
+export const onUnauthorized = (listener: UnauthorizedListener) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  retries?: number;
+  // Requests sharing a key supersede each other: starting one aborts the last
+  key?: string;
 }
 
-async function postData(
-  table: string,
-  data: Record<string, any>
-): Promise<any> {
-  const url = new URL(API_CONFIG.baseUrl);
-  url.searchParams.append("table", table);
+// In-flight requests by supersede key
+const inFlightRequests = new Map<string, AbortController>();
+
+// Abort the in-flight request with this key, if any
+export const cancelRequest = (key: string) => {
+  inFlightRequests.get(key)?.abort();
+  inFlightRequests.delete(key);
+};
+
+// Exponential backoff with jitter: 0.5s, 1s, 2s... capped at retryMaxDelayMs
+const retryDelay = (attempt: number) =>
+  Math.min(
+    REQUEST_CONFIG.retryBaseDelayMs * 2 ** attempt,
+    REQUEST_CONFIG.retryMaxDelayMs
+  ) +
+  Math.random() * REQUEST_CONFIG.retryBaseDelayMs;
+
+const waitForRetry = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Send a single attempt, turning every failure into a typed error
+async function sendOnce(
+  method: HttpMethod,
+  url: string,
+  body: RequestBody | undefined,
+  signal: AbortSignal,
+  timeoutMs: number
+): Promise<ApiResponse> {
+  const attempt = new AbortController();
+  const onAbort = () => attempt.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    attempt.abort();
+  }, timeoutMs);
+
+  // Work out why an aborted attempt stopped
+  const abortError = (error: unknown) => {
+    if (timedOut) return new TimeoutError(timeoutMs);
+    if (signal.aborted) return new RequestCancelledError();
+    return error;
+  };
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (authToken) {
+    headers.Authorization = `Bearer ${authToken}`;
+  }
 
   try {
-    const response = await fetch(url.toString(), {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(data),
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: attempt.signal,
+      });
+    } catch (error) {
+      const reason = abortError(error);
+      throw reason instanceof ApiError
+        ? reason
+        : new NetworkError(
+            error instanceof Error ? error.message : "Network request failed"
+          );
+    }
 
+    // Without a token a 401 is just a rejected sign-in
+    if (response.status === 401 && headers.Authorization) {
+      throw new SessionExpiredError();
+    }
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      throw new HttpError(
+        response.status,
+        response.statusText,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
     }
 
-    const result = await response.json();
+    let result: ApiResponse;
+    try {
+      result = await response.json();
+    } catch (error) {
+      const reason = abortError(error);
+      throw reason instanceof ApiError
+        ? reason
+        : new ApiResponseError("Server sent an invalid response");
+    }
 
     if (result.error) {
-      throw new Error(result.error);
+      throw new ApiResponseError(result.error);
     }
 
     return result;
-  } catch (error) {
-    console.error("Post error:", error);
-    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
   }
 }
 
-async function putData(table: string, data: Record<string, any>): Promise<any> {
+// Shared request pipeline: timeout, retries for idempotent calls, and
+// cancellation of superseded requests
+async function request(
+  method: HttpMethod,
+  table: string,
+  { params = {}, body }: { params?: QueryParams; body?: RequestBody },
+  options: RequestOptions = {}
+): Promise<ApiResponse> {
   const url = new URL(API_CONFIG.baseUrl);
   url.searchParams.append("table", table);
 
-  try {
-    const response = await fetch(url.toString(), {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  // Add query parameters
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      url.searchParams.append(key, String(value));
     }
+  });
 
-    const result = await response.json();
+  const timeoutMs = options.timeoutMs ?? REQUEST_CONFIG.timeoutMs;
+  // POST creates a record, so repeating it could create duplicates
+  const retries =
+    options.retries ?? (method === "POST" ? 0 : REQUEST_CONFIG.maxRetries);
 
-    if (result.error) {
-      throw new Error(result.error);
-    }
+  const controller = new AbortController();
+  if (options.key) {
+    inFlightRequests.get(options.key)?.abort();
+    inFlightRequests.set(options.key, controller);
+  }
 
-    return result;
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await sendOnce(
+          method,
+          url.toString(),
+          body,
+          controller.signal,
+          timeoutMs
+        );
+      } catch (error) {
+        if (attempt >= retries || !isRetryableError(error)) {
+          throw error;
+        }
+        console.warn(
+          `${method} ${table} failed, retrying (${attempt + 1}/${retries}):`,
+          error
+        );
+        await waitForRetry(retryDelay(attempt), controller.signal);
+      }
+    }
   } catch (error) {
-    console.error("Put error:", error);
+    if (!isCancelledError(error)) {
+      console.error(`${method} ${table} error:`, error);
+    }
+    // Signing out with a revoked token needn't ask for the PIN again
+    if (
+      error instanceof SessionExpiredError &&
+      table !== API_CONFIG.authTable
+    ) {
+      unauthorizedListeners.forEach((listener) => listener());
+    }
     throw error;
+  } finally {
+    if (options.key && inFlightRequests.get(options.key) === controller) {
+      inFlightRequests.delete(options.key);
+    }
   }
 }
 
-async function deleteData(table: string, id: number): Promise<any> {
-  const url = new URL(API_CONFIG.baseUrl);
-  url.searchParams.append("table", table);
+const fetchResult = (
+  table: string,
+  params: QueryParams = {},
+  options?: RequestOptions
+) => request("GET", table, { params }, options);
 
-  try {
-    const response = await fetch(url.toString(), {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ id }),
-    });
+async function fetchData(
+  table: string,
+  params: QueryParams = {},
+  options?: RequestOptions
+): Promise<unknown[]> {
+  const result = await fetchResult(table, params, options);
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+  if (result.data === undefined || result.data === null) {
+    return [];
+  }
+  if (!Array.isArray(result.data)) {
+    throw new ApiResponseError(
+      `Expected a list of ${table} records from the server`
+    );
+  }
 
-    const result = await response.json();
+  return result.data;
+}
 
-    if (result.error) {
-      throw new Error(result.error);
-    }
+const postData = (table: string, data: RequestBody) =>
+  request("POST", table, { body: data });
 
-    return result;
-  } catch (error) {
-    console.error("Delete error:", error);
-    throw error;
+const putData = (table: string, data: RequestBody) =>
+  request("PUT", table, { body: data });
+
+const deleteData = (table: string, id: number) =>
+  request("DELETE", table, { body: { id } });
+
+// Creates must come back with the id the server assigned
+const toCreateResult = (table: string, result: ApiResponse): CreateResult => {
+  const id = Number(result.id);
+
+  if (result.success === false || !Number.isInteger(id) || id <= 0) {
+    throw new ApiResponseError(
+      `Create on ${table} did not return a valid id (got ${JSON.stringify(
+        result.id
+      )})`
+    );
   }
-}
+
+  return { success: true, id };
+};
+
+const toMutationResult = (result: ApiResponse): MutationResult => ({
+  success: result.success !== false,
+});
+
+// Field readers for rows that already passed validation
+const text = (value: unknown): string =>
+  value === undefined || value === null ? "" : String(value);
+
+const numeric = (value: unknown): number =>
+  value === undefined || value === null || value === "" ? 0 : Number(value);
+
+const optionalText = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+
+const optionalId = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === ""
+    ? undefined
+    : Number(value);
+
+const readAttribution = (apiData: RawRecord): Attribution => ({
+  created_by: optionalId(apiData.created_by),
+  updated_by: optionalId(apiData.updated_by),
+});
 
 // Transform new API data format to frontend format
-function transformPropertyFromNewAPI(apiData: any): Property {
-  // Handle location field
-  let location = DEFAULT_COORDINATES;
-  if (apiData.location && typeof apiData.location === "string") {
-    const coords = apiData.location.split(",");
-    const latitude = parseFloat(coords[0]);
-    const longitude = parseFloat(coords[1]);
-
-    if (!isNaN(latitude) && !isNaN(longitude)) {
-      location = { latitude, longitude };
-    }
-  }
+function transformPropertyFromNewAPI(apiData: RawRecord): Property {
+  // Missing location falls back to the default; malformed ones fail validation
+  const location = parseLocation(apiData.location) ?? DEFAULT_COORDINATES;
 
   // Handle tags field
   let tags: string[] = [];
-  if (apiData.tags) {
-    if (typeof apiData.tags === "string") {
-      tags = apiData.tags.split(",").filter(Boolean);
-    } else if (Array.isArray(apiData.tags)) {
-      tags = apiData.tags;
-    }
+  if (typeof apiData.tags === "string") {
+    tags = apiData.tags.split(",").filter(Boolean);
+  } else if (Array.isArray(apiData.tags)) {
+    tags = apiData.tags.map(String);
   }
 
   return {
     id: Number(apiData.id),
-    size_min: Number(apiData.size_min) || 0,
-    size_max: Number(apiData.size_max) || 0,
-    price_min: Number(apiData.price_min) || 0,
-    price_max: Number(apiData.price_max) || 0,
+    size_min: numeric(apiData.size_min),
+    size_max: numeric(apiData.size_max),
+    price_min: numeric(apiData.price_min),
+    price_max: numeric(apiData.price_max),
     tags,
-    rating: Number(apiData.rating) || 0,
-    location,
-    radius: Number(apiData.radius) || 0,
-    area: apiData.area || "",
-    zone: apiData.zone || "",
-    description: apiData.description || "",
-    note: apiData.note || "",
-    type: apiData.type || "Other",
-    created_on: apiData.created_at,
-    updated_on: apiData.updated_at,
+    rating: numeric(apiData.rating),
+    location: { latitude: location.latitude, longitude: location.longitude },
+    radius: numeric(apiData.radius),
+    boundary: parseBoundary(readJSON(apiData.boundary)),
+    area: text(apiData.area),
+    zone: text(apiData.zone),
+    description: text(apiData.description),
+    note: text(apiData.note),
+    type: (optionalText(apiData.type) || "Other") as PropertyType,
+    status: optionalText(apiData.status) as PropertyStatus | undefined,
+    status_history: parseStatusHistory(readJSON(apiData.status_history)),
+    price_source: optionalText(apiData.price_source) as PriceSource | undefined,
+    price_history: parsePriceHistory(readJSON(apiData.price_history)),
+    documents: parseDocuments(readJSON(apiData.documents)),
+    custom_fields: parseCustomFields(readJSON(apiData.custom_fields)),
+    dimensions: parseDimensions(readJSON(apiData.dimensions)),
+    facing: optionalText(apiData.facing) as FacingDirection | undefined,
+    road_width: numeric(apiData.road_width) || undefined,
+    corner: apiData.corner === true || String(apiData.corner) === "1",
+    cover_media_id: optionalId(apiData.cover_media_id),
+    created_on: optionalText(apiData.created_at),
+    updated_on: optionalText(apiData.updated_at),
+    deleted_at: optionalText(apiData.deleted_at),
+    ...readAttribution(apiData),
   };
 }
 
-function transformPersonFromNewAPI(apiData: any): Person {
+function transformPersonFromNewAPI(apiData: RawRecord): Person {
   return {
     id: Number(apiData.id),
-    name: apiData.name || "",
-    phone: apiData.phone || "",
-    about: apiData.about || "",
-    role: apiData.role || "Other Related",
-    alternative_contact_details:
-      apiData.alternative_contact_details ||
-      apiData.alternative_contact_details ||
-      "",
+    name: text(apiData.name),
+    phone: text(apiData.phone),
+    about: text(apiData.about),
+    role: (optionalText(apiData.role) || "Other Related") as PersonRole,
+    alternative_contact_details: text(apiData.alternative_contact_details),
+    created_on: optionalText(apiData.created_at),
+    updated_on: optionalText(apiData.updated_at),
+    deleted_at: optionalText(apiData.deleted_at),
+    ...readAttribution(apiData),
   };
 }
 
-function transformConnectionFromNewAPI(apiData: any): Connection {
+function transformConnectionFromNewAPI(apiData: RawRecord): Connection {
   return {
     id: Number(apiData.id),
     property_id: Number(apiData.property_id),
     person_id: Number(apiData.person_id),
-    role: apiData.role || "Other Related",
-    remark: apiData.remark || "",
+    role: (optionalText(apiData.role) || "Other Related") as ConnectionRole,
+    remark: text(apiData.remark),
+    created_on: optionalText(apiData.created_at),
+    updated_on: optionalText(apiData.updated_at),
+    ...readAttribution(apiData),
   };
 }
 
-function transformLinkFromNewAPI(apiData: any): Link {
+function transformLinkFromNewAPI(apiData: RawRecord): Link {
   return {
     id: Number(apiData.id),
     property_id: Number(apiData.property_id),
-    link: apiData.link || "",
-    type: apiData.type || "Other",
-    anchor: apiData.anchor || "",
-    created_at: apiData.created_at,
+    link: text(apiData.link),
+    type: optionalText(apiData.type) || "Other",
+    anchor: text(apiData.anchor),
+    created_at: optionalText(apiData.created_at),
+    updated_at: optionalText(apiData.updated_at),
+    ...readAttribution(apiData),
   };
 }
 
+function transformMediaFromAPI(apiData: RawRecord): PropertyMedia {
+  return {
+    id: Number(apiData.id),
+    property_id: Number(apiData.property_id),
+    image: text(apiData.image),
+    thumbnail: text(apiData.thumbnail),
+    caption: optionalText(apiData.caption),
+    created_at: optionalText(apiData.created_at),
+    created_by: optionalId(apiData.created_by),
+  };
+}
+
+// Entries without a field name can't be shown, so they are left out
+const parseFieldChanges = (value: unknown): FieldChange[] =>
+  Array.isArray(value)
+    ? value
+        .filter(
+          (change): change is FieldChange =>
+            !!change && typeof change === "object" && "field" in change
+        )
+        .map(({ field, before, after }) => ({
+          field: String(field),
+          before,
+          after,
+        }))
+    : [];
+
+function transformChangeFromAPI(apiData: RawRecord): ChangeLogEntry {
+  return {
+    id: Number(apiData.id),
+    entity: text(apiData.entity) as ChangeLogEntity,
+    recordId: Number(apiData.record_id),
+    changes: parseFieldChanges(readJSON(apiData.changes)),
+    userId: optionalId(apiData.created_by),
+    at: Date.parse(text(apiData.created_at)) || 0,
+  };
+}
+
+function transformUserFromAPI(apiData: RawRecord): User {
+  return {
+    id: Number(apiData.id),
+    username: text(apiData.username),
+    name: text(apiData.name),
+    role: (optionalText(apiData.role) || "agent") as UserRole,
+    disabled: apiData.disabled === true || String(apiData.disabled) === "1",
+    created_at: optionalText(apiData.created_at),
+  };
+}
+
+const parseProperties = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.properties, rows, transformPropertyFromNewAPI);
+
+const parsePersons = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.persons, rows, transformPersonFromNewAPI);
+
+const parseConnections = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.connections, rows, transformConnectionFromNewAPI);
+
+const parseLinks = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.links, rows, transformLinkFromNewAPI);
+
+const parseMedia = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.media, rows, transformMediaFromAPI);
+
+const parseChangeLog = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.changes, rows, transformChangeFromAPI);
+
+const parseUsers = (rows: unknown) =>
+  parseRows(API_CONFIG.tables.users, rows, transformUserFromAPI);
+
+// Pick the single row returned by an `id` lookup, rejecting it if it's malformed
+const parseSingleRow = (table: string, rows: unknown[], label: string) => {
+  const item = rows[0];
+
+  if (!item) {
+    throw new ApiResponseError(`${label} not found`);
+  }
+
+  const issues = validateRecord(table, item);
+  if (issues.length > 0) {
+    reportValidationIssues(issues);
+    throw new ApiResponseError(`${label} has invalid data`);
+  }
+
+  return item as RawRecord;
+};
+
 // Transform frontend data to backend format
-function transformToBackend(property: Omit<Property, "id"> | Property): any {
+function transformToBackend(
+  property: Omit<Property, "id"> | Property
+): RequestBody {
   // Ensure location is always valid before sending to backend
   const validLocation = ensureValidLocation(property.location);
 
@@ -240,259 +639,404 @@ function transformToBackend(property: Omit<Property, "id"> | Property): any {
       : property.tags,
     location: `${validLocation.latitude},${validLocation.longitude}`,
     rating: property.rating || 0, // Required field, default to 0
+    // Sent empty rather than left out so a removed boundary is cleared
+    boundary: property.boundary ? JSON.stringify(property.boundary) : "",
+    status_history: property.status_history
+      ? JSON.stringify(property.status_history)
+      : undefined,
+    price_history: property.price_history
+      ? JSON.stringify(property.price_history)
+      : undefined,
+    documents: property.documents
+      ? JSON.stringify(property.documents)
+      : undefined,
+    custom_fields: property.custom_fields
+      ? JSON.stringify(property.custom_fields)
+      : undefined,
+    dimensions: property.dimensions
+      ? JSON.stringify(property.dimensions)
+      : undefined,
+    corner: property.corner === undefined ? undefined : property.corner ? 1 : 0,
     // Remove frontend-only fields
     created_on: undefined,
     updated_on: undefined,
   };
 }
 
+// Persons and connections carry the server's timestamps under frontend names
+const withoutTimestamps = (row: object): RequestBody => ({
+  ...row,
+  created_on: undefined,
+  updated_on: undefined,
+});
+
+// Latest server copy of a property, used for version checks
+const fetchCurrentProperty = async (id: number): Promise<Property> => {
+  const data = await fetchData(API_CONFIG.tables.properties, { id });
+  return transformPropertyFromNewAPI(
+    parseSingleRow(API_CONFIG.tables.properties, data, "Property")
+  );
+};
+
+// Detail panels only care about the latest selection
+export const PROPERTY_DETAILS_REQUEST = "property-details";
+export const PERSON_DETAILS_REQUEST = "person-details";
+
 // Property API functions - Updated for new endpoint structure with nested data
-export const propertyAPI = {
-  getAll: async (filters: Record<string, any> = {}): Promise<Property[]> => {
+const restPropertyAPI: PropertyBackend = {
+  getAll: async (filters: QueryParams = {}): Promise<Property[]> => {
     const data = await fetchData(API_CONFIG.tables.properties, filters);
-    return data.map((item: any) => transformPropertyFromNewAPI(item));
+    return parseProperties(data).filter((p) => !p.deleted_at);
   },
 
-  getById: async (
-    id: number
-  ): Promise<{
-    property: Property;
-    persons: Person[];
-    connections: Connection[];
-    links: Link[];
-  }> => {
-    const data = await fetchData(API_CONFIG.tables.properties, { id });
-    const item = data[0];
-
-    if (!item) {
-      throw new Error("Property not found");
-    }
+  getById: async (id: number): Promise<PropertyDetails> => {
+    const data = await fetchData(
+      API_CONFIG.tables.properties,
+      { id },
+      { key: PROPERTY_DETAILS_REQUEST }
+    );
+    const item = parseSingleRow(API_CONFIG.tables.properties, data, "Property");
 
     return {
       property: transformPropertyFromNewAPI(item),
-      persons: (item.persons || []).map((p: any) =>
-        transformPersonFromNewAPI(p)
-      ),
-      connections: (item.connections || []).map((c: any) =>
-        transformConnectionFromNewAPI(c)
-      ),
-      links: (item.links || []).map((l: any) => transformLinkFromNewAPI(l)),
+      persons: parsePersons(nested(item, "persons")),
+      connections: parseConnections(nested(item, "connections")),
+      links: parseLinks(nested(item, "links")),
     };
   },
 
-  create: async (
-    property: Omit<Property, "id">
-  ): Promise<{ success: boolean; id: number }> => {
+  create: async (property: Omit<Property, "id">): Promise<CreateResult> => {
     const backendData = transformToBackend(property);
     // Remove id field for creation
     delete backendData.id;
-    return postData(API_CONFIG.tables.properties, backendData);
+    const result = await postData(API_CONFIG.tables.properties, backendData);
+    return toCreateResult(API_CONFIG.tables.properties, result);
   },
 
-  update: async (property: Property): Promise<{ success: boolean }> => {
+  update: async (property: Property): Promise<VersionedResult> => {
+    // Refuse to overwrite a copy someone else saved after we loaded ours
+    const current = await fetchCurrentProperty(property.id);
+    if (isStaleVersion(property, current)) {
+      throw new ConflictError(current);
+    }
+
     const backendData = transformToBackend(property);
-    return putData(API_CONFIG.tables.properties, backendData);
+    let result: ApiResponse;
+    try {
+      result = await putData(API_CONFIG.tables.properties, {
+        ...backendData,
+        [API_CONFIG.expectedVersionParam]: property.updated_on,
+      });
+    } catch (error) {
+      // Servers that check the version themselves answer 409 Conflict
+      if (error instanceof HttpError && error.status === 409) {
+        throw new ConflictError(await fetchCurrentProperty(property.id));
+      }
+      throw error;
+    }
+
+    const updatedOn =
+      typeof result.updated_at === "string"
+        ? result.updated_at
+        : (await fetchCurrentProperty(property.id)).updated_on;
+
+    return { ...toMutationResult(result), updated_on: updatedOn };
   },
 
-  delete: (id: number): Promise<{ success: boolean }> =>
-    deleteData(API_CONFIG.tables.properties, id),
+  delete: async (id: number): Promise<MutationResult> =>
+    toMutationResult(await deleteData(API_CONFIG.tables.properties, id)),
 
   search: async (
     query: string,
-    filters: Record<string, any> = {}
+    filters: QueryParams = {}
   ): Promise<Property[]> => {
     const data = await fetchData(API_CONFIG.tables.properties, {
       ...filters,
       area: query,
     });
-    return data.map((item: any) => transformPropertyFromNewAPI(item));
+    return parseProperties(data).filter((p) => !p.deleted_at);
   },
 };
 
 // Person API functions - Updated to handle nested data
-export const personAPI = {
-  getAll: async (filters: Record<string, any> = {}): Promise<Person[]> => {
+const restPersonAPI: PersonBackend = {
+  getAll: async (filters: QueryParams = {}): Promise<Person[]> => {
     const data = await fetchData(API_CONFIG.tables.persons, filters);
-    return data.map((person: any) => transformPersonFromNewAPI(person));
+    return parsePersons(data).filter((p) => !p.deleted_at);
   },
 
-  getById: async (
-    id: number
-  ): Promise<{
-    person: Person;
-    properties: Property[];
-    connections: Connection[];
-    links: Link[];
-  }> => {
-    const data = await fetchData(API_CONFIG.tables.persons, { id });
-    const item = data[0];
-
-    if (!item) {
-      throw new Error("Person not found");
-    }
+  getById: async (id: number): Promise<PersonDetails> => {
+    const data = await fetchData(
+      API_CONFIG.tables.persons,
+      { id },
+      { key: PERSON_DETAILS_REQUEST }
+    );
+    const item = parseSingleRow(API_CONFIG.tables.persons, data, "Person");
 
     return {
       person: transformPersonFromNewAPI(item),
-      properties: (item.properties || []).map((p: any) =>
-        transformPropertyFromNewAPI(p)
-      ),
-      connections: (item.connections || []).map((c: any) =>
-        transformConnectionFromNewAPI(c)
-      ),
-      links: (item.links || []).map((l: any) => transformLinkFromNewAPI(l)),
+      properties: parseProperties(nested(item, "properties")),
+      connections: parseConnections(nested(item, "connections")),
+      links: parseLinks(nested(item, "links")),
     };
   },
 
-  create: (
-    person: Omit<Person, "id">
-  ): Promise<{ success: boolean; id: number }> =>
-    postData(API_CONFIG.tables.persons, {
-      ...person,
+  create: async (person: Omit<Person, "id">): Promise<CreateResult> => {
+    const result = await postData(API_CONFIG.tables.persons, {
+      ...withoutTimestamps(person),
       alternative_contact_details: person.alternative_contact_details,
-    }),
+    });
+    return toCreateResult(API_CONFIG.tables.persons, result);
+  },
 
-  update: (person: Person): Promise<{ success: boolean }> =>
-    putData(API_CONFIG.tables.persons, {
-      ...person,
-      alternative_contact_details: person.alternative_contact_details,
-    }),
+  update: async (person: Person): Promise<MutationResult> =>
+    toMutationResult(
+      await putData(API_CONFIG.tables.persons, {
+        ...withoutTimestamps(person),
+        alternative_contact_details: person.alternative_contact_details,
+      })
+    ),
 
-  delete: (id: number): Promise<{ success: boolean }> =>
-    deleteData(API_CONFIG.tables.persons, id),
+  delete: async (id: number): Promise<MutationResult> =>
+    toMutationResult(await deleteData(API_CONFIG.tables.persons, id)),
 
   search: async (query: string): Promise<Person[]> => {
     const data = await fetchData(API_CONFIG.tables.persons, { name: query });
-    return data.map((person: any) => transformPersonFromNewAPI(person));
+    return parsePersons(data).filter((p) => !p.deleted_at);
   },
 };
 
 // Connection API functions
-export const connectionAPI = {
-  getAll: async (filters: Record<string, any> = {}): Promise<Connection[]> => {
+const restConnectionAPI: ConnectionBackend = {
+  getAll: async (filters: QueryParams = {}): Promise<Connection[]> => {
     const data = await fetchData(API_CONFIG.tables.connections, filters);
-    return data.map((conn: any) => transformConnectionFromNewAPI(conn));
+    return parseConnections(data);
   },
 
   getByPropertyId: async (propertyId: number): Promise<Connection[]> => {
     const data = await fetchData(API_CONFIG.tables.connections, {
       property_id: propertyId,
     });
-    return data.map((conn: any) => transformConnectionFromNewAPI(conn));
+    return parseConnections(data);
   },
 
   getByPersonId: async (personId: number): Promise<Connection[]> => {
     const data = await fetchData(API_CONFIG.tables.connections, {
       person_id: personId,
     });
-    return data.map((conn: any) => transformConnectionFromNewAPI(conn));
+    return parseConnections(data);
   },
 
-  create: (
-    connection: Omit<Connection, "id">
-  ): Promise<{ success: boolean; id: number }> =>
-    postData(API_CONFIG.tables.connections, connection),
-
-  update: (connection: Connection): Promise<{ success: boolean }> =>
-    putData(API_CONFIG.tables.connections, connection),
-
-  delete: (id: number): Promise<{ success: boolean }> =>
-    deleteData(API_CONFIG.tables.connections, id),
-
-  deleteByPropertyId: async (
-    propertyId: number
-  ): Promise<{ success: boolean }> => {
-    try {
-      const connections = await fetchData(API_CONFIG.tables.connections, {
-        property_id: propertyId,
-      });
-      await Promise.all(
-        connections.map((conn: any) =>
-          deleteData(API_CONFIG.tables.connections, Number(conn.id))
-        )
-      );
-      return { success: true };
-    } catch (error) {
-      console.error("Error deleting connections by property ID:", error);
-      return { success: false };
-    }
+  create: async (connection: Omit<Connection, "id">): Promise<CreateResult> =>
+    toCreateResult(
+      API_CONFIG.tables.connections,
+      await postData(
+        API_CONFIG.tables.connections,
+        withoutTimestamps(connection)
+      )
+    ),
+
+  update: async (connection: Connection): Promise<MutationResult> =>
+    toMutationResult(
+      await putData(
+        API_CONFIG.tables.connections,
+        withoutTimestamps(connection)
+      )
+    ),
+
+  delete: async (id: number): Promise<MutationResult> =>
+    toMutationResult(await deleteData(API_CONFIG.tables.connections, id)),
+
+  deleteByPropertyId: async (propertyId: number): Promise<MutationResult> => {
+    const connections = await restConnectionAPI.getByPropertyId(propertyId);
+    return runRestBatch([
+      {
+        table: "connections",
+        action: "delete",
+        ids: connections.map((c) => c.id),
+      },
+    ]);
   },
 
-  deleteByPersonId: async (personId: number): Promise<{ success: boolean }> => {
-    try {
-      const connections = await fetchData(API_CONFIG.tables.connections, {
-        person_id: personId,
-      });
-      await Promise.all(
-        connections.map((conn: any) =>
-          deleteData(API_CONFIG.tables.connections, Number(conn.id))
-        )
-      );
-      return { success: true };
-    } catch (error) {
-      console.error("Error deleting connections by person ID:", error);
-      return { success: false };
-    }
+  deleteByPersonId: async (personId: number): Promise<MutationResult> => {
+    const connections = await restConnectionAPI.getByPersonId(personId);
+    return runRestBatch([
+      {
+        table: "connections",
+        action: "delete",
+        ids: connections.map((c) => c.id),
+      },
+    ]);
   },
 };
 
 // Link API functions
-export const linkAPI = {
-  getAll: async (filters: Record<string, any> = {}): Promise<Link[]> => {
+const restLinkAPI: LinkBackend = {
+  getAll: async (filters: QueryParams = {}): Promise<Link[]> => {
     const data = await fetchData(API_CONFIG.tables.links, filters);
-    return data.map((link: any) => transformLinkFromNewAPI(link));
+    return parseLinks(data);
   },
 
   getByPropertyId: async (propertyId: number): Promise<Link[]> => {
     const data = await fetchData(API_CONFIG.tables.links, {
       property_id: propertyId,
     });
-    return data.map((link: any) => transformLinkFromNewAPI(link));
+    return parseLinks(data);
   },
 
-  create: (link: Omit<Link, "id">): Promise<{ success: boolean; id: number }> =>
-    postData(API_CONFIG.tables.links, link),
+  create: async (link: Omit<Link, "id">): Promise<CreateResult> =>
+    toCreateResult(
+      API_CONFIG.tables.links,
+      await postData(API_CONFIG.tables.links, link)
+    ),
 
-  update: (link: Link): Promise<{ success: boolean }> =>
-    putData(API_CONFIG.tables.links, link),
+  update: async (link: Link): Promise<MutationResult> =>
+    toMutationResult(await putData(API_CONFIG.tables.links, { ...link })),
 
-  delete: (id: number): Promise<{ success: boolean }> =>
-    deleteData(API_CONFIG.tables.links, id),
+  delete: async (id: number): Promise<MutationResult> =>
+    toMutationResult(await deleteData(API_CONFIG.tables.links, id)),
 
-  deleteByPropertyId: async (
-    propertyId: number
-  ): Promise<{ success: boolean }> => {
-    try {
-      const links = await fetchData(API_CONFIG.tables.links, {
-        property_id: propertyId,
-      });
-      await Promise.all(
-        links.map((link: any) =>
-          deleteData(API_CONFIG.tables.links, Number(link.id))
-        )
-      );
-      return { success: true };
-    } catch (error) {
-      console.error("Error deleting links by property ID:", error);
-      return { success: false };
-    }
+  deleteByPropertyId: async (propertyId: number): Promise<MutationResult> => {
+    const links = await restLinkAPI.getByPropertyId(propertyId);
+    return runRestBatch([
+      { table: "links", action: "delete", ids: links.map((l) => l.id) },
+    ]);
   },
 };
 
-// Helper function to transform API data (keeping for backward compatibility)
-export const transformApiData = {
-  property: transformPropertyFromNewAPI,
-  person: transformPersonFromNewAPI,
-  connection: transformConnectionFromNewAPI,
-  link: transformLinkFromNewAPI,
+const restMediaAPI: MediaBackend = {
+  getByPropertyId: async (propertyId: number): Promise<PropertyMedia[]> => {
+    const data = await fetchData(API_CONFIG.tables.media, {
+      property_id: propertyId,
+    });
+    return parseMedia(data);
+  },
+
+  getThumbnail: async (id: number): Promise<string | undefined> => {
+    // Servers that ignore `fields` send the whole row, which still works
+    const [row] = await fetchData(API_CONFIG.tables.media, {
+      id,
+      fields: "id,thumbnail",
+    });
+    return row ? optionalText((row as RawRecord).thumbnail) : undefined;
+  },
+
+  create: async (media: Omit<PropertyMedia, "id">): Promise<CreateResult> =>
+    toCreateResult(
+      API_CONFIG.tables.media,
+      await postData(API_CONFIG.tables.media, media)
+    ),
+
+  delete: async (id: number): Promise<MutationResult> =>
+    toMutationResult(await deleteData(API_CONFIG.tables.media, id)),
+};
+
+const restChangeLogAPI: ChangeLogBackend = {
+  getByRecord: async (
+    entity: ChangeLogEntity,
+    recordId: number
+  ): Promise<ChangeLogEntry[]> => {
+    const data = await fetchData(API_CONFIG.tables.changes, {
+      entity,
+      record_id: recordId,
+    });
+    return parseChangeLog(data);
+  },
+
+  create: async (entry: Omit<ChangeLogEntry, "id">): Promise<CreateResult> =>
+    toCreateResult(
+      API_CONFIG.tables.changes,
+      await postData(API_CONFIG.tables.changes, {
+        entity: entry.entity,
+        record_id: entry.recordId,
+        changes: JSON.stringify(entry.changes),
+        created_by: entry.userId,
+        created_at: new Date(entry.at).toISOString(),
+      })
+    ),
+};
+
+const TRASH_TABLES: Record<TrashEntity, string> = {
+  property: API_CONFIG.tables.properties,
+  person: API_CONFIG.tables.persons,
+};
+
+const restTrashAPI: TrashBackend = {
+  getAll: async () => {
+    // Servers that ignore `deleted` send every row; only marked ones are kept
+    const [propertyRows, personRows] = await Promise.all([
+      fetchData(API_CONFIG.tables.properties, { deleted: "only" }),
+      fetchData(API_CONFIG.tables.persons, { deleted: "only" }),
+    ]);
+    const properties = parseProperties(propertyRows).filter(
+      (p) => p.deleted_at
+    );
+    const persons = parsePersons(personRows).filter((p) => p.deleted_at);
+
+    return Promise.all([
+      ...properties.map(async (property) => {
+        const [connections, links] = await Promise.all([
+          restConnectionAPI.getByPropertyId(property.id),
+          restLinkAPI.getByPropertyId(property.id),
+        ]);
+        return createTrashEntry("property", property, connections, links);
+      }),
+      ...persons.map(async (person) =>
+        createTrashEntry(
+          "person",
+          person,
+          await restConnectionAPI.getByPersonId(person.id),
+          []
+        )
+      ),
+    ]);
+  },
+
+  remove: async (entity, id) =>
+    toMutationResult(
+      await putData(TRASH_TABLES[entity], {
+        id,
+        deleted_at: new Date().toISOString(),
+      })
+    ),
+
+  restore: async (entity, id) =>
+    toMutationResult(
+      await putData(TRASH_TABLES[entity], { id, deleted_at: "" })
+    ),
+
+  // The record goes with its links and connections, or nothing does
+  purge: async (entity, id) => {
+    if (entity === "property") {
+      const [connections, links] = await Promise.all([
+        restConnectionAPI.getByPropertyId(id),
+        restLinkAPI.getByPropertyId(id),
+      ]);
+      return runRestBatch([
+        { table: "links", action: "delete", ids: links.map((l) => l.id) },
+        {
+          table: "connections",
+          action: "delete",
+          ids: connections.map((c) => c.id),
+        },
+        { table: "properties", action: "delete", ids: [id] },
+      ]);
+    }
+
+    const connections = await restConnectionAPI.getByPersonId(id);
+    return runRestBatch([
+      {
+        table: "connections",
+        action: "delete",
+        ids: connections.map((c) => c.id),
+      },
+      { table: "persons", action: "delete", ids: [id] },
+    ]);
+  },
 };
 
 // Function to extract all data from the properties response for initial load
-export const extractAllDataFromProperties = async (): Promise<{
-  properties: Property[];
-  persons: Person[];
-  connections: Connection[];
-  links: Link[];
-}> => {
+const extractAllDataFromProperties = async (): Promise<AllData> => {
   try {
     const propertiesData = await fetchData(API_CONFIG.tables.properties, {});
 
@@ -502,39 +1046,533 @@ export const extractAllDataFromProperties = async (): Promise<{
     const links: Link[] = [];
 
     const personIds = new Set<number>();
+    const issues: ValidationIssue[] = [];
+
+    propertiesData.forEach((row) => {
+      const rowIssues = validateRecord(API_CONFIG.tables.properties, row);
+      if (rowIssues.length > 0) {
+        issues.push(...rowIssues);
+        return;
+      }
+      const item = row as RawRecord;
 
-    propertiesData.forEach((item: any) => {
       // Extract property
       properties.push(transformPropertyFromNewAPI(item));
 
       // Extract unique persons from nested data if available
-      if (item.persons && Array.isArray(item.persons)) {
-        item.persons.forEach((person: any) => {
-          if (!personIds.has(Number(person.id))) {
-            personIds.add(Number(person.id));
-            persons.push(transformPersonFromNewAPI(person));
-          }
-        });
-      }
-
-      // Extract connections from nested data if available
-      if (item.connections && Array.isArray(item.connections)) {
-        item.connections.forEach((connection: any) => {
-          connections.push(transformConnectionFromNewAPI(connection));
-        });
-      }
+      parsePersons(nested(item, "persons")).forEach((person) => {
+        if (!personIds.has(person.id)) {
+          personIds.add(person.id);
+          persons.push(person);
+        }
+      });
 
-      // Extract links from nested data if available
-      if (item.links && Array.isArray(item.links)) {
-        item.links.forEach((link: any) => {
-          links.push(transformLinkFromNewAPI(link));
-        });
-      }
+      // Extract connections and links from nested data if available
+      connections.push(...parseConnections(nested(item, "connections")));
+      links.push(...parseLinks(nested(item, "links")));
     });
 
-    return { properties, persons, connections, links };
+    reportValidationIssues(issues);
+
+    return withoutDeleted({ properties, persons, connections, links });
   } catch (error) {
     console.error("Failed to extract all data from properties:", error);
     throw error;
   }
 };
+
+// Fetch one table's rows changed since the given time, plus ids deleted since then
+async function fetchChangedRows(
+  table: string,
+  since: string
+): Promise<{ data: unknown; deleted: number[] }> {
+  const result = await fetchResult(table, {
+    [SYNC_CONFIG.updatedSinceParam]: since,
+  });
+
+  if (!Array.isArray(result.deleted)) {
+    // Without a deleted list we can't tell removals apart, so a delta is unsafe
+    throw new ApiResponseError(`Delta sync not supported for ${table}`);
+  }
+
+  const deleted = result.deleted.map((id: unknown) => Number(id));
+  if (deleted.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new ApiResponseError(
+      `Delta sync returned invalid deleted ids for ${table}`
+    );
+  }
+
+  return { data: result.data, deleted };
+}
+
+// Fetch rows created, updated or deleted on the server since the last sync
+const fetchChangedRowsSince = async (
+  since: string
+): Promise<DeltaSyncResult> => {
+  const [propertyRows, personRows, connectionRows, linkRows] =
+    await Promise.all([
+      fetchChangedRows(API_CONFIG.tables.properties, since),
+      fetchChangedRows(API_CONFIG.tables.persons, since),
+      fetchChangedRows(API_CONFIG.tables.connections, since),
+      fetchChangedRows(API_CONFIG.tables.links, since),
+    ]);
+
+  const persons = new Map<number, Person>();
+  const connections = new Map<number, Connection>();
+  const links = new Map<number, Link>();
+
+  const properties = parseRows(
+    API_CONFIG.tables.properties,
+    propertyRows.data,
+    (item) => {
+      // Changed properties carry their nested persons/connections/links
+      parsePersons(nested(item, "persons")).forEach((person) =>
+        persons.set(person.id, person)
+      );
+      parseConnections(nested(item, "connections")).forEach((connection) =>
+        connections.set(connection.id, connection)
+      );
+      parseLinks(nested(item, "links")).forEach((link) =>
+        links.set(link.id, link)
+      );
+      return transformPropertyFromNewAPI(item);
+    }
+  );
+
+  parsePersons(personRows.data).forEach((person) =>
+    persons.set(person.id, person)
+  );
+  parseConnections(connectionRows.data).forEach((connection) =>
+    connections.set(connection.id, connection)
+  );
+  parseLinks(linkRows.data).forEach((link) => links.set(link.id, link));
+
+  // Records moved to Trash since then count as deleted here
+  const trashedIds = (records: { id: number; deleted_at?: string }[]) =>
+    records.filter((r) => r.deleted_at).map((r) => r.id);
+
+  return {
+    ...withoutDeleted({
+      properties,
+      persons: Array.from(persons.values()),
+      connections: Array.from(connections.values()),
+      links: Array.from(links.values()),
+    }),
+    deleted: {
+      properties: [...propertyRows.deleted, ...trashedIds(properties)],
+      persons: [
+        ...personRows.deleted,
+        ...trashedIds(Array.from(persons.values())),
+      ],
+      connections: connectionRows.deleted,
+      links: linkRows.deleted,
+    },
+  };
+};
+
+// Batch writes - one transaction on servers that support it, otherwise
+// sequential calls that are undone if any of them fails
+
+let batchSupport: Promise<boolean> | null = null;
+
+// Ask once per session whether the server has the batch table. Older servers
+// answer 400 or 404 for an unknown table, which means no. Any other failure
+// (offline, a timeout, an expired session, a server error) says nothing
+// either way, so it is asked again next time.
+const supportsBatch = (): Promise<boolean> => {
+  if (!batchSupport) {
+    batchSupport = fetchResult(API_CONFIG.batchTable, {}, { retries: 0 })
+      .then((result) => result.success === true)
+      .catch((error) => {
+        if (
+          error instanceof HttpError &&
+          (error.status === 400 || error.status === 404)
+        ) {
+          return false;
+        }
+        batchSupport = null;
+        throw error;
+      });
+  }
+  return batchSupport;
+};
+
+// Rows as the server stores them
+const toBackendRow = (table: BatchTable, row: object): RequestBody =>
+  table === "properties"
+    ? transformToBackend(row as Property)
+    : table === "links"
+      ? { ...(row as RequestBody) }
+      : withoutTimestamps(row);
+
+const runServerBatch = async (
+  operations: BatchOperation[]
+): Promise<BatchResult> => {
+  let result: ApiResponse;
+  try {
+    result = await postData(API_CONFIG.batchTable, {
+      operations: operations.map((operation) => ({
+        table: API_CONFIG.tables[operation.table],
+        action: operation.action,
+        ...(operation.action === "delete"
+          ? { ids: operation.ids }
+          : {
+              rows: operation.rows.map((row) =>
+                toBackendRow(operation.table, row)
+              ),
+            }),
+      })),
+    });
+  } catch (error) {
+    // The server runs the batch in a transaction, so a rejected batch changed nothing
+    if (error instanceof NetworkError) throw error;
+    throw new BatchError(error, true);
+  }
+
+  // Expect { results: [{ ids: [...] }, ...] } with one id per created row
+  const results = Array.isArray(result.results) ? result.results : [];
+  const createdIds = operations.map((operation, index) => {
+    if (operation.action !== "create") return [];
+    const entry = results[index] as { ids?: unknown } | undefined;
+    const ids = Array.isArray(entry?.ids) ? entry.ids.map(Number) : [];
+    if (
+      ids.length !== operation.rows.length ||
+      ids.some((id) => !Number.isInteger(id) || id <= 0)
+    ) {
+      throw new ApiResponseError(
+        `Batch create on ${operation.table} did not return an id per row`
+      );
+    }
+    return ids;
+  });
+
+  return { success: true, createdIds };
+};
+
+// Per-table calls used by the sequential fallback
+const restTables = {
+  properties: restPropertyAPI,
+  persons: restPersonAPI,
+  connections: restConnectionAPI,
+  links: restLinkAPI,
+};
+
+const fetchRow = async (
+  table: BatchTable,
+  id: number
+): Promise<BatchRecord> => {
+  const [row] = await restTables[table].getAll({ id });
+  if (!row) {
+    throw new ApiResponseError(`Record ${id} not found in ${table}`);
+  }
+  return row;
+};
+
+const createRow = (table: BatchTable, row: object) =>
+  (restTables[table].create as (row: object) => Promise<CreateResult>)(row);
+
+// Rows are checked against the version they carry, like single updates
+const updateRow = (table: BatchTable, row: BatchRecord) =>
+  (restTables[table].update as (row: object) => Promise<MutationResult>)(row);
+
+// Rolling back puts back a row this batch has just overwritten itself, so the
+// version it was read with is expected to be out of date
+const restoreRow = (table: BatchTable, row: BatchRecord) =>
+  updateRow(table, { ...row, updated_on: undefined });
+
+type UndoStep =
+  | { table: BatchTable; action: "delete"; id: number }
+  | { table: BatchTable; action: "restore"; row: BatchRecord }
+  | { table: BatchTable; action: "recreate"; row: BatchRecord };
+
+// Undo applied steps newest first. Deleted rows come back with new ids, so
+// references from rows recreated later are pointed at the new ids.
+const rollback = async (steps: UndoStep[]): Promise<boolean> => {
+  const newIds = new Map<string, number>();
+  const remap = (table: BatchTable, id: number) =>
+    newIds.get(`${table}:${id}`) ?? id;
+
+  let complete = true;
+  for (const step of [...steps].reverse()) {
+    try {
+      if (step.action === "delete") {
+        await restTables[step.table].delete(step.id);
+      } else if (step.action === "restore") {
+        await restoreRow(step.table, step.row);
+      } else {
+        const row: Partial<BatchRecord> = { ...step.row };
+        delete row.id;
+        if ("property_id" in row && row.property_id !== undefined) {
+          row.property_id = remap("properties", row.property_id);
+        }
+        if ("person_id" in row && row.person_id !== undefined) {
+          row.person_id = remap("persons", row.person_id);
+        }
+        const { id } = await createRow(step.table, row);
+        newIds.set(`${step.table}:${step.row.id}`, id);
+      }
+    } catch (error) {
+      console.error("Failed to undo batch step:", step, error);
+      complete = false;
+    }
+  }
+  return complete;
+};
+
+const runSequentialBatch = async (
+  operations: BatchOperation[]
+): Promise<BatchResult> => {
+  const undo: UndoStep[] = [];
+  const createdIds: number[][] = [];
+
+  try {
+    for (const operation of operations) {
+      const ids: number[] = [];
+
+      if (operation.action === "create") {
+        for (const row of operation.rows) {
+          const { id } = await createRow(operation.table, row);
+          undo.push({ table: operation.table, action: "delete", id });
+          ids.push(id);
+        }
+      } else if (operation.action === "update") {
+        for (const row of operation.rows) {
+          const previous = await fetchRow(operation.table, row.id);
+          await updateRow(operation.table, row);
+          undo.push({
+            table: operation.table,
+            action: "restore",
+            row: previous,
+          });
+        }
+      } else {
+        for (const id of operation.ids) {
+          const previous = await fetchRow(operation.table, id);
+          await restTables[operation.table].delete(id);
+          undo.push({
+            table: operation.table,
+            action: "recreate",
+            row: previous,
+          });
+        }
+      }
+
+      createdIds.push(ids);
+    }
+  } catch (error) {
+    // Nothing applied yet - leave offline errors alone so callers can queue
+    if (undo.length === 0 && error instanceof NetworkError) throw error;
+    throw new BatchError(error, await rollback(undo));
+  }
+
+  return { success: true, createdIds };
+};
+
+const runRestBatch = async (
+  operations: BatchOperation[]
+): Promise<BatchResult> => {
+  const pending = operations.filter((operation) =>
+    operation.action === "delete"
+      ? operation.ids.length > 0
+      : operation.rows.length > 0
+  );
+  if (pending.length === 0) {
+    return { success: true, createdIds: operations.map(() => []) };
+  }
+
+  const result = (await supportsBatch())
+    ? await runServerBatch(pending)
+    : await runSequentialBatch(pending);
+
+  // Line the created ids back up with the operations as given
+  let index = 0;
+  return {
+    success: true,
+    createdIds: operations.map((operation) =>
+      pending.includes(operation) ? result.createdIds[index++] : []
+    ),
+  };
+};
+
+// Accounts are provisioned and PINs hashed and checked on the server
+const restAccountAPI: AccountBackend = {
+  login: async (username, pin): Promise<LoginResult | null> => {
+    try {
+      const result = await postData(API_CONFIG.authTable, { username, pin });
+      if (result.success === false) return null;
+
+      const [user] = parseUsers([result.data]);
+      if (!user) {
+        throw new ApiResponseError("Server did not return the signed-in user");
+      }
+      if (typeof result.token !== "string" || !result.token) {
+        throw new ApiResponseError("Server did not return a session token");
+      }
+      return { user, token: result.token };
+    } catch (error) {
+      // Unknown username, wrong PIN or a disabled account
+      if (
+        error instanceof HttpError &&
+        (error.status === 401 || error.status === 403)
+      ) {
+        return null;
+      }
+      // The server counts failed attempts too and refuses more for a while
+      if (error instanceof HttpError && error.status === 429) {
+        throw new LoginLockedError(
+          Date.now() + (error.retryAfterMs ?? AUTH_CONFIG.lockoutBaseMs)
+        );
+      }
+      throw error;
+    }
+  },
+
+  logout: async (token) => {
+    await request("DELETE", API_CONFIG.authTable, { body: { token } });
+  },
+
+  revokeSessions: async (userId) =>
+    toMutationResult(
+      await request("DELETE", API_CONFIG.authTable, {
+        body: { user_id: userId },
+      })
+    ),
+
+  needsSetup: async () => false,
+
+  getAll: async () => parseUsers(await fetchData(API_CONFIG.tables.users)),
+
+  create: async (user) =>
+    toCreateResult(
+      API_CONFIG.tables.users,
+      await postData(API_CONFIG.tables.users, { ...user })
+    ),
+
+  update: async (user) =>
+    toMutationResult(
+      await putData(API_CONFIG.tables.users, {
+        id: user.id,
+        name: user.name,
+        role: user.role,
+        disabled: user.disabled ? 1 : 0,
+      })
+    ),
+
+  resetPin: async (id, pin) =>
+    toMutationResult(await putData(API_CONFIG.tables.users, { id, pin })),
+};
+
+// REST implementation backed by the PHP endpoint in API_CONFIG.baseUrl
+export const restBackend: BackendAdapter = {
+  mode: "rest",
+  properties: restPropertyAPI,
+  persons: restPersonAPI,
+  connections: restConnectionAPI,
+  links: restLinkAPI,
+  media: restMediaAPI,
+  changes: restChangeLogAPI,
+  trash: restTrashAPI,
+  accounts: restAccountAPI,
+  loadAll: extractAllDataFromProperties,
+  fetchChangesSince: fetchChangedRowsSince,
+  runBatch: runRestBatch,
+};
+
+const backends: Record<BackendMode, BackendAdapter> = {
+  rest: restBackend,
+  local: localBackend,
+};
+
+// The mode only changes through a reload, but read it per call so nothing
+// holds on to a stale adapter
+const activeBackend = (): BackendAdapter => backends[getBackendMode()];
+
+// Public API - every call goes to the active backend
+export const propertyAPI: PropertyBackend = {
+  getAll: (filters) => activeBackend().properties.getAll(filters),
+  getById: (id) => activeBackend().properties.getById(id),
+  create: (property) => activeBackend().properties.create(property),
+  update: (property) => activeBackend().properties.update(property),
+  delete: (id) => activeBackend().properties.delete(id),
+  search: (query, filters) => activeBackend().properties.search(query, filters),
+};
+
+export const personAPI: PersonBackend = {
+  getAll: (filters) => activeBackend().persons.getAll(filters),
+  getById: (id) => activeBackend().persons.getById(id),
+  create: (person) => activeBackend().persons.create(person),
+  update: (person) => activeBackend().persons.update(person),
+  delete: (id) => activeBackend().persons.delete(id),
+  search: (query) => activeBackend().persons.search(query),
+};
+
+export const connectionAPI: ConnectionBackend = {
+  getAll: (filters) => activeBackend().connections.getAll(filters),
+  getByPropertyId: (propertyId) =>
+    activeBackend().connections.getByPropertyId(propertyId),
+  getByPersonId: (personId) =>
+    activeBackend().connections.getByPersonId(personId),
+  create: (connection) => activeBackend().connections.create(connection),
+  update: (connection) => activeBackend().connections.update(connection),
+  delete: (id) => activeBackend().connections.delete(id),
+  deleteByPropertyId: (propertyId) =>
+    activeBackend().connections.deleteByPropertyId(propertyId),
+  deleteByPersonId: (personId) =>
+    activeBackend().connections.deleteByPersonId(personId),
+};
+
+export const linkAPI: LinkBackend = {
+  getAll: (filters) => activeBackend().links.getAll(filters),
+  getByPropertyId: (propertyId) =>
+    activeBackend().links.getByPropertyId(propertyId),
+  create: (link) => activeBackend().links.create(link),
+  update: (link) => activeBackend().links.update(link),
+  delete: (id) => activeBackend().links.delete(id),
+  deleteByPropertyId: (propertyId) =>
+    activeBackend().links.deleteByPropertyId(propertyId),
+};
+
+export const mediaAPI: MediaBackend = {
+  getByPropertyId: (propertyId) =>
+    activeBackend().media.getByPropertyId(propertyId),
+  getThumbnail: (id) => activeBackend().media.getThumbnail(id),
+  create: (media) => activeBackend().media.create(media),
+  delete: (id) => activeBackend().media.delete(id),
+};
+
+export const changeLogAPI: ChangeLogBackend = {
+  getByRecord: (entity, recordId) =>
+    activeBackend().changes.getByRecord(entity, recordId),
+  create: (entry) => activeBackend().changes.create(entry),
+};
+
+export const trashAPI: TrashBackend = {
+  getAll: () => activeBackend().trash.getAll(),
+  remove: (entity, id) => activeBackend().trash.remove(entity, id),
+  restore: (entity, id) => activeBackend().trash.restore(entity, id),
+  purge: (entity, id) => activeBackend().trash.purge(entity, id),
+};
+
+export const accountAPI: AccountBackend = {
+  login: (username, pin) => activeBackend().accounts.login(username, pin),
+  logout: (token) => activeBackend().accounts.logout(token),
+  revokeSessions: (userId) => activeBackend().accounts.revokeSessions(userId),
+  needsSetup: () => activeBackend().accounts.needsSetup(),
+  getAll: () => activeBackend().accounts.getAll(),
+  create: (user) => activeBackend().accounts.create(user),
+  update: (user) => activeBackend().accounts.update(user),
+  resetPin: (id, pin) => activeBackend().accounts.resetPin(id, pin),
+};
+
+// Function to load every record for the initial/full load
+export const loadAllRecords = (): Promise<AllData> => activeBackend().loadAll();
+
+// Function to fetch only rows created, updated or deleted since the last sync
+export const fetchChangesSince = (since: string): Promise<DeltaSyncResult> =>
+  activeBackend().fetchChangesSince(since);
+
+// Batch writes - all applied or none
+export const batchAPI = {
+  run: (operations: BatchOperation[]): Promise<BatchResult> =>
+    activeBackend().runBatch(operations),
+};
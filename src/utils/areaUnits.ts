@@ -0,0 +1,99 @@
+import { AreaUnit, PropertyType } from "../types";
+import {
+  AREA_UNITS,
+  AREA_UNIT_CONFIG,
+  SIZE_RANGES,
+  UNIT_SIZE_RANGES,
+} from "../constants";
+import { formatSquareYards } from "./formatters";
+
+export type AreaUnitPreferences = Partial<Record<PropertyType, AreaUnit>>;
+
+export const toSquareYards = (value: number, unit: AreaUnit) =>
+  value * AREA_UNITS[unit].sqYards;
+
+export const fromSquareYards = (sqYards: number, unit: AreaUnit) =>
+  sqYards / AREA_UNITS[unit].sqYards;
+
+// Enough decimals for a marla or a fraction of an acre, without float noise
+export const roundArea = (value: number) => Math.round(value * 10000) / 10000;
+
+const trimArea = (value: number) =>
+  value >= 100
+    ? Math.round(value).toLocaleString("en-IN")
+    : String(Math.round(value * 100) / 100);
+
+export const formatArea = (sqYards: number, unit: AreaUnit) =>
+  `${trimArea(fromSquareYards(sqYards, unit))} ${AREA_UNITS[unit].short}`;
+
+export const formatAreaRange = (
+  sizeMin: number,
+  sizeMax: number,
+  unit: AreaUnit
+) =>
+  sizeMin === sizeMax
+    ? formatArea(sizeMin, unit)
+    : `${trimArea(fromSquareYards(sizeMin, unit))} - ${formatArea(
+        sizeMax,
+        unit
+      )}`;
+
+export const getAreaUnit = (
+  type: PropertyType | undefined,
+  preferences: AreaUnitPreferences
+): AreaUnit =>
+  preferences[type || "Other"] ??
+  AREA_UNIT_CONFIG.defaultUnits[type || "Other"] ??
+  "gaj";
+
+// Size filter buttons in the given unit. Each range is kept in square yards,
+// the unit the filter compares against.
+export const getSizeRanges = (unit: AreaUnit): [number, number][] => {
+  const unitRanges = UNIT_SIZE_RANGES[unit];
+  return unitRanges
+    ? unitRanges.map(([min, max]) => [
+        toSquareYards(min, unit),
+        toSquareYards(max, unit),
+      ])
+    : SIZE_RANGES.map(([min, max]) => [min, max]);
+};
+
+// Filter button label, e.g. "2 - 5 acre" or "1K - 2K gaj"
+export const formatSizeRange = (
+  [min, max]: [number, number],
+  unit: AreaUnit
+) => {
+  const compact = (sqYards: number) => {
+    const value = fromSquareYards(sqYards, unit);
+    return value >= 1000
+      ? formatSquareYards(Math.round(value))
+      : String(Math.round(value * 100) / 100);
+  };
+  return `${compact(min)} - ${compact(max)} ${AREA_UNITS[unit].short}`;
+};
+
+export const getAreaUnitPreferences = (): AreaUnitPreferences => {
+  try {
+    const saved = localStorage.getItem(AREA_UNIT_CONFIG.storageKey);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, unit]) =>
+        Object.keys(AREA_UNITS).includes(unit as string)
+      )
+    );
+  } catch (error) {
+    console.error("Error loading area units:", error);
+    return {};
+  }
+};
+
+export const saveAreaUnitPreferences = (preferences: AreaUnitPreferences) => {
+  try {
+    localStorage.setItem(
+      AREA_UNIT_CONFIG.storageKey,
+      JSON.stringify(preferences)
+    );
+  } catch (error) {
+    console.error("Error saving area units:", error);
+  }
+};
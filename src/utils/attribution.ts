@@ -0,0 +1,34 @@
+import { Attribution, CreatorFilter, User } from "../types";
+
+// Stamp who is saving a record. The server should record the same from the
+// session token, so these only decide what shows until the next load.
+export const withCreator = <T extends Attribution>(
+  record: T,
+  user: User | null
+): T =>
+  user ? { ...record, created_by: user.id, updated_by: user.id } : record;
+
+export const withUpdater = <T extends Attribution>(
+  record: T,
+  user: User | null
+): T => (user ? { ...record, updated_by: user.id } : record);
+
+// Whether a record passes an "added by" filter
+export const matchesCreator = (
+  record: Attribution,
+  filter: CreatorFilter | undefined,
+  currentUser: User | null
+): boolean => {
+  if (filter === undefined) return true;
+  const userId = filter === "me" ? currentUser?.id : filter;
+  return userId !== undefined && record.created_by === userId;
+};
+
+// Name to show for a user id, falling back to the id for deleted or unknown
+// accounts
+export const describeUser = (
+  userId: number,
+  userNames: Record<number, string>,
+  currentUser: User | null
+): string =>
+  userId === currentUser?.id ? "you" : userNames[userId] || `User #${userId}`;
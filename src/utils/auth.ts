@@ -1,109 +1,270 @@
-// Authentication utilities
-const AUTH_STORAGE_KEY = 'property_auth';
-const PIN_VERSION_KEY = 'property_pin_version';
-
-// Hardcoded PIN - change this value to invalidate all existing sessions
-const CURRENT_PIN = '1357'; // Your new PIN here
-const PIN_VERSION = 'v3'; // Increment this when PIN changes to logout all users
-
-export interface AuthData {
-  isAuthenticated: boolean;
-  loginTime: number;
-  pinVersion: string;
+// Authentication utilities - each user signs in with their own username and
+// PIN, checked by the backend against hashed PINs. The backend hands back a
+// session token that goes with every API request until it expires or is
+// revoked on the server.
+import { LoginAuditEntry, Session, User } from '../types';
+import { AUTH_CONFIG } from '../constants';
+import { accountAPI, setAuthToken } from './api';
+import { PinHash, hashPin, verifyPin } from './pinHash';
+import { LoginLockedError } from './errors';
+import {
+  getLockedUntil,
+  recordFailedAttempt,
+  recordServerLockout,
+  resetFailedAttempts,
+  recordLoginAudit,
+} from './loginAttempts';
+
+// Drop the shared-PIN session left by older versions so it can't be reused
+try {
+  AUTH_CONFIG.legacyStorageKeys.forEach(key => localStorage.removeItem(key));
+} catch (error) {
+  console.error('Error clearing legacy auth data:', error);
 }
 
+// Lets the inactivity lock check the PIN without a server round trip. Kept in
+// memory only, so after a reload the server checks it instead.
+let unlockCheck: PinHash | null = null;
+
+const saveLockState = (locked: boolean) => {
+  try {
+    if (locked) {
+      localStorage.setItem(AUTH_CONFIG.lockedStorageKey, 'true');
+    } else {
+      localStorage.removeItem(AUTH_CONFIG.lockedStorageKey);
+    }
+  } catch (error) {
+    console.error('Error saving lock state:', error);
+  }
+};
+
+// Best effort - an unreachable server lets the token run out on its own
+const revokeToken = (token: string | null | undefined) => {
+  if (token) {
+    accountAPI.logout(token).catch(error => {
+      console.error('Error revoking session:', error);
+    });
+  }
+};
+
+// Run a PIN check through the brute-force guard and log the attempt. A null
+// result means the PIN was wrong.
+const guardedPinCheck = async <T>(
+  username: string,
+  kind: LoginAuditEntry['kind'],
+  check: () => Promise<T | null>
+): Promise<T | null> => {
+  const lockedUntil = getLockedUntil();
+  if (lockedUntil) {
+    recordLoginAudit({ username, kind, success: false, reason: 'locked_out' });
+    throw new LoginLockedError(lockedUntil);
+  }
+
+  let result: T | null;
+  try {
+    result = await check();
+  } catch (error) {
+    if (error instanceof LoginLockedError) {
+      recordServerLockout(error.retryAt);
+      recordLoginAudit({ username, kind, success: false, reason: 'locked_out' });
+    }
+    throw error;
+  }
+
+  if (result === null) {
+    recordLoginAudit({ username, kind, success: false, reason: 'wrong_pin' });
+    const lockedUntil = recordFailedAttempt();
+    if (lockedUntil) {
+      throw new LoginLockedError(lockedUntil);
+    }
+    return null;
+  }
+
+  resetFailedAttempts();
+  recordLoginAudit({ username, kind, success: true });
+  return result;
+};
+
+const saveSession = (session: Session): boolean => {
+  try {
+    localStorage.setItem(AUTH_CONFIG.sessionStorageKey, JSON.stringify(session));
+    setAuthToken(session.token);
+    return true;
+  } catch (error) {
+    console.error('Error saving session:', error);
+    return false;
+  }
+};
+
 export const authUtils = {
-  // Check if user is authenticated and session is valid
+  // Check if a user is signed in and the session is still valid
   isAuthenticated(): boolean {
-    try {
-      const authData = this.getAuthData();
-      if (!authData || !authData.isAuthenticated) {
-        return false;
-      }
+    const session = this.getSession();
+    if (!session) {
+      return false;
+    }
 
-      // Check if PIN version matches (logout if PIN was changed)
-      if (authData.pinVersion !== PIN_VERSION) {
-        console.log('PIN version mismatch, logging out user');
-        this.logout();
-        return false;
-      }
+    if (Date.now() > session.expiresAt) {
+      console.log('Session expired, logging out user');
+      this.clearSession();
+      return false;
+    }
 
-      // Check if session has expired (3 days)
-      const threeDaysInMs = 3 * 24 * 60 * 60 * 1000;
-      const isExpired = Date.now() - authData.loginTime > threeDaysInMs;
-      
-      if (isExpired) {
-        console.log('Session expired, logging out user');
-        this.logout();
-        return false;
-      }
+    return true;
+  },
 
-      return true;
+  // The signed-in user, or null when there is no valid session
+  getCurrentUser(): User | null {
+    return this.isAuthenticated() ? this.getSession()!.user : null;
+  },
+
+  // Verify the username and PIN with the backend and start a session
+  // Throws LoginLockedError after too many wrong PINs
+  async login(username: string, pin: string): Promise<User | null> {
+    const result = await guardedPinCheck(username, 'login', () =>
+      accountAPI.login(username, pin)
+    );
+    if (!result) {
+      return null;
+    }
+
+    const { user, token } = result;
+    const now = Date.now();
+    const session: Session = {
+      user,
+      token,
+      loginTime: now,
+      expiresAt: now + AUTH_CONFIG.sessionDurationMs,
+    };
+
+    if (!saveSession(session)) {
+      return null;
+    }
+    unlockCheck = await hashPin(pin);
+    saveLockState(false);
+    console.log('User logged in:', user.username);
+    return user;
+  },
+
+  // Keep the session's copy of the user current after an admin edit
+  updateSessionUser(user: User): void {
+    const session = this.getSession();
+    if (session && session.user.id === user.id) {
+      saveSession({ ...session, user });
+    }
+  },
+
+  // Logout user, revoking the token on the server so it can't be reused
+  logout(): void {
+    const token = this.getSession()?.token;
+    this.clearSession();
+    console.log('User logged out');
+    revokeToken(token);
+  },
+
+  // Forget the session on this browser only - used once the server has
+  // already stopped accepting its token
+  clearSession(): void {
+    setAuthToken(null);
+    unlockCheck = null;
+    saveLockState(false);
+    try {
+      localStorage.removeItem(AUTH_CONFIG.sessionStorageKey);
+    } catch (error) {
+      console.error('Error clearing session:', error);
+    }
+  },
+
+  // The lock is saved so reloading the page can't be used to get past it
+  isLocked(): boolean {
+    try {
+      return localStorage.getItem(AUTH_CONFIG.lockedStorageKey) === 'true';
     } catch (error) {
-      console.error('Error checking authentication:', error);
-      this.logout();
+      console.error('Error reading lock state:', error);
       return false;
     }
   },
 
-  // Verify PIN and login user
-  async login(enteredPin: string): Promise<boolean> {
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    if (enteredPin === CURRENT_PIN) {
-      const authData: AuthData = {
-        isAuthenticated: true,
-        loginTime: Date.now(),
-        pinVersion: PIN_VERSION
-      };
-
-      try {
-        localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(authData));
-        console.log('User logged in successfully');
-        return true;
-      } catch (error) {
-        console.error('Error saving auth data:', error);
-        return false;
+  lock(): void {
+    saveLockState(true);
+  },
+
+  // Lift the inactivity lock if the PIN belongs to the signed-in user. The
+  // session keeps its original expiry. Wrong PINs count towards the lockout.
+  async unlock(pin: string): Promise<boolean> {
+    const session = this.getSession();
+    if (!session) {
+      return false;
+    }
+
+    const unlocked = await guardedPinCheck(session.user.username, 'unlock', async () => {
+      if (unlockCheck) {
+        return (await verifyPin(pin, unlockCheck)) ? true : null;
+      }
+
+      const result = await accountAPI.login(session.user.username, pin);
+      if (!result || result.user.id !== session.user.id) {
+        return null;
       }
+      // Checking the PIN started a new server session; drop the old one
+      saveSession({ ...session, user: result.user, token: result.token });
+      revokeToken(session.token);
+      unlockCheck = await hashPin(pin);
+      return true;
+    });
+
+    if (!unlocked) {
+      return false;
     }
+    saveLockState(false);
+    return true;
+  },
 
-    return false;
+  // Minutes without activity before the app locks; 0 means never
+  getAutoLockMinutes(): number {
+    try {
+      const saved = localStorage.getItem(AUTH_CONFIG.autoLockStorageKey);
+      const minutes = saved === null ? NaN : Number(saved);
+      return Number.isInteger(minutes) && minutes >= 0
+        ? minutes
+        : AUTH_CONFIG.defaultAutoLockMinutes;
+    } catch (error) {
+      console.error('Error loading auto-lock setting:', error);
+      return AUTH_CONFIG.defaultAutoLockMinutes;
+    }
   },
 
-  // Logout user
-  logout(): void {
+  saveAutoLockMinutes(minutes: number): void {
     try {
-      localStorage.removeItem(AUTH_STORAGE_KEY);
-      console.log('User logged out');
+      localStorage.setItem(AUTH_CONFIG.autoLockStorageKey, String(minutes));
     } catch (error) {
-      console.error('Error during logout:', error);
+      console.error('Error saving auto-lock setting:', error);
     }
   },
 
-  // Get stored auth data
-  getAuthData(): AuthData | null {
+  // Get the stored session
+  getSession(): Session | null {
     try {
-      const stored = localStorage.getItem(AUTH_STORAGE_KEY);
-      return stored ? JSON.parse(stored) : null;
+      const stored = localStorage.getItem(AUTH_CONFIG.sessionStorageKey);
+      const session = stored ? JSON.parse(stored) : null;
+      // Sessions from before tokens existed would be rejected by the server
+      return session && session.user && session.expiresAt && session.token !== undefined
+        ? session
+        : null;
     } catch (error) {
-      console.error('Error reading auth data:', error);
+      console.error('Error reading session:', error);
       return null;
     }
   },
 
   // Get remaining session time in milliseconds
   getRemainingSessionTime(): number {
-    const authData = this.getAuthData();
-    if (!authData || !authData.isAuthenticated) {
+    const session = this.getSession();
+    if (!session) {
       return 0;
     }
 
-    const threeDaysInMs = 3 * 24 * 60 * 60 * 1000;
-    const elapsed = Date.now() - authData.loginTime;
-    const remaining = threeDaysInMs - elapsed;
-
-    return Math.max(0, remaining);
+    return Math.max(0, session.expiresAt - Date.now());
   },
 
   // Format remaining time for display
@@ -125,6 +286,5 @@ export const authUtils = {
   }
 };
 
-// Export the current PIN for backend reference (in a real app, this would be in backend)
-export const getCurrentPin = () => CURRENT_PIN;
-export const getCurrentPinVersion = () => PIN_VERSION;
\ No newline at end of file
+// Requests after a reload carry the token of the saved session
+setAuthToken(authUtils.getSession()?.token ?? null);
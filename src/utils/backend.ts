@@ -0,0 +1,264 @@
+import {
+  Property,
+  Person,
+  Connection,
+  Link,
+  User,
+  PropertyMedia,
+  ChangeLogEntity,
+  ChangeLogEntry,
+  TrashEntity,
+  TrashEntry,
+} from "../types";
+import { BACKEND_CONFIG } from "../constants";
+
+// Where app data is read from and written to
+export type BackendMode = "rest" | "local";
+
+export const BACKEND_MODES: Record<BackendMode, string> = {
+  rest: "Server",
+  local: "This device only",
+};
+
+export type QueryParams = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+export interface MutationResult {
+  success: boolean;
+}
+
+export interface CreateResult extends MutationResult {
+  id: number;
+}
+
+// Versioned updates report the new updated_on so the next save compares against it
+export interface VersionedResult extends MutationResult {
+  updated_on?: string;
+}
+
+export interface PropertyDetails {
+  property: Property;
+  persons: Person[];
+  connections: Connection[];
+  links: Link[];
+}
+
+export interface PersonDetails {
+  person: Person;
+  properties: Property[];
+  connections: Connection[];
+  links: Link[];
+}
+
+export interface AllData {
+  properties: Property[];
+  persons: Person[];
+  connections: Connection[];
+  links: Link[];
+}
+
+export interface DeltaSyncResult extends AllData {
+  deleted: {
+    properties: number[];
+    persons: number[];
+    connections: number[];
+    links: number[];
+  };
+}
+
+export type BatchTable = "properties" | "persons" | "connections" | "links";
+
+interface BatchRecords {
+  properties: Property;
+  persons: Person;
+  connections: Connection;
+  links: Link;
+}
+
+export type BatchRecord = BatchRecords[BatchTable];
+
+// One step of an all-or-nothing batch
+export type BatchOperation = {
+  [T in BatchTable]:
+    | { table: T; action: "create"; rows: Omit<BatchRecords[T], "id">[] }
+    | { table: T; action: "update"; rows: BatchRecords[T][] }
+    | { table: T; action: "delete"; ids: number[] };
+}[BatchTable];
+
+export interface BatchResult {
+  success: boolean;
+  // Ids assigned to created rows, per operation (empty for updates/deletes)
+  createdIds: number[][];
+}
+
+export interface PropertyBackend {
+  getAll: (filters?: QueryParams) => Promise<Property[]>;
+  getById: (id: number) => Promise<PropertyDetails>;
+  create: (property: Omit<Property, "id">) => Promise<CreateResult>;
+  // Rejects with a ConflictError when the stored copy changed since loading
+  update: (property: Property) => Promise<VersionedResult>;
+  delete: (id: number) => Promise<MutationResult>;
+  search: (query: string, filters?: QueryParams) => Promise<Property[]>;
+}
+
+export interface PersonBackend {
+  getAll: (filters?: QueryParams) => Promise<Person[]>;
+  getById: (id: number) => Promise<PersonDetails>;
+  create: (person: Omit<Person, "id">) => Promise<CreateResult>;
+  update: (person: Person) => Promise<MutationResult>;
+  delete: (id: number) => Promise<MutationResult>;
+  search: (query: string) => Promise<Person[]>;
+}
+
+export interface ConnectionBackend {
+  getAll: (filters?: QueryParams) => Promise<Connection[]>;
+  getByPropertyId: (propertyId: number) => Promise<Connection[]>;
+  getByPersonId: (personId: number) => Promise<Connection[]>;
+  create: (connection: Omit<Connection, "id">) => Promise<CreateResult>;
+  update: (connection: Connection) => Promise<MutationResult>;
+  delete: (id: number) => Promise<MutationResult>;
+  // All-or-nothing: rejects with a BatchError instead of leaving orphans
+  deleteByPropertyId: (propertyId: number) => Promise<MutationResult>;
+  deleteByPersonId: (personId: number) => Promise<MutationResult>;
+}
+
+export interface LinkBackend {
+  getAll: (filters?: QueryParams) => Promise<Link[]>;
+  getByPropertyId: (propertyId: number) => Promise<Link[]>;
+  create: (link: Omit<Link, "id">) => Promise<CreateResult>;
+  update: (link: Link) => Promise<MutationResult>;
+  delete: (id: number) => Promise<MutationResult>;
+  deleteByPropertyId: (propertyId: number) => Promise<MutationResult>;
+}
+
+// Photos are written once and never edited, only added or removed
+export interface MediaBackend {
+  getByPropertyId: (propertyId: number) => Promise<PropertyMedia[]>;
+  // Just the small preview, for covers shown without loading the photos
+  getThumbnail: (id: number) => Promise<string | undefined>;
+  create: (media: Omit<PropertyMedia, "id">) => Promise<CreateResult>;
+  delete: (id: number) => Promise<MutationResult>;
+}
+
+// Field-level edit history, kept with the records so every device sees it.
+// Entries are only ever added.
+export interface ChangeLogBackend {
+  getByRecord: (
+    entity: ChangeLogEntity,
+    recordId: number
+  ) => Promise<ChangeLogEntry[]>;
+  create: (entry: Omit<ChangeLogEntry, "id">) => Promise<CreateResult>;
+}
+
+// Deleting a property or person only marks it with `deleted_at`; its
+// connections and links are left in place, so a restore brings everything
+// back under the same ids. Purging deletes it all for good.
+export interface TrashBackend {
+  getAll: () => Promise<TrashEntry[]>;
+  remove: (entity: TrashEntity, id: number) => Promise<MutationResult>;
+  restore: (entity: TrashEntity, id: number) => Promise<MutationResult>;
+  purge: (entity: TrashEntity, id: number) => Promise<MutationResult>;
+}
+
+export interface NewUser extends Omit<User, "id" | "created_at"> {
+  pin: string;
+}
+
+// A successful sign-in; the server can revoke the token at any time
+export interface LoginResult {
+  user: User;
+  token: string | null;
+}
+
+export interface AccountBackend {
+  // The account when the PIN matches an enabled user, otherwise null
+  login: (username: string, pin: string) => Promise<LoginResult | null>;
+  // Revoke this browser's session token
+  logout: (token: string) => Promise<void>;
+  // Revoke every session the user has, signing them out on all devices
+  revokeSessions: (userId: number) => Promise<MutationResult>;
+  // True while no accounts exist yet and the first admin must be created here
+  needsSetup: () => Promise<boolean>;
+  getAll: () => Promise<User[]>;
+  create: (user: NewUser) => Promise<CreateResult>;
+  update: (user: User) => Promise<MutationResult>;
+  resetPin: (id: number, pin: string) => Promise<MutationResult>;
+}
+
+// Everything the app needs from a data source
+export interface BackendAdapter {
+  mode: BackendMode;
+  properties: PropertyBackend;
+  persons: PersonBackend;
+  connections: ConnectionBackend;
+  links: LinkBackend;
+  media: MediaBackend;
+  changes: ChangeLogBackend;
+  trash: TrashBackend;
+  accounts: AccountBackend;
+  // Every record, used for the initial/full load
+  loadAll: () => Promise<AllData>;
+  // Rows changed since a point in time; throws when unsupported
+  fetchChangesSince: (since: string) => Promise<DeltaSyncResult>;
+  // Apply every operation or none; rejects with a BatchError
+  runBatch: (operations: BatchOperation[]) => Promise<BatchResult>;
+}
+
+const isBackendMode = (value: unknown): value is BackendMode =>
+  typeof value === "string" && value in BACKEND_MODES;
+
+export const getBackendMode = (): BackendMode => {
+  try {
+    const saved = localStorage.getItem(BACKEND_CONFIG.storageKey);
+    return isBackendMode(saved) ? saved : BACKEND_CONFIG.defaultMode;
+  } catch (error) {
+    console.error("Error reading backend mode:", error);
+    return BACKEND_CONFIG.defaultMode;
+  }
+};
+
+export const saveBackendMode = (mode: BackendMode) => {
+  try {
+    localStorage.setItem(BACKEND_CONFIG.storageKey, mode);
+  } catch (error) {
+    console.error("Error saving backend mode:", error);
+  }
+};
+
+// The local backend never needs a network connection
+export const isBackendOnline = (): boolean =>
+  getBackendMode() === "local" || navigator.onLine;
+
+// Optimistic concurrency: the stored copy moved on since `loaded` was read.
+// Records without a version (created before tracking) are never stale.
+export const isStaleVersion = (
+  loaded: { updated_on?: string },
+  current: { updated_on?: string }
+): boolean =>
+  !!loaded.updated_on &&
+  !!current.updated_on &&
+  loaded.updated_on !== current.updated_on;
+
+// Records in Trash, and the connections and links hanging off them, stay out
+// of normal loads until restored
+export const withoutDeleted = (data: AllData): AllData => {
+  const deletedProperties = new Set(
+    data.properties.filter((p) => p.deleted_at).map((p) => p.id)
+  );
+  const deletedPersons = new Set(
+    data.persons.filter((p) => p.deleted_at).map((p) => p.id)
+  );
+
+  return {
+    properties: data.properties.filter((p) => !p.deleted_at),
+    persons: data.persons.filter((p) => !p.deleted_at),
+    connections: data.connections.filter(
+      (c) =>
+        !deletedProperties.has(c.property_id) &&
+        !deletedPersons.has(c.person_id)
+    ),
+    links: data.links.filter((l) => !deletedProperties.has(l.property_id)),
+  };
+};
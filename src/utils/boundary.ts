@@ -0,0 +1,71 @@
+import area from "@turf/area";
+import { BoundaryPolygon, Property } from "../types";
+import { BOUNDARY_CONFIG } from "../constants";
+
+// [longitude, latitude], as in GeoJSON
+export type BoundaryPoint = [number, number];
+
+const SQ_METRES_PER_SQ_YARD = 0.83612736;
+
+// Close the ring of drawn points into a polygon, or undefined when there are
+// too few points to enclose anything
+export const toBoundary = (
+  points: BoundaryPoint[]
+): BoundaryPolygon | undefined =>
+  points.length < BOUNDARY_CONFIG.minPoints
+    ? undefined
+    : { type: "Polygon", coordinates: [[...points, points[0]]] };
+
+// The corners of a boundary, without the closing repeat
+export const getBoundaryPoints = (boundary: BoundaryPolygon): BoundaryPoint[] =>
+  boundary.coordinates[0].slice(0, -1);
+
+// Area enclosed by the boundary, in square yards
+export const getBoundaryArea = (boundary: BoundaryPolygon): number =>
+  area(boundary) / SQ_METRES_PER_SQ_YARD;
+
+// How the drawn area compares with the stated minimum size. `difference` is
+// a fraction of the stated size, positive when the drawing is larger.
+export const compareBoundaryToSize = (
+  property: Pick<Property, "boundary" | "size_min">
+) => {
+  if (!property.boundary) return undefined;
+
+  const drawn = getBoundaryArea(property.boundary);
+  const stated = property.size_min;
+  const difference = stated > 0 ? (drawn - stated) / stated : 0;
+
+  return {
+    drawn,
+    stated,
+    difference,
+    matches:
+      stated <= 0 || Math.abs(difference) <= BOUNDARY_CONFIG.sizeTolerance,
+  };
+};
+
+const isPosition = (value: unknown): value is BoundaryPoint =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number" &&
+  Math.abs(value[0]) <= 180 &&
+  Math.abs(value[1]) <= 90;
+
+// Keep a stored boundary only when it is a polygon with a usable outer ring
+export const parseBoundary = (value: unknown): BoundaryPolygon | undefined => {
+  if (!value || typeof value !== "object") return undefined;
+
+  const { type, coordinates } = value as Record<string, unknown>;
+  const ring = Array.isArray(coordinates) ? coordinates[0] : undefined;
+  if (type !== "Polygon" || !Array.isArray(ring)) return undefined;
+
+  const points = ring
+    .filter(isPosition)
+    .map(([lng, lat]): BoundaryPoint => [lng, lat]);
+  const [first, last] = [points[0], points[points.length - 1]];
+  const isClosed =
+    points.length > 1 && first[0] === last[0] && first[1] === last[1];
+
+  return toBoundary(isClosed ? points.slice(0, -1) : points);
+};
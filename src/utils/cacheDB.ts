@@ -0,0 +1,417 @@
+import {
+  ChangeLogEntity,
+  ChangeLogEntry,
+  PropertyMedia,
+  TrashEntry,
+} from "../types";
+
+// IndexedDB-backed offline cache for app data and filter state
+const DB_NAME = "property_cache";
+
+// Schema version - bump and add an upgrade step in openDatabase when stores change
+const DB_VERSION = 4;
+
+export const CACHE_TABLES = [
+  "properties",
+  "persons",
+  "connections",
+  "links",
+] as const;
+
+export type CacheTable = (typeof CACHE_TABLES)[number];
+
+const META_STORE = "meta";
+
+// Offline copy of the backend's Trash, plus deletes still in the outbox
+const TRASH_STORE = "trash";
+
+// Change log entries waiting to upload to the backend, indexed by record -
+// survives cache clears
+const CHANGES_STORE = "changes";
+const CHANGES_BY_RECORD = "record";
+
+// Photos taken while offline, waiting to upload - survives cache clears
+const PENDING_MEDIA_STORE = "pending_media";
+
+export const META_KEYS = {
+  lastSync: "last_sync_time",
+  filters: "filters",
+  personFilters: "person_filters",
+} as const;
+
+// localStorage keys used before the cache moved to IndexedDB
+const LEGACY_CACHE_KEYS = {
+  properties: "cached_properties",
+  persons: "cached_persons",
+  connections: "cached_connections",
+  links: "cached_links",
+  lastSync: "last_sync_time",
+  filters: "cached_filters",
+  personFilters: "cached_person_filters",
+} as const;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const readLegacyJSON = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  } catch (error) {
+    console.error(`Error reading legacy cache key ${key}:`, error);
+    return undefined;
+  }
+};
+
+// Copy the old localStorage cache into the new stores during the first upgrade
+const migrateLegacyCache = (transaction: IDBTransaction) => {
+  let migrated = 0;
+
+  CACHE_TABLES.forEach((table) => {
+    const records = readLegacyJSON(LEGACY_CACHE_KEYS[table]);
+    if (Array.isArray(records)) {
+      const store = transaction.objectStore(table);
+      records.forEach((record) => store.put(record));
+      migrated += records.length;
+    }
+  });
+
+  const meta = transaction.objectStore(META_STORE);
+  const lastSync = localStorage.getItem(LEGACY_CACHE_KEYS.lastSync);
+  if (lastSync) {
+    meta.put(parseInt(lastSync), META_KEYS.lastSync);
+  }
+  const filters = readLegacyJSON(LEGACY_CACHE_KEYS.filters);
+  if (filters) {
+    meta.put(filters, META_KEYS.filters);
+  }
+  const personFilters = readLegacyJSON(LEGACY_CACHE_KEYS.personFilters);
+  if (personFilters) {
+    meta.put(personFilters, META_KEYS.personFilters);
+  }
+
+  // Only drop the old keys once the data is safely committed
+  transaction.addEventListener("complete", () => {
+    Object.values(LEGACY_CACHE_KEYS).forEach((key) =>
+      localStorage.removeItem(key)
+    );
+    console.log("Migrated localStorage cache to IndexedDB:", migrated);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        if (event.oldVersion < 1) {
+          CACHE_TABLES.forEach((table) =>
+            db.createObjectStore(table, { keyPath: "id" })
+          );
+          db.createObjectStore(META_STORE);
+          migrateLegacyCache(transaction);
+        }
+
+        if (event.oldVersion < 2) {
+          db.createObjectStore(TRASH_STORE, { keyPath: "id" });
+        }
+
+        if (event.oldVersion < 3) {
+          db.createObjectStore(CHANGES_STORE, {
+            keyPath: "id",
+          }).createIndex(CHANGES_BY_RECORD, ["entity", "recordId"]);
+        }
+
+        if (event.oldVersion < 4) {
+          db.createObjectStore(PENDING_MEDIA_STORE, { keyPath: "id" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        console.warn("Cache database upgrade blocked by another tab");
+    });
+
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+export const cacheDB = {
+  // Read every record of a table
+  async getAll<T>(table: CacheTable): Promise<T[]> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(table, "readonly").objectStore(table);
+      return await requestToPromise(store.getAll() as IDBRequest<T[]>);
+    } catch (error) {
+      console.error(`Error reading ${table} from cache:`, error);
+      return [];
+    }
+  },
+
+  // Write only the records that changed between two snapshots of a table.
+  // Store updates keep unchanged records by reference, so identity is enough.
+  async syncTable<T extends { id: number }>(
+    table: CacheTable,
+    previous: T[],
+    next: T[]
+  ): Promise<void> {
+    const previousById = new Map(previous.map((record) => [record.id, record]));
+    const nextIds = new Set(next.map((record) => record.id));
+
+    const changed = next.filter(
+      (record) => previousById.get(record.id) !== record
+    );
+    const removed = previous
+      .filter((record) => !nextIds.has(record.id))
+      .map((record) => record.id);
+
+    if (changed.length === 0 && removed.length === 0) return;
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(table, "readwrite");
+      const store = transaction.objectStore(table);
+      changed.forEach((record) => store.put(record));
+      removed.forEach((id) => store.delete(id));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error(`Error writing ${table} to cache:`, error);
+    }
+  },
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    try {
+      const db = await openDatabase();
+      const store = db
+        .transaction(META_STORE, "readonly")
+        .objectStore(META_STORE);
+      return await requestToPromise(
+        store.get(key) as IDBRequest<T | undefined>
+      );
+    } catch (error) {
+      console.error(`Error reading ${key} from cache:`, error);
+      return undefined;
+    }
+  },
+
+  async setMeta(key: string, value: unknown): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(META_STORE, "readwrite");
+      transaction.objectStore(META_STORE).put(value, key);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error(`Error saving ${key} to cache:`, error);
+    }
+  },
+
+  async getTrash(): Promise<TrashEntry[]> {
+    try {
+      const db = await openDatabase();
+      const store = db
+        .transaction(TRASH_STORE, "readonly")
+        .objectStore(TRASH_STORE);
+      return await requestToPromise(store.getAll() as IDBRequest<TrashEntry[]>);
+    } catch (error) {
+      console.error("Error reading trash:", error);
+      return [];
+    }
+  },
+
+  // Swap in the Trash as last read from the backend
+  async replaceTrash(entries: TrashEntry[]): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(TRASH_STORE, "readwrite");
+      const store = transaction.objectStore(TRASH_STORE);
+      store.clear();
+      entries.forEach((entry) => store.put(entry));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error saving trash:", error);
+    }
+  },
+
+  async putTrashEntry(entry: TrashEntry): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(TRASH_STORE, "readwrite");
+      transaction.objectStore(TRASH_STORE).put(entry);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error saving to trash:", error);
+    }
+  },
+
+  async deleteTrashEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(TRASH_STORE, "readwrite");
+      const store = transaction.objectStore(TRASH_STORE);
+      ids.forEach((id) => store.delete(id));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error removing from trash:", error);
+    }
+  },
+
+  async getPendingChanges(): Promise<ChangeLogEntry[]> {
+    try {
+      const db = await openDatabase();
+      return await requestToPromise(
+        db
+          .transaction(CHANGES_STORE, "readonly")
+          .objectStore(CHANGES_STORE)
+          .getAll() as IDBRequest<ChangeLogEntry[]>
+      );
+    } catch (error) {
+      console.error("Error reading change log:", error);
+      return [];
+    }
+  },
+
+  async putPendingChange(entry: ChangeLogEntry): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(CHANGES_STORE, "readwrite");
+      transaction.objectStore(CHANGES_STORE).put(entry);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error saving to change log:", error);
+    }
+  },
+
+  async deletePendingChange(id: number): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(CHANGES_STORE, "readwrite");
+      transaction.objectStore(CHANGES_STORE).delete(id);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error updating change log:", error);
+    }
+  },
+
+  // Move a record's entries to its new id, e.g. once an offline create syncs
+  async remapChanges(
+    entity: ChangeLogEntity,
+    oldId: number,
+    newId: number
+  ): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(CHANGES_STORE, "readwrite");
+      const store = transaction.objectStore(CHANGES_STORE);
+      const entries = await requestToPromise(
+        store.index(CHANGES_BY_RECORD).getAll([entity, oldId]) as IDBRequest<
+          ChangeLogEntry[]
+        >
+      );
+      entries.forEach((entry) => store.put({ ...entry, recordId: newId }));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error updating change log:", error);
+    }
+  },
+
+  async clearChanges(): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(CHANGES_STORE, "readwrite");
+      transaction.objectStore(CHANGES_STORE).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error clearing change log:", error);
+    }
+  },
+
+  async getPendingMedia(): Promise<PropertyMedia[]> {
+    try {
+      const db = await openDatabase();
+      const store = db
+        .transaction(PENDING_MEDIA_STORE, "readonly")
+        .objectStore(PENDING_MEDIA_STORE);
+      return await requestToPromise(
+        store.getAll() as IDBRequest<PropertyMedia[]>
+      );
+    } catch (error) {
+      console.error("Error loading pending photos:", error);
+      return [];
+    }
+  },
+
+  // Throws so a photo that couldn't be kept isn't reported as saved
+  async putPendingMedia(media: PropertyMedia): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PENDING_MEDIA_STORE, "readwrite");
+    transaction.objectStore(PENDING_MEDIA_STORE).put(media);
+    await transactionDone(transaction);
+  },
+
+  async deletePendingMedia(id: number): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(PENDING_MEDIA_STORE, "readwrite");
+      transaction.objectStore(PENDING_MEDIA_STORE).delete(id);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error removing pending photo:", error);
+    }
+  },
+
+  // Point photos of a property created offline at its server id
+  async remapPendingMedia(oldId: number, newId: number): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(PENDING_MEDIA_STORE, "readwrite");
+      const store = transaction.objectStore(PENDING_MEDIA_STORE);
+      const media = await requestToPromise(
+        store.getAll() as IDBRequest<PropertyMedia[]>
+      );
+      media
+        .filter((item) => item.property_id === oldId)
+        .forEach((item) => store.put({ ...item, property_id: newId }));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error updating pending photos:", error);
+    }
+  },
+
+  // Remove all cached data (logout / app version change). Trash is reloaded
+  // from the backend; the change log upload queue is kept.
+  async clear(): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const stores = [...CACHE_TABLES, META_STORE, TRASH_STORE];
+      const transaction = db.transaction(stores, "readwrite");
+      stores.forEach((store) => transaction.objectStore(store).clear());
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("Error clearing cache:", error);
+    }
+  },
+};
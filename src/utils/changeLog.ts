@@ -0,0 +1,194 @@
+import {
+  ChangeLogEntity,
+  ChangeLogEntry,
+  FieldChange,
+  Person,
+  Property,
+} from "../types";
+import { CHANGE_LOG_CONFIG } from "../constants";
+import { cacheDB } from "./cacheDB";
+import { changeLogAPI } from "./api";
+import { isBackendOnline } from "./backend";
+import { createTempId, isNetworkError, isTempId } from "./outbox";
+import { isRetryableError, SessionExpiredError } from "./errors";
+
+// Fields that get a line in a record's change timeline, with their labels.
+// Version and attribution fields change on every save and are left out.
+const PROPERTY_FIELDS: Partial<Record<keyof Property, string>> = {
+  type: "Type",
+  status: "Status",
+  area: "Area",
+  zone: "Zone",
+  price_min: "Min price",
+  price_max: "Max price",
+  price_source: "Price source",
+  size_min: "Min size",
+  size_max: "Max size",
+  dimensions: "Dimensions",
+  facing: "Facing",
+  road_width: "Road width",
+  corner: "Corner plot",
+  rating: "Rating",
+  tags: "Tags",
+  location: "Location",
+  radius: "Radius",
+  boundary: "Boundary",
+  description: "Description",
+  note: "Note",
+};
+
+const PERSON_FIELDS: Partial<Record<keyof Person, string>> = {
+  name: "Name",
+  phone: "Phone",
+  alternative_contact_details: "Alternative contact",
+  role: "Role",
+  about: "About",
+};
+
+const LOGGED_FIELDS: Record<ChangeLogEntity, Record<string, string>> = {
+  property: PROPERTY_FIELDS,
+  person: PERSON_FIELDS,
+};
+
+// Phone numbers in the timeline follow the viewPhones permission
+export const PHONE_FIELDS = ["phone", "alternative_contact_details"];
+
+export const getFieldLabel = (entity: ChangeLogEntity, field: string) =>
+  LOGGED_FIELDS[entity][field] ?? field;
+
+// Blank text and missing values count as the same thing
+const normalize = (value: unknown) =>
+  JSON.stringify(value === undefined || value === null ? "" : value);
+
+export const diffFields = (
+  entity: ChangeLogEntity,
+  before: Property | Person,
+  after: Property | Person
+): FieldChange[] => {
+  const oldValues = before as unknown as Record<string, unknown>;
+  const newValues = after as unknown as Record<string, unknown>;
+
+  return Object.keys(LOGGED_FIELDS[entity])
+    .filter(
+      (field) => normalize(oldValues[field]) !== normalize(newValues[field])
+    )
+    .map((field) => ({
+      field,
+      before: oldValues[field],
+      after: newValues[field],
+    }));
+};
+
+// Whether the record still holds the value a change left behind
+export const isCurrentValue = (
+  record: Property | Person,
+  change: FieldChange
+) =>
+  normalize((record as unknown as Record<string, unknown>)[change.field]) ===
+  normalize(change.after);
+
+type ChangeLogListener = (entry: ChangeLogEntry) => void;
+const listeners = new Set<ChangeLogListener>();
+
+// Open timelines subscribe so new edits show up without reopening the panel
+export const onChangeLogged = (listener: ChangeLogListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Worth keeping to upload later: the backend was unreachable, not refusing
+const canRetry = (error: unknown) =>
+  isNetworkError(error) ||
+  isRetryableError(error) ||
+  error instanceof SessionExpiredError;
+
+// Save the fields an edit changed, once the edit itself is saved. Edits that
+// touch none of them are skipped. When the log can't be reached, the entry
+// waits on the device until syncPendingChanges uploads it.
+export const recordFieldChanges = async (
+  entity: ChangeLogEntity,
+  before: Property | Person,
+  after: Property | Person,
+  userId?: number,
+  at = Date.now()
+) => {
+  const changes = diffFields(entity, before, after);
+  if (changes.length === 0) return;
+
+  const unsaved: Omit<ChangeLogEntry, "id"> = {
+    entity,
+    recordId: after.id,
+    changes,
+    userId,
+    at,
+  };
+
+  let entry: ChangeLogEntry | undefined;
+  if (isBackendOnline() && !isTempId(after.id)) {
+    try {
+      const { id } = await changeLogAPI.create(unsaved);
+      entry = { ...unsaved, id };
+    } catch (error) {
+      if (!canRetry(error)) {
+        console.error("Change log entry rejected by server:", error);
+        return;
+      }
+    }
+  }
+
+  if (!entry) {
+    entry = { ...unsaved, id: createTempId() };
+    await cacheDB.putPendingChange(entry);
+  }
+  listeners.forEach((listener) => listener(entry!));
+};
+
+// Upload entries saved on the device, oldest first. That includes entries
+// from before the log was kept on the backend.
+export const syncPendingChanges = async () => {
+  if (!isBackendOnline()) return;
+
+  const pending = (await cacheDB.getPendingChanges())
+    .filter((entry) => !isTempId(entry.recordId))
+    .sort((a, b) => a.at - b.at);
+
+  for (const entry of pending) {
+    const { id, ...unsaved } = entry;
+    try {
+      await changeLogAPI.create(unsaved);
+    } catch (error) {
+      if (canRetry(error)) break;
+      console.error(
+        "Queued change log entry rejected by server:",
+        entry,
+        error
+      );
+    }
+    await cacheDB.deletePendingChange(id);
+  }
+};
+
+// Newest first, including entries still waiting to upload
+export const getRecordChanges = async (
+  entity: ChangeLogEntity,
+  recordId: number
+): Promise<ChangeLogEntry[]> => {
+  const pending = (await cacheDB.getPendingChanges()).filter(
+    (entry) => entry.entity === entity && entry.recordId === recordId
+  );
+
+  let saved: ChangeLogEntry[] = [];
+  if (isBackendOnline() && !isTempId(recordId)) {
+    try {
+      saved = await changeLogAPI.getByRecord(entity, recordId);
+    } catch (error) {
+      console.error("Failed to load change log:", error);
+    }
+  }
+
+  return [...saved, ...pending]
+    .sort((a, b) => b.at - a.at)
+    .slice(0, CHANGE_LOG_CONFIG.maxEntriesPerRecord);
+};
@@ -0,0 +1,69 @@
+import {
+  CustomFieldValue,
+  CustomFieldValues,
+  Property,
+  PropertyType,
+} from "../types";
+import { CUSTOM_FIELDS, CustomFieldDefinition } from "../constants";
+
+export const getCustomFields = (
+  type: PropertyType | undefined
+): readonly CustomFieldDefinition[] => CUSTOM_FIELDS[type || "Other"] ?? [];
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+// Only the fields defined for the property's type, without blank ones, so
+// switching type in the form doesn't carry stale answers along
+export const pickCustomFields = (
+  type: PropertyType | undefined,
+  values: CustomFieldValues | undefined
+): CustomFieldValues =>
+  Object.fromEntries(
+    getCustomFields(type)
+      .filter((field) => !isBlank(values?.[field.key]))
+      .map((field) => [field.key, values![field.key]])
+  );
+
+export const formatCustomValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue
+): string => {
+  if (field.kind === "boolean") return value ? "Yes" : "No";
+  return field.unit ? `${value} ${field.unit}` : String(value);
+};
+
+// Label and formatted value of each filled-in field, in definition order
+export const describeCustomFields = (
+  property: Pick<Property, "type" | "custom_fields">
+) =>
+  getCustomFields(property.type)
+    .filter((field) => !isBlank(property.custom_fields?.[field.key]))
+    .map((field) => ({
+      label: field.label,
+      value: formatCustomValue(field, property.custom_fields![field.key]),
+    }));
+
+export const matchesCustomFields = (
+  property: Pick<Property, "type" | "custom_fields">,
+  filters: CustomFieldValues
+): boolean =>
+  Object.entries(filters).every(([key, wanted]) => {
+    const field = getCustomFields(property.type).find((f) => f.key === key);
+    const value = property.custom_fields?.[key];
+    if (!field || isBlank(value)) return false;
+
+    return field.kind === "number"
+      ? Number(value) >= Number(wanted)
+      : value === wanted;
+  });
+
+// Keep only plain values from a stored object
+export const parseCustomFields = (value: unknown): CustomFieldValues =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter(([, v]) =>
+          ["string", "number", "boolean"].includes(typeof v)
+        )
+      )
+    : {};
@@ -0,0 +1,54 @@
+import { DocumentType, Property, PropertyDocument } from "../types";
+import { DOCUMENT_STATUSES, DOCUMENT_TYPES } from "../constants";
+
+export const getDocument = (
+  property: Pick<Property, "documents">,
+  type: DocumentType
+): PropertyDocument =>
+  property.documents?.find((document) => document.type === type) ?? {
+    type,
+    status: "Pending",
+  };
+
+// Replace the entry for one document type, keeping the checklist in
+// DOCUMENT_TYPES order
+export const withDocument = <T extends Pick<Property, "documents">>(
+  property: T,
+  document: PropertyDocument
+): T => ({
+  ...property,
+  documents: DOCUMENT_TYPES.map((type) =>
+    type === document.type ? document : getDocument(property, type)
+  ),
+});
+
+// Available documents out of those that apply to the property
+export const getDocumentCompleteness = (
+  property: Pick<Property, "documents">
+) => {
+  const applicable = DOCUMENT_TYPES.map((type) =>
+    getDocument(property, type)
+  ).filter((document) => document.status !== "Not Applicable");
+
+  return {
+    available: applicable.filter((document) => document.status === "Available")
+      .length,
+    total: applicable.length,
+  };
+};
+
+export const hasDocuments = (
+  property: Pick<Property, "documents">,
+  types: DocumentType[]
+) => types.every((type) => getDocument(property, type).status === "Available");
+
+// Keep only well-formed entries from a stored checklist
+export const parseDocuments = (value: unknown): PropertyDocument[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (document): document is PropertyDocument =>
+          !!document &&
+          DOCUMENT_TYPES.includes(document.type) &&
+          DOCUMENT_STATUSES.includes(document.status)
+      )
+    : [];
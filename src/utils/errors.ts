@@ -0,0 +1,168 @@
+// Typed errors raised by the API request pipeline
+
+// Base class so callers can tell API failures apart from programming errors
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, connection reset)
+export class NetworkError extends ApiError {
+  constructor(message = "Could not reach the server") {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+// The server didn't answer within the configured timeout
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends ApiError {
+  readonly status: number;
+  // From the Retry-After header, when the server sent one
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, statusText = "", retryAfterMs?: number) {
+    super(`HTTP error! status: ${status}${statusText ? ` ${statusText}` : ""}`);
+    this.name = "HttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The server no longer accepts our session token: it expired, was revoked,
+// or the account was disabled. The user has to sign in again.
+export class SessionExpiredError extends HttpError {
+  constructor() {
+    super(401, "Unauthorized");
+    this.name = "SessionExpiredError";
+    this.message = "your session has expired - sign in again";
+  }
+}
+
+// The server answered 2xx but reported a failure in `result.error`
+// (or sent a body that isn't JSON)
+export class ApiResponseError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiResponseError";
+  }
+}
+
+// Someone else saved the record after we loaded it; `current` is their copy
+export class ConflictError<T = unknown> extends ApiError {
+  readonly current: T;
+
+  constructor(current: T) {
+    super("This record was changed by someone else since you opened it");
+    this.name = "ConflictError";
+    this.current = current;
+  }
+}
+
+// A batch of writes failed. `rolledBack` says whether everything already
+// applied was undone, so the data is as it was before the batch.
+export class BatchError extends ApiError {
+  readonly rolledBack: boolean;
+  readonly cause: unknown;
+
+  constructor(cause: unknown, rolledBack: boolean) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      rolledBack
+        ? `${reason}. Nothing was changed.`
+        : `${reason}. Some changes could not be undone - refresh to see the current data.`
+    );
+    this.name = "BatchError";
+    this.rolledBack = rolledBack;
+    this.cause = cause;
+  }
+}
+
+// The request was aborted because a newer one replaced it, or it was cancelled
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super("Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+// The signed-in user's role doesn't allow the action. Raised before any
+// request is sent; the server enforces the same rules.
+export class PermissionError extends Error {
+  constructor(action: string) {
+    super(`Your role doesn't allow you to ${action}`);
+    this.name = "PermissionError";
+  }
+}
+
+// Too many wrong PINs - signing in is blocked until `retryAt`
+export class LoginLockedError extends Error {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super("too many failed attempts");
+    this.name = "LoginLockedError";
+    this.retryAt = retryAt;
+  }
+}
+
+// A picked file couldn't be read or converted into a photo
+export class MediaProcessingError extends Error {
+  constructor(fileName: string) {
+    super(`${fileName} is not a readable image`);
+    this.name = "MediaProcessingError";
+  }
+}
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof RequestCancelledError;
+
+// Failures that may succeed if the same request is sent again
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  (error instanceof HttpError && (error.status >= 500 || error.status === 429));
+
+// User-facing message for a failed request
+export const describeError = (error: unknown, fallback: string): string => {
+  if (error instanceof TimeoutError) {
+    return `${fallback}: the server took too long to respond`;
+  }
+  if (error instanceof NetworkError) {
+    return `${fallback}: check your internet connection`;
+  }
+  if (error instanceof SessionExpiredError) {
+    return `${fallback}: ${error.message}`;
+  }
+  if (error instanceof HttpError) {
+    return error.status >= 500
+      ? `${fallback}: the server is having problems (${error.status})`
+      : `${fallback} (${error.status})`;
+  }
+  if (error instanceof BatchError) {
+    return `${fallback}: ${error.message}`;
+  }
+  if (error instanceof ConflictError) {
+    return `${fallback}: ${error.message}`;
+  }
+  if (
+    error instanceof ApiResponseError ||
+    error instanceof PermissionError ||
+    error instanceof LoginLockedError ||
+    error instanceof MediaProcessingError
+  ) {
+    return `${fallback}: ${error.message}`;
+  }
+  return fallback;
+};
@@ -1,3 +1,6 @@
+import { AreaUnit } from "../types";
+import { AREA_UNITS } from "../constants";
+
 export const formatCurrency = (value: number): string => {
   // All amounts are already in lakhs, so just format them appropriately
   if (value >= 100) {
@@ -10,18 +13,20 @@ export const formatCurrency = (value: number): string => {
 };
 
 /**
- * Calculate and format rate per gaj (square yard)
+ * Calculate and format rate per gaj (square yard), or per another land unit
  * @param priceMin - Minimum price in lakhs
  * @param priceMax - Maximum price in lakhs  
  * @param sizeMin - Minimum size in square yards
  * @param sizeMax - Maximum size in square yards
- * @returns Formatted rate per gaj string
+ * @param unit - Unit to quote the rate in, gaj by default
+ * @returns Formatted rate per unit string
  */
 export const formatRatePerGaj = (
   priceMin: number,
   priceMax: number,
   sizeMin: number,
-  sizeMax: number
+  sizeMax: number,
+  unit: AreaUnit = "gaj"
 ): string => {
   // Handle zero or invalid sizes
   if (!sizeMin || sizeMin <= 0) {
@@ -32,21 +37,22 @@ export const formatRatePerGaj = (
   const priceMinRupees = priceMin * 100000;
   const priceMaxRupees = priceMax * 100000;
 
-  // Calculate rate per gaj
-  const rateMin = Math.round(priceMinRupees / sizeMin);
+  // Calculate rate per unit
+  const { sqYards, short } = AREA_UNITS[unit];
+  const rateMin = Math.round((priceMinRupees * sqYards) / sizeMin);
   
   // If there's a price range, calculate max rate
   if (priceMax > priceMin && sizeMax > 0) {
-    const rateMax = Math.round(priceMaxRupees / sizeMax);
+    const rateMax = Math.round((priceMaxRupees * sqYards) / sizeMax);
     
     // If rates are different, show range
     if (rateMin !== rateMax) {
-      return `₹${formatNumber(rateMin)} - ₹${formatNumber(rateMax)}/gaj`;
+      return `₹${formatNumber(rateMin)} - ₹${formatNumber(rateMax)}/${short}`;
     }
   }
   
   // Single rate
-  return `₹${formatNumber(rateMin)}/gaj`;
+  return `₹${formatNumber(rateMin)}/${short}`;
 };
 
 /**
@@ -0,0 +1,143 @@
+import {
+  Property,
+  Person,
+  OutboxEntity,
+  HistoryChange,
+  HistoryEntry,
+} from "../types";
+import { HISTORY_CONFIG } from "../constants";
+
+const getRecordName = (change: HistoryChange): string => {
+  const record = change.kind === "update" ? change.after : change.record;
+
+  switch (change.entity) {
+    case "property": {
+      const { area, type } = record as Property;
+      return area ? `${type || "property"} in ${area}` : type || "property";
+    }
+    case "person":
+      return (record as Person).name || "person";
+    default:
+      return change.entity;
+  }
+};
+
+const PROPERTY_FIELD_LABELS: Partial<Record<keyof Property, string>> = {
+  tags: "tags",
+  price_min: "price",
+  price_max: "price",
+  size_min: "size",
+  size_max: "size",
+  rating: "rating",
+  location: "location",
+  note: "note",
+  description: "description",
+};
+
+// Name the edited field when a property update touched only one of them
+const describePropertyUpdate = (before: Property, after: Property) => {
+  const changed = new Set(
+    (Object.keys(PROPERTY_FIELD_LABELS) as (keyof Property)[])
+      .filter(
+        (field) =>
+          JSON.stringify(before[field]) !== JSON.stringify(after[field])
+      )
+      .map((field) => PROPERTY_FIELD_LABELS[field])
+  );
+  return changed.size === 1 ? [...changed][0] : null;
+};
+
+export const getHistoryLabel = (change: HistoryChange): string => {
+  const name = getRecordName(change);
+
+  switch (change.kind) {
+    case "create":
+      return `Added ${name}`;
+    case "delete":
+      return `Deleted ${name}`;
+    case "update": {
+      const field =
+        change.entity === "property"
+          ? describePropertyUpdate(change.before, change.after)
+          : null;
+      return field ? `Changed ${field} of ${name}` : `Edited ${name}`;
+    }
+  }
+};
+
+export const createHistoryEntry = (change: HistoryChange): HistoryEntry => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  label: getHistoryLabel(change),
+  change,
+  createdAt: Date.now(),
+});
+
+// Push onto a stack, dropping the oldest entries past the limit
+export const pushHistoryEntry = (
+  stack: HistoryEntry[],
+  entry: HistoryEntry
+): HistoryEntry[] => [...stack, entry].slice(-HISTORY_CONFIG.maxEntries);
+
+// Undoing a delete or redoing a create brings the record back with a new id,
+// and offline creates get theirs from the server on sync. History keeps the
+// ids it was recorded with and resolves them here.
+const currentIds = new Map<string, number>();
+
+const idKey = (entity: OutboxEntity, id: number) => `${entity}:${id}`;
+
+export const remapHistoryId = (
+  entity: OutboxEntity,
+  oldId: number,
+  newId: number
+) => {
+  if (oldId !== newId) currentIds.set(idKey(entity, oldId), newId);
+};
+
+export const resolveHistoryId = (entity: OutboxEntity, id: number): number => {
+  let resolved = id;
+  const seen = new Set<number>();
+  while (currentIds.has(idKey(entity, resolved)) && !seen.has(resolved)) {
+    seen.add(resolved);
+    resolved = currentIds.get(idKey(entity, resolved))!;
+  }
+  return resolved;
+};
+
+// Each save of a property from this app moves it to a new version. Steps are
+// checked against the version they left the property at, followed through
+// those saves, so undo still refuses to overwrite an edit made elsewhere.
+const nextVersions = new Map<string, string>();
+
+const versionKey = (id: number, version: string) => `${id}:${version}`;
+
+export const advanceHistoryVersion = (
+  propertyId: number,
+  from: string | undefined,
+  to: string | undefined
+) => {
+  if (from && to && from !== to) {
+    nextVersions.set(versionKey(propertyId, from), to);
+  }
+};
+
+export const resolveHistoryVersion = (
+  propertyId: number,
+  version: string | undefined
+): string | undefined => {
+  let resolved = version;
+  const seen = new Set<string>();
+  while (
+    resolved &&
+    nextVersions.has(versionKey(propertyId, resolved)) &&
+    !seen.has(resolved)
+  ) {
+    seen.add(resolved);
+    resolved = nextVersions.get(versionKey(propertyId, resolved))!;
+  }
+  return resolved;
+};
+
+export const clearHistoryIds = () => {
+  currentIds.clear();
+  nextVersions.clear();
+};
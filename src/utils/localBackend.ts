@@ -0,0 +1,714 @@
+import {
+  Property,
+  Person,
+  Connection,
+  Link,
+  User,
+  PropertyMedia,
+  ChangeLogEntry,
+  TrashEntity,
+} from "../types";
+import { BACKEND_CONFIG, CHANGE_LOG_CONFIG } from "../constants";
+import {
+  BackendAdapter,
+  AccountBackend,
+  QueryParams,
+  MutationResult,
+  CreateResult,
+  isStaleVersion,
+  withoutDeleted,
+} from "./backend";
+import { createTrashEntry } from "./trash";
+import { requestToPromise, transactionDone } from "./cacheDB";
+import { ApiResponseError, ConflictError, BatchError } from "./errors";
+import { hashPin, verifyPin } from "./pinHash";
+
+// Fully local backend: the browser's IndexedDB is the source of truth, so the
+// app works with no server (solo use, demos and testing)
+const DB_VERSION = 4;
+
+const TABLES = ["properties", "persons", "connections", "links"] as const;
+
+type LocalTable = (typeof TABLES)[number];
+
+// Fields holding when each table's rows were added and last changed. Links
+// use the server's column names; the rest use the frontend ones.
+const TIMESTAMP_FIELDS: Record<LocalTable, [string, string]> = {
+  properties: ["created_on", "updated_on"],
+  persons: ["created_on", "updated_on"],
+  connections: ["created_on", "updated_on"],
+  links: ["created_at", "updated_at"],
+};
+
+// Accounts sit beside the data but never take part in batches or full loads
+const USERS_STORE = "users";
+
+// Property photos, kept out of TABLES since they are large and only read
+// one property at a time
+const MEDIA_STORE = "media";
+const MEDIA_BY_PROPERTY = "property";
+
+// Field-level edit history, read one record at a time
+const CHANGES_STORE = "changes";
+const CHANGES_BY_RECORD = "record";
+
+interface StoredUser extends User {
+  pin_hash: string;
+  pin_salt: string;
+}
+
+interface LocalRecords {
+  properties: Property;
+  persons: Person;
+  connections: Connection;
+  links: Link;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(
+        BACKEND_CONFIG.localDatabaseName,
+        DB_VERSION
+      );
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+
+        if (event.oldVersion < 1) {
+          TABLES.forEach((table) =>
+            db.createObjectStore(table, { keyPath: "id", autoIncrement: true })
+          );
+        }
+
+        if (event.oldVersion < 2) {
+          db.createObjectStore(USERS_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+
+        if (event.oldVersion < 3) {
+          db.createObjectStore(MEDIA_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          }).createIndex(MEDIA_BY_PROPERTY, "property_id");
+        }
+
+        if (event.oldVersion < 4) {
+          db.createObjectStore(CHANGES_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          }).createIndex(CHANGES_BY_RECORD, ["entity", "recordId"]);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+const readAll = async <T extends LocalTable>(
+  table: T
+): Promise<LocalRecords[T][]> => {
+  const db = await openDatabase();
+  const store = db.transaction(table, "readonly").objectStore(table);
+  return requestToPromise(store.getAll() as IDBRequest<LocalRecords[T][]>);
+};
+
+const readOne = async <T extends LocalTable>(
+  table: T,
+  id: number
+): Promise<LocalRecords[T] | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(table, "readonly").objectStore(table);
+  return requestToPromise(
+    store.get(id) as IDBRequest<LocalRecords[T] | undefined>
+  );
+};
+
+// Match the REST endpoint's query params: every given field must be equal
+const matchesFilters = (record: object, filters: QueryParams = {}) =>
+  Object.entries(filters).every(
+    ([key, value]) =>
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      String((record as Record<string, unknown>)[key]) === String(value)
+  );
+
+const query = async <T extends LocalTable>(
+  table: T,
+  filters?: QueryParams
+): Promise<LocalRecords[T][]> =>
+  (await readAll(table)).filter((record) => matchesFilters(record, filters));
+
+const insert = async <T extends LocalTable>(
+  table: T,
+  record: Omit<LocalRecords[T], "id">
+): Promise<CreateResult> => {
+  // Let IndexedDB assign the id, like the server's auto increment. The key
+  // generator also writes it into the stored record's id field.
+  const copy = { ...record } as Partial<LocalRecords[T]>;
+  delete copy.id;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(table, "readwrite");
+  const id = await requestToPromise(transaction.objectStore(table).add(copy));
+  await transactionDone(transaction);
+
+  return { success: true, id: Number(id) };
+};
+
+const replace = async <T extends LocalTable>(
+  table: T,
+  record: LocalRecords[T]
+): Promise<MutationResult> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(table, "readwrite");
+  const store = transaction.objectStore(table);
+
+  const existing = await requestToPromise(store.get(record.id));
+  if (!existing) {
+    transaction.abort();
+    throw new ApiResponseError(`Record ${record.id} not found in ${table}`);
+  }
+
+  store.put(record);
+  await transactionDone(transaction);
+  return { success: true };
+};
+
+// Delete records, cascading the same way the server does
+const remove = async (
+  table: LocalTable,
+  ids: number[],
+  cascade: { connections?: number[]; links?: number[] } = {}
+): Promise<MutationResult> => {
+  const db = await openDatabase();
+  const stores = Array.from(
+    new Set<LocalTable>([table, "connections", "links"])
+  );
+  const transaction = db.transaction(stores, "readwrite");
+
+  ids.forEach((id) => transaction.objectStore(table).delete(id));
+  (cascade.connections || []).forEach((id) =>
+    transaction.objectStore("connections").delete(id)
+  );
+  (cascade.links || []).forEach((id) =>
+    transaction.objectStore("links").delete(id)
+  );
+
+  await transactionDone(transaction);
+  return { success: true };
+};
+
+const now = () => new Date().toISOString();
+
+const ids = (records: { id: number }[]) => records.map((record) => record.id);
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+// Records in Trash are only read through the trash adapter
+const isLive = (record: { deleted_at?: string }) => !record.deleted_at;
+
+// Flag a record as in Trash, or clear the flag to restore it
+const setDeletedAt = async (
+  entity: TrashEntity,
+  id: number,
+  deletedAt: string
+): Promise<MutationResult> => {
+  const table = entity === "property" ? "properties" : "persons";
+  const record = await readOne(table, id);
+  if (!record) {
+    throw new ApiResponseError(`Record ${id} not found in ${table}`);
+  }
+
+  const copy: Property | Person = { ...record };
+  if (deletedAt) {
+    copy.deleted_at = deletedAt;
+  } else {
+    delete copy.deleted_at;
+  }
+  return entity === "property"
+    ? replace("properties", copy as Property)
+    : replace("persons", copy as Person);
+};
+
+const readMedia = async (propertyId: number): Promise<PropertyMedia[]> => {
+  const db = await openDatabase();
+  const store = db
+    .transaction(MEDIA_STORE, "readonly")
+    .objectStore(MEDIA_STORE);
+  return requestToPromise(
+    store.index(MEDIA_BY_PROPERTY).getAll(propertyId) as IDBRequest<
+      PropertyMedia[]
+    >
+  );
+};
+
+const removeMedia = async (ids: number[]): Promise<MutationResult> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MEDIA_STORE, "readwrite");
+  ids.forEach((id) => transaction.objectStore(MEDIA_STORE).delete(id));
+  await transactionDone(transaction);
+  return { success: true };
+};
+
+const readUsers = async (): Promise<StoredUser[]> => {
+  const db = await openDatabase();
+  const store = db
+    .transaction(USERS_STORE, "readonly")
+    .objectStore(USERS_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<StoredUser[]>);
+};
+
+const writeUser = async (
+  user: StoredUser | Omit<StoredUser, "id">
+): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(USERS_STORE, "readwrite");
+  const id = await requestToPromise(
+    transaction.objectStore(USERS_STORE).put(user)
+  );
+  await transactionDone(transaction);
+  return Number(id);
+};
+
+const findUser = async (id: number): Promise<StoredUser> => {
+  const user = (await readUsers()).find((u) => u.id === id);
+  if (!user) {
+    throw new ApiResponseError("User not found");
+  }
+  return user;
+};
+
+// Strip the PIN hash, which never leaves the backend
+const toUser = (stored: StoredUser): User => ({
+  id: stored.id,
+  username: stored.username,
+  name: stored.name,
+  role: stored.role,
+  disabled: stored.disabled,
+  created_at: stored.created_at,
+});
+
+// Local stand-in for the server's account checks, with salted PIN hashes
+const localAccounts: AccountBackend = {
+  login: async (username, pin) => {
+    const user = (await readUsers()).find(
+      (u) => u.username === normalizeUsername(username)
+    );
+    if (!user || user.disabled) return null;
+
+    const matches = await verifyPin(pin, {
+      hash: user.pin_hash,
+      salt: user.pin_salt,
+    });
+    // Nothing travels over the network, so there's no token to check
+    return matches ? { user: toUser(user), token: null } : null;
+  },
+
+  // This browser is the only client, so there are no other sessions to end
+  logout: async () => {},
+
+  revokeSessions: async () => ({ success: true }),
+
+  needsSetup: async () => (await readUsers()).length === 0,
+
+  getAll: async () => (await readUsers()).map(toUser),
+
+  create: async ({ pin, ...user }) => {
+    const username = normalizeUsername(user.username);
+    if ((await readUsers()).some((u) => u.username === username)) {
+      throw new ApiResponseError(`Username "${username}" is already taken`);
+    }
+
+    const { hash, salt } = await hashPin(pin);
+    const id = await writeUser({
+      ...user,
+      username,
+      pin_hash: hash,
+      pin_salt: salt,
+      created_at: now(),
+    });
+    return { success: true, id };
+  },
+
+  update: async (user) => {
+    const users = await readUsers();
+    const stored = users.find((u) => u.id === user.id);
+    if (!stored) {
+      throw new ApiResponseError("User not found");
+    }
+    const updated = {
+      ...stored,
+      name: user.name,
+      role: user.role,
+      disabled: user.disabled,
+    };
+
+    // Someone must always be able to manage accounts
+    const hasAdmin = users
+      .map((u) => (u.id === updated.id ? updated : u))
+      .some((u) => u.role === "admin" && !u.disabled);
+    if (!hasAdmin) {
+      throw new ApiResponseError("At least one active admin is required");
+    }
+
+    await writeUser(updated);
+    return { success: true };
+  },
+
+  resetPin: async (id, pin) => {
+    const stored = await findUser(id);
+    const { hash, salt } = await hashPin(pin);
+    await writeUser({ ...stored, pin_hash: hash, pin_salt: salt });
+    return { success: true };
+  },
+};
+
+export const localBackend: BackendAdapter = {
+  mode: "local",
+
+  properties: {
+    getAll: async (filters) =>
+      (await query("properties", filters)).filter(isLive),
+
+    getById: async (id) => {
+      const property = await readOne("properties", id);
+      if (!property) {
+        throw new ApiResponseError("Property not found");
+      }
+
+      const connections = await query("connections", { property_id: id });
+      const personIds = new Set(connections.map((c) => c.person_id));
+      const persons = (await readAll("persons")).filter((p) =>
+        personIds.has(p.id)
+      );
+      const links = await query("links", { property_id: id });
+
+      return { property, persons, connections, links };
+    },
+
+    create: (property) =>
+      insert("properties", {
+        ...property,
+        created_on: now(),
+        updated_on: now(),
+      }),
+
+    update: async (property) => {
+      const current = await readOne("properties", property.id);
+      if (current && isStaleVersion(property, current)) {
+        throw new ConflictError(current);
+      }
+
+      const updated_on = now();
+      await replace("properties", { ...property, updated_on });
+      return { success: true, updated_on };
+    },
+
+    delete: async (id) => {
+      const result = await remove("properties", [id], {
+        connections: ids(await query("connections", { property_id: id })),
+        links: ids(await query("links", { property_id: id })),
+      });
+      await removeMedia(ids(await readMedia(id)));
+      return result;
+    },
+
+    search: async (searchQuery, filters) => {
+      const term = searchQuery.toLowerCase();
+      return (await query("properties", filters)).filter(
+        (p) => isLive(p) && (p.area || "").toLowerCase().includes(term)
+      );
+    },
+  },
+
+  persons: {
+    getAll: async (filters) => (await query("persons", filters)).filter(isLive),
+
+    getById: async (id) => {
+      const person = await readOne("persons", id);
+      if (!person) {
+        throw new ApiResponseError("Person not found");
+      }
+
+      const connections = await query("connections", { person_id: id });
+      const propertyIds = new Set(connections.map((c) => c.property_id));
+      const properties = (await readAll("properties")).filter((p) =>
+        propertyIds.has(p.id)
+      );
+      const links = (await readAll("links")).filter((l) =>
+        propertyIds.has(l.property_id)
+      );
+
+      return { person, properties, connections, links };
+    },
+
+    create: (person) =>
+      insert("persons", { ...person, created_on: now(), updated_on: now() }),
+
+    update: (person) => replace("persons", { ...person, updated_on: now() }),
+
+    delete: async (id) =>
+      remove("persons", [id], {
+        connections: ids(await query("connections", { person_id: id })),
+      }),
+
+    search: async (searchQuery) => {
+      const term = searchQuery.toLowerCase();
+      return (await readAll("persons")).filter(
+        (p) => isLive(p) && p.name.toLowerCase().includes(term)
+      );
+    },
+  },
+
+  connections: {
+    getAll: (filters) => query("connections", filters),
+
+    getByPropertyId: (propertyId) =>
+      query("connections", { property_id: propertyId }),
+
+    getByPersonId: (personId) => query("connections", { person_id: personId }),
+
+    create: (connection) =>
+      insert("connections", {
+        ...connection,
+        created_on: now(),
+        updated_on: now(),
+      }),
+
+    update: (connection) =>
+      replace("connections", { ...connection, updated_on: now() }),
+
+    delete: (id) => remove("connections", [id]),
+
+    deleteByPropertyId: async (propertyId) =>
+      remove(
+        "connections",
+        ids(await query("connections", { property_id: propertyId }))
+      ),
+
+    deleteByPersonId: async (personId) =>
+      remove(
+        "connections",
+        ids(await query("connections", { person_id: personId }))
+      ),
+  },
+
+  links: {
+    getAll: (filters) => query("links", filters),
+
+    getByPropertyId: (propertyId) =>
+      query("links", { property_id: propertyId }),
+
+    create: (link) =>
+      insert("links", { ...link, created_at: now(), updated_at: now() }),
+
+    update: (link) => replace("links", { ...link, updated_at: now() }),
+
+    delete: (id) => remove("links", [id]),
+
+    deleteByPropertyId: async (propertyId) =>
+      remove("links", ids(await query("links", { property_id: propertyId }))),
+  },
+
+  media: {
+    getByPropertyId: readMedia,
+
+    getThumbnail: async (id) => {
+      const db = await openDatabase();
+      const media = await requestToPromise(
+        db
+          .transaction(MEDIA_STORE, "readonly")
+          .objectStore(MEDIA_STORE)
+          .get(id) as IDBRequest<PropertyMedia | undefined>
+      );
+      return media?.thumbnail;
+    },
+
+    create: async (media) => {
+      const db = await openDatabase();
+      const transaction = db.transaction(MEDIA_STORE, "readwrite");
+      const id = await requestToPromise(
+        transaction
+          .objectStore(MEDIA_STORE)
+          .add({ ...media, created_at: now() })
+      );
+      await transactionDone(transaction);
+      return { success: true, id: Number(id) };
+    },
+
+    delete: (id) => removeMedia([id]),
+  },
+
+  changes: {
+    getByRecord: async (entity, recordId) => {
+      const db = await openDatabase();
+      return requestToPromise(
+        db
+          .transaction(CHANGES_STORE, "readonly")
+          .objectStore(CHANGES_STORE)
+          .index(CHANGES_BY_RECORD)
+          .getAll([entity, recordId]) as IDBRequest<ChangeLogEntry[]>
+      );
+    },
+
+    // Drops the record's oldest entries past the limit
+    create: async (entry) => {
+      const db = await openDatabase();
+      const transaction = db.transaction(CHANGES_STORE, "readwrite");
+      const store = transaction.objectStore(CHANGES_STORE);
+      const id = await requestToPromise(store.add({ ...entry }));
+
+      const existing = await requestToPromise(
+        store
+          .index(CHANGES_BY_RECORD)
+          .getAll([entry.entity, entry.recordId]) as IDBRequest<
+          ChangeLogEntry[]
+        >
+      );
+      existing
+        .sort((a, b) => b.at - a.at)
+        .slice(CHANGE_LOG_CONFIG.maxEntriesPerRecord)
+        .forEach((old) => store.delete(old.id));
+
+      await transactionDone(transaction);
+      return { success: true, id: Number(id) };
+    },
+  },
+
+  trash: {
+    getAll: async () => {
+      const [properties, persons, connections, links] = await Promise.all([
+        readAll("properties"),
+        readAll("persons"),
+        readAll("connections"),
+        readAll("links"),
+      ]);
+
+      return [
+        ...properties
+          .filter((p) => p.deleted_at)
+          .map((p) =>
+            createTrashEntry(
+              "property",
+              p,
+              connections.filter((c) => c.property_id === p.id),
+              links.filter((l) => l.property_id === p.id)
+            )
+          ),
+        ...persons
+          .filter((p) => p.deleted_at)
+          .map((p) =>
+            createTrashEntry(
+              "person",
+              p,
+              connections.filter((c) => c.person_id === p.id),
+              []
+            )
+          ),
+      ];
+    },
+
+    remove: (entity, id) => setDeletedAt(entity, id, now()),
+
+    restore: (entity, id) => setDeletedAt(entity, id, ""),
+
+    // Same cascade as the hard deletes, photos included
+    purge: (entity, id) =>
+      entity === "property"
+        ? localBackend.properties.delete(id)
+        : localBackend.persons.delete(id),
+  },
+
+  accounts: localAccounts,
+
+  loadAll: async () => {
+    const [properties, persons, connections, links] = await Promise.all([
+      readAll("properties"),
+      readAll("persons"),
+      readAll("connections"),
+      readAll("links"),
+    ]);
+    return withoutDeleted({ properties, persons, connections, links });
+  },
+
+  // One IndexedDB transaction, so a failure anywhere aborts every step
+  runBatch: async (operations) => {
+    // Versioned rows are checked up front, as single updates are
+    for (const operation of operations) {
+      if (operation.table !== "properties" || operation.action !== "update") {
+        continue;
+      }
+      for (const row of operation.rows) {
+        const current = await readOne("properties", row.id);
+        if (current && isStaleVersion(row, current)) {
+          throw new BatchError(new ConflictError(current), true);
+        }
+      }
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction([...TABLES], "readwrite");
+    const created = operations.map(() => [] as IDBRequest<IDBValidKey>[]);
+
+    try {
+      operations.forEach((operation, index) => {
+        const store = transaction.objectStore(operation.table);
+
+        if (operation.action === "delete") {
+          operation.ids.forEach((id) => store.delete(id));
+        } else if (operation.action === "update") {
+          const [, updatedField] = TIMESTAMP_FIELDS[operation.table];
+          operation.rows.forEach((row) =>
+            store.put({ ...row, [updatedField]: now() })
+          );
+        } else {
+          const [createdField, updatedField] =
+            TIMESTAMP_FIELDS[operation.table];
+          operation.rows.forEach((row) => {
+            const copy: Record<string, unknown> = { ...row };
+            delete copy.id;
+            copy[createdField] = copy[updatedField] = now();
+            created[index].push(store.add(copy));
+          });
+        }
+      });
+    } catch (error) {
+      // Don't let the steps queued before the failing one commit
+      transaction.abort();
+      throw new BatchError(error, true);
+    }
+
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      throw new BatchError(error, true);
+    }
+
+    return {
+      success: true,
+      createdIds: created.map((requests) =>
+        requests.map((request) => Number(request.result))
+      ),
+    };
+  },
+
+  // A full load from IndexedDB is cheap, so refreshes always use it
+  fetchChangesSince: async () => {
+    throw new ApiResponseError("Delta sync not supported by the local backend");
+  },
+};
@@ -0,0 +1,142 @@
+// Brute-force protection for PIN entry on this device, plus a log of every
+// attempt. Both live in localStorage so a reload doesn't reset them; the
+// server keeps its own count for anyone who clears storage.
+import { LoginAuditEntry } from "../types";
+import { AUTH_CONFIG } from "../constants";
+
+interface AttemptState {
+  failures: number;
+  lockedUntil: number;
+}
+
+const emptyState: AttemptState = { failures: 0, lockedUntil: 0 };
+
+const loadState = (): AttemptState => {
+  try {
+    const saved = JSON.parse(
+      localStorage.getItem(AUTH_CONFIG.attemptsStorageKey) || "null"
+    );
+    return typeof saved?.failures === "number" &&
+      typeof saved?.lockedUntil === "number"
+      ? saved
+      : emptyState;
+  } catch (error) {
+    console.error("Error loading login attempts:", error);
+    return emptyState;
+  }
+};
+
+const saveState = (state: AttemptState) => {
+  try {
+    localStorage.setItem(AUTH_CONFIG.attemptsStorageKey, JSON.stringify(state));
+  } catch (error) {
+    console.error("Error saving login attempts:", error);
+  }
+};
+
+// When PIN entry opens again, or null if it isn't locked
+export const getLockedUntil = (): number | null => {
+  const { lockedUntil } = loadState();
+  return lockedUntil > Date.now() ? lockedUntil : null;
+};
+
+// Count a wrong PIN and return when entry opens again, if it's now locked
+export const recordFailedAttempt = (): number | null => {
+  const failures = loadState().failures + 1;
+  const excess = failures - AUTH_CONFIG.freeAttempts;
+  const lockedUntil =
+    excess > 0
+      ? Date.now() +
+        Math.min(
+          AUTH_CONFIG.lockoutBaseMs * 2 ** (excess - 1),
+          AUTH_CONFIG.lockoutMaxMs
+        )
+      : 0;
+
+  saveState({ failures, lockedUntil });
+  return lockedUntil || null;
+};
+
+// Honour a lockout imposed by the server
+export const recordServerLockout = (lockedUntil: number) => {
+  saveState({ ...loadState(), lockedUntil });
+};
+
+export const resetFailedAttempts = () => saveState(emptyState);
+
+// "Try again in 25s" / "Try again in 4 min"
+export const formatLockoutWait = (lockedUntil: number): string => {
+  const seconds = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000));
+  return `Try again in ${
+    seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`
+  }`;
+};
+
+// Checked in order - Edge and Chrome agents also mention Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Chrome\//, "Chrome"],
+  [/Firefox\//, "Firefox"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Short description of the browser and platform for the audit log
+const describeDevice = (): string => {
+  const agent = navigator.userAgent;
+  const find = (patterns: [RegExp, string][], fallback: string) =>
+    patterns.find(([pattern]) => pattern.test(agent))?.[1] ?? fallback;
+
+  return `${find(BROWSERS, "Browser")} on ${find(PLATFORMS, "unknown OS")} (${
+    window.screen.width
+  }x${window.screen.height})`;
+};
+
+export const getLoginAudit = (): LoginAuditEntry[] => {
+  try {
+    const saved = JSON.parse(
+      localStorage.getItem(AUTH_CONFIG.auditStorageKey) || "[]"
+    );
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.error("Error loading login audit:", error);
+    return [];
+  }
+};
+
+// Newest first, trimmed to the configured size
+export const recordLoginAudit = (
+  entry: Omit<LoginAuditEntry, "id" | "at" | "device">
+) => {
+  const at = Date.now();
+  const audit = [
+    {
+      ...entry,
+      id: `${at}-${Math.random().toString(36).slice(2, 8)}`,
+      at,
+      device: describeDevice(),
+    },
+    ...getLoginAudit(),
+  ].slice(0, AUTH_CONFIG.auditMaxEntries);
+
+  try {
+    localStorage.setItem(AUTH_CONFIG.auditStorageKey, JSON.stringify(audit));
+  } catch (error) {
+    console.error("Error saving login audit:", error);
+  }
+};
+
+export const clearLoginAudit = () => {
+  try {
+    localStorage.removeItem(AUTH_CONFIG.auditStorageKey);
+  } catch (error) {
+    console.error("Error clearing login audit:", error);
+  }
+};
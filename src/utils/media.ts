@@ -0,0 +1,63 @@
+import { PropertyMedia } from "../types";
+import { MEDIA_CONFIG } from "../constants";
+import { MediaProcessingError } from "./errors";
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new MediaProcessingError(file.name));
+    };
+    image.src = url;
+  });
+
+// Scale down so the longest side fits, never up, and encode as JPEG
+const toJpeg = (
+  image: HTMLImageElement,
+  maxDimension: number,
+  quality: number
+): string => {
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(image.naturalWidth, image.naturalHeight)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not supported in this browser");
+  }
+  // JPEG has no transparency; give see-through PNGs a white background
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL("image/jpeg", quality);
+};
+
+// Compressed full-size copy and thumbnail of a picked or captured photo
+export const processPhoto = async (
+  file: File
+): Promise<Pick<PropertyMedia, "image" | "thumbnail">> => {
+  if (!file.type.startsWith("image/")) {
+    throw new MediaProcessingError(file.name);
+  }
+
+  const image = await loadImage(file);
+  return {
+    image: toJpeg(image, MEDIA_CONFIG.maxDimension, MEDIA_CONFIG.quality),
+    thumbnail: toJpeg(
+      image,
+      MEDIA_CONFIG.thumbnailDimension,
+      MEDIA_CONFIG.thumbnailQuality
+    ),
+  };
+};
@@ -0,0 +1,464 @@
+import {
+  Property,
+  Person,
+  Connection,
+  Link,
+  OutboxEntity,
+  OutboxAction,
+  PendingMutation,
+} from "../types";
+import {
+  propertyAPI,
+  personAPI,
+  connectionAPI,
+  linkAPI,
+  trashAPI,
+} from "./api";
+import { CreateResult, isBackendOnline } from "./backend";
+import { NetworkError, TimeoutError } from "./errors";
+
+// Outbox storage key - kept outside the data cache so logout/version clears don't lose queued edits
+export const OUTBOX_STORAGE_KEY = "pending_mutations";
+
+// Each user has their own queue, so edits made offline are only ever sent
+// under the session of the user who made them
+const getOutboxKey = (userId: number) => `${OUTBOX_STORAGE_KEY}_${userId}`;
+
+export const isOutboxStorageKey = (key: string) =>
+  key.startsWith(OUTBOX_STORAGE_KEY);
+
+export interface OutboxData {
+  properties: Property[];
+  persons: Person[];
+  connections: Connection[];
+  links: Link[];
+}
+
+let lastTempId = 0;
+
+// Records created offline get a negative id until the server assigns a real one
+export const createTempId = (): number => {
+  const candidate = -Date.now();
+  lastTempId = candidate < lastTempId ? candidate : lastTempId - 1;
+  return lastTempId;
+};
+
+export const isTempId = (id?: number): boolean =>
+  typeof id === "number" && id < 0;
+
+// The request never reached the server (offline, timed out, connection dropped)
+export const isNetworkError = (error: unknown): boolean =>
+  !isBackendOnline() || error instanceof NetworkError;
+
+// A create that timed out may have been applied by the server anyway, and
+// sending it again would add the record twice. Only creates that never
+// reached the server are queued.
+export const canQueueCreate = (error: unknown): boolean =>
+  !(error instanceof TimeoutError) && isNetworkError(error);
+
+export const loadPendingMutations = (userId?: number): PendingMutation[] => {
+  if (userId === undefined) return [];
+  try {
+    // A queue saved before queues were kept per user goes to whoever signs
+    // in next
+    const legacy = localStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (legacy && !localStorage.getItem(getOutboxKey(userId))) {
+      localStorage.setItem(getOutboxKey(userId), legacy);
+    }
+    localStorage.removeItem(OUTBOX_STORAGE_KEY);
+
+    const saved = localStorage.getItem(getOutboxKey(userId));
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Error loading pending mutations:", error);
+    return [];
+  }
+};
+
+export const savePendingMutations = (
+  userId: number | undefined,
+  mutations: PendingMutation[]
+) => {
+  if (userId === undefined) return;
+  try {
+    if (mutations.length > 0) {
+      localStorage.setItem(getOutboxKey(userId), JSON.stringify(mutations));
+    } else {
+      localStorage.removeItem(getOutboxKey(userId));
+    }
+  } catch (error) {
+    console.error("Error saving pending mutations:", error);
+  }
+};
+
+export const createMutation = (
+  entity: OutboxEntity,
+  action: OutboxAction,
+  recordId: number,
+  data?: PendingMutation["data"],
+  base?: PendingMutation["base"]
+): PendingMutation => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  entity,
+  action,
+  recordId,
+  data,
+  base,
+  createdAt: Date.now(),
+  attempts: 0,
+});
+
+// Check whether a mutation touches the given record, including dependent connections and links
+const referencesRecord = (
+  mutation: PendingMutation,
+  entity: OutboxEntity,
+  id: number
+): boolean => {
+  if (mutation.entity === entity && mutation.recordId === id) return true;
+
+  if (entity === "property" && mutation.data) {
+    if (mutation.entity === "connection" || mutation.entity === "link") {
+      return (mutation.data as Connection | Link).property_id === id;
+    }
+  }
+
+  if (
+    entity === "person" &&
+    mutation.entity === "connection" &&
+    mutation.data
+  ) {
+    return (mutation.data as Connection).person_id === id;
+  }
+
+  return false;
+};
+
+// Add a mutation to the queue. Deleting a record that only exists locally
+// cancels its queued mutations instead of sending anything to the server.
+export const enqueueMutation = (
+  queue: PendingMutation[],
+  mutation: PendingMutation
+): PendingMutation[] => {
+  if (mutation.action === "delete" && isTempId(mutation.recordId)) {
+    return queue.filter(
+      (m) => !referencesRecord(m, mutation.entity, mutation.recordId)
+    );
+  }
+
+  return [...queue, mutation];
+};
+
+// The next mutation to send. Failed and conflicted ones are passed over, along
+// with later mutations of the same records so those still land in order once
+// retried or merged.
+export const nextReplayable = (
+  queue: PendingMutation[]
+): PendingMutation | undefined => {
+  const failed: PendingMutation[] = [];
+  for (const mutation of queue) {
+    if (mutation.failed || mutation.conflict) {
+      failed.push(mutation);
+    } else if (
+      !failed.some((f) => referencesRecord(mutation, f.entity, f.recordId))
+    ) {
+      return mutation;
+    }
+  }
+  return undefined;
+};
+
+export const hasPendingChanges = (
+  queue: PendingMutation[],
+  entity: OutboxEntity,
+  id: number
+): boolean => queue.some((m) => referencesRecord(m, entity, id));
+
+// Apply a single mutation to in-memory data (used for optimistic updates)
+export const applyMutation = (
+  data: OutboxData,
+  mutation: PendingMutation
+): OutboxData => {
+  const { entity, action, recordId } = mutation;
+
+  const upsert = <T extends { id: number }>(items: T[]): T[] => {
+    const record = mutation.data as unknown as T;
+    if (!record) return items;
+    return items.some((item) => item.id === recordId)
+      ? items.map((item) => (item.id === recordId ? record : item))
+      : [...items, record];
+  };
+
+  switch (entity) {
+    case "property":
+      if (action === "delete") {
+        return {
+          ...data,
+          properties: data.properties.filter((p) => p.id !== recordId),
+          connections: data.connections.filter(
+            (c) => c.property_id !== recordId
+          ),
+          links: data.links.filter((l) => l.property_id !== recordId),
+        };
+      }
+      return { ...data, properties: upsert(data.properties) };
+
+    case "person":
+      if (action === "delete") {
+        return {
+          ...data,
+          persons: data.persons.filter((p) => p.id !== recordId),
+          connections: data.connections.filter((c) => c.person_id !== recordId),
+        };
+      }
+      return { ...data, persons: upsert(data.persons) };
+
+    case "connection":
+      if (action === "delete") {
+        return {
+          ...data,
+          connections: data.connections.filter((c) => c.id !== recordId),
+        };
+      }
+      return { ...data, connections: upsert(data.connections) };
+
+    case "link":
+      if (action === "delete") {
+        return { ...data, links: data.links.filter((l) => l.id !== recordId) };
+      }
+      return { ...data, links: upsert(data.links) };
+
+    default:
+      return data;
+  }
+};
+
+// Queued updates of a property whose update clashed with a newer server copy.
+// They are shown as the server copy until the conflict is merged.
+const isHeldByConflict = (
+  queue: PendingMutation[],
+  mutation: PendingMutation
+): boolean =>
+  mutation.action === "update" &&
+  queue.some(
+    (m) =>
+      m.conflict &&
+      m.entity === mutation.entity &&
+      m.recordId === mutation.recordId
+  );
+
+// Re-apply everything still queued on top of freshly loaded server data
+export const applyPendingMutations = (
+  data: OutboxData,
+  queue: PendingMutation[]
+): OutboxData =>
+  queue.reduce(
+    (result, mutation) =>
+      isHeldByConflict(queue, mutation)
+        ? result
+        : applyMutation(result, mutation),
+    data
+  );
+
+// The copy of a property with all of its queued updates applied
+export const getQueuedCopy = (
+  queue: PendingMutation[],
+  propertyId: number
+): Property | undefined =>
+  queue
+    .filter(
+      (m) =>
+        m.entity === "property" &&
+        m.action === "update" &&
+        m.recordId === propertyId
+    )
+    .map((m) => m.data as Property)
+    .pop();
+
+// Hold a queued property update that clashed with a newer server copy. The
+// edits are kept for the user to merge, instead of being sent again.
+export const markConflict = (
+  queue: PendingMutation[],
+  mutationId: string,
+  current: Property,
+  message: string
+): PendingMutation[] =>
+  queue.map((m) =>
+    m.id === mutationId
+      ? {
+          ...m,
+          attempts: m.attempts + 1,
+          lastError: message,
+          conflict: current,
+        }
+      : m
+  );
+
+// Replace a temporary id with the server id in a single record
+const remapRecord = <T extends Property | Person | Connection | Link>(
+  record: T,
+  recordEntity: OutboxEntity,
+  entity: OutboxEntity,
+  tempId: number,
+  serverId: number
+): T => {
+  let next = record;
+
+  if (recordEntity === entity && record.id === tempId) {
+    next = { ...next, id: serverId };
+  }
+
+  if (entity === "property" && "property_id" in next) {
+    if (next.property_id === tempId) {
+      next = { ...next, property_id: serverId };
+    }
+  }
+
+  if (entity === "person" && "person_id" in next) {
+    if (next.person_id === tempId) {
+      next = { ...next, person_id: serverId };
+    }
+  }
+
+  return next;
+};
+
+export const remapPendingMutations = (
+  queue: PendingMutation[],
+  entity: OutboxEntity,
+  tempId: number,
+  serverId: number
+): PendingMutation[] =>
+  queue.map((mutation) => ({
+    ...mutation,
+    recordId:
+      mutation.entity === entity && mutation.recordId === tempId
+        ? serverId
+        : mutation.recordId,
+    data: mutation.data
+      ? remapRecord(mutation.data, mutation.entity, entity, tempId, serverId)
+      : undefined,
+  }));
+
+export const remapOutboxData = (
+  data: OutboxData,
+  entity: OutboxEntity,
+  tempId: number,
+  serverId: number
+): OutboxData => ({
+  properties: data.properties.map((p) =>
+    remapRecord(p, "property", entity, tempId, serverId)
+  ),
+  persons: data.persons.map((p) =>
+    remapRecord(p, "person", entity, tempId, serverId)
+  ),
+  connections: data.connections.map((c) =>
+    remapRecord(c, "connection", entity, tempId, serverId)
+  ),
+  links: data.links.map((l) =>
+    remapRecord(l, "link", entity, tempId, serverId)
+  ),
+});
+
+// Strip the temporary id before sending a create to the server
+export const withoutId = <T extends { id: number }>(
+  record: T
+): Omit<T, "id"> => {
+  const copy: Partial<T> = { ...record };
+  delete copy.id;
+  return copy as Omit<T, "id">;
+};
+
+export interface ReplayResult {
+  serverId?: number; // Id assigned to a created record
+  updatedOn?: string; // New version of an updated property
+}
+
+// Queued edits were all made against the version loaded before going offline.
+// Once one of them lands, later edits of the same property build on its version.
+export const advancePropertyVersion = (
+  queue: PendingMutation[],
+  propertyId: number,
+  updatedOn: string
+): PendingMutation[] =>
+  queue.map((mutation) =>
+    mutation.entity === "property" &&
+    mutation.recordId === propertyId &&
+    mutation.data
+      ? {
+          ...mutation,
+          data: { ...(mutation.data as Property), updated_on: updatedOn },
+        }
+      : mutation
+  );
+
+// Send a queued mutation to the server. Returns the new server id for creates
+// and the new version for property updates.
+export const replayMutation = async (
+  mutation: PendingMutation
+): Promise<ReplayResult> => {
+  const { entity, action, recordId } = mutation;
+
+  if (action === "delete") {
+    switch (entity) {
+      case "property":
+        await trashAPI.remove("property", recordId);
+        break;
+      case "person":
+        await trashAPI.remove("person", recordId);
+        break;
+      case "connection":
+        await connectionAPI.delete(recordId);
+        break;
+      case "link":
+        await linkAPI.delete(recordId);
+        break;
+    }
+    return {};
+  }
+
+  if (!mutation.data) {
+    throw new Error(`Queued ${action} for ${entity} ${recordId} has no data`);
+  }
+
+  if (action === "update") {
+    switch (entity) {
+      case "property": {
+        const result = await propertyAPI.update(mutation.data as Property);
+        return { updatedOn: result.updated_on };
+      }
+      case "person":
+        await personAPI.update(mutation.data as Person);
+        break;
+      case "connection":
+        await connectionAPI.update(mutation.data as Connection);
+        break;
+      case "link":
+        await linkAPI.update(mutation.data as Link);
+        break;
+    }
+    return {};
+  }
+
+  let result: CreateResult;
+
+  switch (entity) {
+    case "property":
+      result = await propertyAPI.create(withoutId(mutation.data as Property));
+      break;
+    case "person":
+      result = await personAPI.create(withoutId(mutation.data as Person));
+      break;
+    case "connection":
+      result = await connectionAPI.create(
+        withoutId(mutation.data as Connection)
+      );
+      break;
+    case "link":
+    default:
+      result = await linkAPI.create(withoutId(mutation.data as Link));
+      break;
+  }
+
+  return { serverId: result.id };
+};
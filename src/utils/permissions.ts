@@ -0,0 +1,11 @@
+import { Permission, User } from "../types";
+import { ROLE_PERMISSIONS } from "../constants";
+
+// Whether a user's role grants a permission. Disabled accounts get nothing.
+export const hasPermission = (
+  user: User | null,
+  permission: Permission
+): boolean =>
+  !!user &&
+  !user.disabled &&
+  (ROLE_PERMISSIONS[user.role] as readonly Permission[]).includes(permission);
@@ -0,0 +1,53 @@
+// PIN hashing for the local backend, which stands in for the server's
+// password storage, and for the inactivity lock's in-memory PIN check.
+// PINs are short, so a slow salted hash is essential.
+const ITERATIONS = 150000;
+const SALT_BYTES = 16;
+
+export interface PinHash {
+  hash: string;
+  salt: string;
+}
+
+const toHex = (buffer: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map((byte) => parseInt(byte, 16)));
+
+const derive = async (pin: string, salt: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+export const hashPin = async (pin: string): Promise<PinHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { hash: await derive(pin, salt), salt: toHex(salt) };
+};
+
+export const verifyPin = async (
+  pin: string,
+  stored: PinHash
+): Promise<boolean> => {
+  const hash = await derive(pin, fromHex(stored.salt));
+
+  // Compare every character so timing doesn't reveal how much matched
+  let difference = hash.length ^ stored.hash.length;
+  for (let i = 0; i < hash.length; i++) {
+    difference |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  }
+  return difference === 0;
+};
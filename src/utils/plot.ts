@@ -0,0 +1,61 @@
+import { PlotDimensions, Property } from "../types";
+
+export const isIrregular = (dimensions: PlotDimensions): boolean =>
+  (dimensions.back_breadth !== undefined &&
+    dimensions.back_breadth !== dimensions.breadth) ||
+  (dimensions.right_length !== undefined &&
+    dimensions.right_length !== dimensions.length);
+
+// Area in square yards. Irregular plots use the average of opposite sides,
+// the way plots are usually measured on site.
+export const getPlotArea = (dimensions: PlotDimensions): number => {
+  const breadth =
+    (dimensions.breadth + (dimensions.back_breadth ?? dimensions.breadth)) / 2;
+  const length =
+    (dimensions.length + (dimensions.right_length ?? dimensions.length)) / 2;
+  return (breadth * length) / 9;
+};
+
+// "30 × 60 ft", or "30/32 × 60/58 ft" with the front and left side first
+export const formatDimensions = (dimensions: PlotDimensions): string => {
+  const side = (a: number, b: number | undefined) =>
+    b === undefined || b === a ? `${a}` : `${a}/${b}`;
+  return `${side(dimensions.breadth, dimensions.back_breadth)} × ${side(
+    dimensions.length,
+    dimensions.right_length
+  )} ft`;
+};
+
+// One-line summary for cards and share text, e.g.
+// "30 × 60 ft, East facing, 20 ft road, corner"
+export const describePlot = (
+  property: Pick<Property, "dimensions" | "facing" | "road_width" | "corner">
+): string =>
+  [
+    property.dimensions && formatDimensions(property.dimensions),
+    property.facing && `${property.facing} facing`,
+    property.road_width && `${property.road_width} ft road`,
+    property.corner && "corner",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === "number" && value > 0 ? value : undefined;
+
+// Keep stored dimensions only when both main sides are usable
+export const parseDimensions = (value: unknown): PlotDimensions | undefined => {
+  if (!value || typeof value !== "object") return undefined;
+
+  const raw = value as Record<string, unknown>;
+  const length = positive(raw.length);
+  const breadth = positive(raw.breadth);
+  if (length === undefined || breadth === undefined) return undefined;
+
+  return {
+    length,
+    breadth,
+    back_breadth: positive(raw.back_breadth),
+    right_length: positive(raw.right_length),
+  };
+};
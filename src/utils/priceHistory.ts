@@ -0,0 +1,89 @@
+import { PriceChange, Property, User } from "../types";
+import { PRICE_HISTORY_CONFIG, PRICE_SOURCES } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const samePrice = (
+  a: Pick<Property, "price_min" | "price_max">,
+  b: Pick<Property, "price_min" | "price_max">
+) => a.price_min === b.price_min && a.price_max === b.price_max;
+
+// Record a history step when a save changes the asking price. New listings
+// get their first price as the first step; listings priced before history
+// was kept get their old price as a starting point.
+export const withPriceChange = <T extends Omit<Property, "id">>(
+  property: T,
+  previous: Property | undefined,
+  user: User | null
+): T => {
+  if (previous && samePrice(previous, property)) return property;
+
+  let history = [...(property.price_history ?? [])];
+  const since = previous?.updated_on || previous?.created_on;
+  if (previous && history.length === 0 && since) {
+    history = [
+      {
+        price_min: previous.price_min,
+        price_max: previous.price_max,
+        source: previous.price_source,
+        at: since,
+      },
+    ];
+  }
+
+  const step: PriceChange = {
+    price_min: property.price_min,
+    price_max: property.price_max,
+    at: new Date().toISOString(),
+  };
+  if (property.price_source) step.source = property.price_source;
+  if (user) step.by = user.id;
+
+  return { ...property, price_history: [...history, step] };
+};
+
+export interface PriceReduction {
+  amount: number; // In lakhs, like the prices themselves
+  at: string;
+}
+
+// The latest price change, when it was a cut
+export const getPriceReduction = (
+  property: Pick<Property, "price_history">
+): PriceReduction | null => {
+  const history = property.price_history ?? [];
+  if (history.length < 2) return null;
+
+  const latest = history[history.length - 1];
+  const earlier = history[history.length - 2];
+  const amount =
+    earlier.price_min - latest.price_min ||
+    earlier.price_max - latest.price_max;
+
+  return amount > 0 ? { amount, at: latest.at } : null;
+};
+
+export const isRecentlyReduced = (
+  property: Pick<Property, "price_history">,
+  now = Date.now()
+) => {
+  const reduction = getPriceReduction(property);
+  return (
+    !!reduction &&
+    now - Date.parse(reduction.at) <=
+      PRICE_HISTORY_CONFIG.recentReductionDays * DAY_MS
+  );
+};
+
+// Keep only well-formed steps from a stored history
+export const parsePriceHistory = (value: unknown): PriceChange[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (step): step is PriceChange =>
+          !!step &&
+          typeof step.price_min === "number" &&
+          typeof step.price_max === "number" &&
+          (step.source === undefined || PRICE_SOURCES.includes(step.source)) &&
+          typeof step.at === "string"
+      )
+    : [];
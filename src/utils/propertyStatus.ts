@@ -0,0 +1,40 @@
+import { Property, PropertyStatus, StatusChange, User } from "../types";
+import { PROPERTY_STATUSES } from "../constants";
+
+export const getPropertyStatus = (
+  property: Pick<Property, "status">
+): PropertyStatus => property.status || "Available";
+
+export const isAvailable = (property: Pick<Property, "status">) =>
+  getPropertyStatus(property) === "Available";
+
+// Record a history step when a save puts the listing in a new status. New
+// listings get their starting status as the first step.
+export const withStatusTransition = <T extends Omit<Property, "id">>(
+  property: T,
+  previous: Property | undefined,
+  user: User | null
+): T => {
+  const status = getPropertyStatus(property);
+  if (previous && getPropertyStatus(previous) === status) return property;
+
+  const step: StatusChange = { status, at: new Date().toISOString() };
+  if (user) step.by = user.id;
+
+  return {
+    ...property,
+    status,
+    status_history: [...(property.status_history ?? []), step],
+  };
+};
+
+// Keep only well-formed steps from a stored history
+export const parseStatusHistory = (value: unknown): StatusChange[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (step): step is StatusChange =>
+          !!step &&
+          PROPERTY_STATUSES.includes(step.status) &&
+          typeof step.at === "string"
+      )
+    : [];
@@ -0,0 +1,65 @@
+import {
+  Property,
+  Person,
+  Connection,
+  Link,
+  TrashEntity,
+  TrashEntry,
+} from "../types";
+import { TRASH_CONFIG } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (): number => {
+  try {
+    const saved = parseInt(
+      localStorage.getItem(TRASH_CONFIG.retentionStorageKey) || ""
+    );
+    return saved > 0 ? saved : TRASH_CONFIG.defaultRetentionDays;
+  } catch (error) {
+    console.error("Error loading trash retention:", error);
+    return TRASH_CONFIG.defaultRetentionDays;
+  }
+};
+
+export const saveTrashRetentionDays = (days: number) => {
+  try {
+    localStorage.setItem(TRASH_CONFIG.retentionStorageKey, String(days));
+  } catch (error) {
+    console.error("Error saving trash retention:", error);
+  }
+};
+
+export const getTrashEntryId = (entity: TrashEntity, recordId: number) =>
+  `${entity}-${recordId}`;
+
+export const createTrashEntry = (
+  entity: TrashEntity,
+  record: Property | Person,
+  connections: Connection[],
+  links: Link[]
+): TrashEntry => ({
+  id: getTrashEntryId(entity, record.id),
+  entity,
+  record,
+  connections,
+  links,
+  deletedAt: Date.parse(record.deleted_at ?? "") || Date.now(),
+});
+
+// When an entry will be purged for good
+export const getPurgeTime = (entry: TrashEntry, retentionDays: number) =>
+  entry.deletedAt + retentionDays * DAY_MS;
+
+export const isTrashEntryExpired = (
+  entry: TrashEntry,
+  retentionDays: number,
+  now = Date.now()
+) => getPurgeTime(entry, retentionDays) <= now;
+
+export const getTrashEntryName = (entry: TrashEntry): string =>
+  entry.entity === "property"
+    ? (entry.record as Property).area ||
+      (entry.record as Property).type ||
+      "Property"
+    : (entry.record as Person).name || "Person";
@@ -0,0 +1,275 @@
+import {
+  API_CONFIG,
+  PROPERTY_TYPES,
+  PROPERTY_STATUSES,
+  PRICE_SOURCES,
+  FACING_DIRECTIONS,
+  PERSON_ROLES,
+  CONNECTION_ROLES,
+  LINK_TYPES,
+  USER_ROLES,
+} from "../constants";
+
+// A single row as returned by the PHP endpoint, before validation
+export type RawRecord = Record<string, unknown>;
+
+export interface ValidationIssue {
+  table: string;
+  recordId: string; // Raw id as sent by the server ("unknown" when missing)
+  field: string;
+  message: string;
+}
+
+type FieldKind =
+  | "id"
+  | "number"
+  | "string"
+  | "boolean"
+  | "location"
+  | "tags"
+  | "timestamp"
+  | "json";
+
+interface FieldSchema {
+  kind: FieldKind;
+  required?: boolean;
+  oneOf?: readonly string[];
+}
+
+export type TableSchema = Record<string, FieldSchema>;
+
+// Response schemas for each table in API_CONFIG.tables
+export const API_SCHEMAS: Record<string, TableSchema> = {
+  [API_CONFIG.tables.properties]: {
+    id: { kind: "id", required: true },
+    size_min: { kind: "number" },
+    size_max: { kind: "number" },
+    price_min: { kind: "number" },
+    price_max: { kind: "number" },
+    rating: { kind: "number" },
+    radius: { kind: "number" },
+    boundary: { kind: "json" },
+    location: { kind: "location" },
+    tags: { kind: "tags" },
+    area: { kind: "string" },
+    zone: { kind: "string" },
+    description: { kind: "string" },
+    note: { kind: "string" },
+    type: { kind: "string", oneOf: PROPERTY_TYPES },
+    status: { kind: "string", oneOf: PROPERTY_STATUSES },
+    status_history: { kind: "json" },
+    price_source: { kind: "string", oneOf: PRICE_SOURCES },
+    price_history: { kind: "json" },
+    documents: { kind: "json" },
+    custom_fields: { kind: "json" },
+    dimensions: { kind: "json" },
+    facing: { kind: "string", oneOf: FACING_DIRECTIONS },
+    road_width: { kind: "number" },
+    corner: { kind: "boolean" },
+    cover_media_id: { kind: "id" },
+    created_at: { kind: "timestamp" },
+    updated_at: { kind: "timestamp" },
+    deleted_at: { kind: "timestamp" },
+    created_by: { kind: "id" },
+    updated_by: { kind: "id" },
+  },
+  [API_CONFIG.tables.persons]: {
+    id: { kind: "id", required: true },
+    name: { kind: "string" },
+    phone: { kind: "string" },
+    about: { kind: "string" },
+    role: { kind: "string", oneOf: PERSON_ROLES },
+    alternative_contact_details: { kind: "string" },
+    created_at: { kind: "timestamp" },
+    updated_at: { kind: "timestamp" },
+    deleted_at: { kind: "timestamp" },
+    created_by: { kind: "id" },
+    updated_by: { kind: "id" },
+  },
+  [API_CONFIG.tables.connections]: {
+    id: { kind: "id", required: true },
+    property_id: { kind: "id", required: true },
+    person_id: { kind: "id", required: true },
+    role: { kind: "string", oneOf: CONNECTION_ROLES },
+    remark: { kind: "string" },
+    created_at: { kind: "timestamp" },
+    updated_at: { kind: "timestamp" },
+    created_by: { kind: "id" },
+    updated_by: { kind: "id" },
+  },
+  [API_CONFIG.tables.links]: {
+    id: { kind: "id", required: true },
+    property_id: { kind: "id", required: true },
+    link: { kind: "string", required: true },
+    type: { kind: "string", oneOf: LINK_TYPES },
+    anchor: { kind: "string" },
+    created_at: { kind: "timestamp" },
+    updated_at: { kind: "timestamp" },
+    created_by: { kind: "id" },
+    updated_by: { kind: "id" },
+  },
+  [API_CONFIG.tables.media]: {
+    id: { kind: "id", required: true },
+    property_id: { kind: "id", required: true },
+    image: { kind: "string", required: true },
+    thumbnail: { kind: "string", required: true },
+    caption: { kind: "string" },
+    created_at: { kind: "timestamp" },
+    created_by: { kind: "id" },
+  },
+  [API_CONFIG.tables.changes]: {
+    id: { kind: "id", required: true },
+    entity: { kind: "string", required: true, oneOf: ["property", "person"] },
+    record_id: { kind: "id", required: true },
+    changes: { kind: "json", required: true },
+    created_at: { kind: "timestamp" },
+    created_by: { kind: "id" },
+  },
+  [API_CONFIG.tables.users]: {
+    id: { kind: "id", required: true },
+    username: { kind: "string", required: true },
+    name: { kind: "string" },
+    role: { kind: "string", oneOf: USER_ROLES },
+    disabled: { kind: "boolean" },
+    created_at: { kind: "timestamp" },
+  },
+};
+
+const isMissing = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+// PHP sends tinyint columns as 0/1 or "0"/"1"
+const BOOLEAN_VALUES: unknown[] = [true, false, 0, 1, "0", "1"];
+
+const isFiniteNumber = (value: unknown) =>
+  (typeof value === "number" || typeof value === "string") &&
+  Number.isFinite(Number(value));
+
+// Parse a "lat,lng" string, returning null when it isn't a real coordinate
+export const parseLocation = (
+  value: unknown
+): { latitude: number; longitude: number } | null => {
+  if (typeof value !== "string") return null;
+
+  const [lat, lng] = value.split(",");
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lng);
+
+  if (
+    isNaN(latitude) ||
+    isNaN(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+
+  return { latitude, longitude };
+};
+
+// JSON columns arrive as text from PHP, or already decoded. Returns undefined
+// unless the value is an object or list.
+export const readJSON = (value: unknown): object | undefined => {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return parsed !== null && typeof parsed === "object" ? parsed : undefined;
+};
+
+// Returns an error message when the value doesn't match the field schema
+const checkField = (value: unknown, schema: FieldSchema): string | null => {
+  if (isMissing(value)) {
+    return schema.required ? "is required" : null;
+  }
+
+  switch (schema.kind) {
+    case "id":
+      return isFiniteNumber(value) &&
+        Number.isInteger(Number(value)) &&
+        Number(value) > 0
+        ? null
+        : `must be a positive integer id, got ${JSON.stringify(value)}`;
+
+    case "number":
+      return isFiniteNumber(value)
+        ? null
+        : `must be a number, got ${JSON.stringify(value)}`;
+
+    case "string":
+      if (typeof value !== "string" && typeof value !== "number") {
+        return `must be text, got ${typeof value}`;
+      }
+      if (schema.oneOf && !schema.oneOf.includes(String(value))) {
+        return `has unknown value ${JSON.stringify(value)}`;
+      }
+      return null;
+
+    case "boolean":
+      return BOOLEAN_VALUES.includes(value)
+        ? null
+        : `must be true or false, got ${JSON.stringify(value)}`;
+
+    case "location":
+      return parseLocation(value)
+        ? null
+        : `must be "latitude,longitude", got ${JSON.stringify(value)}`;
+
+    case "tags":
+      return typeof value === "string" ||
+        (Array.isArray(value) && value.every((tag) => typeof tag === "string"))
+        ? null
+        : "must be a comma separated string or list of strings";
+
+    case "timestamp":
+      return typeof value === "string" && !isNaN(Date.parse(value))
+        ? null
+        : `must be a date, got ${JSON.stringify(value)}`;
+
+    case "json":
+      return readJSON(value) !== undefined
+        ? null
+        : "must be a JSON object or list";
+
+    default:
+      return null;
+  }
+};
+
+// Validate one row against its table schema
+export const validateRecord = (
+  table: string,
+  record: unknown
+): ValidationIssue[] => {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return [
+      {
+        table,
+        recordId: "unknown",
+        field: "(record)",
+        message: "is not an object",
+      },
+    ];
+  }
+
+  const raw = record as RawRecord;
+  const schema = API_SCHEMAS[table] || {};
+  const recordId = isMissing(raw.id) ? "unknown" : String(raw.id);
+  const issues: ValidationIssue[] = [];
+
+  Object.entries(schema).forEach(([field, fieldSchema]) => {
+    const message = checkField(raw[field], fieldSchema);
+    if (message) {
+      issues.push({ table, recordId, field, message });
+    }
+  });
+
+  return issues;
+};
+
+export const formatValidationIssue = (issue: ValidationIssue): string =>
+  `${issue.table} #${issue.recordId}: ${issue.field} ${issue.message}`;